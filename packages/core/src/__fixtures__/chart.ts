@@ -0,0 +1,66 @@
+/**
+ * @af/sweph-core - Chart fixtures
+ *
+ * Complete Planet and LagnaInfo objects built from sidereal longitudes, as an
+ * adapter would return them, for the unit tests.
+ */
+
+import type { LagnaInfo, Planet } from '../types';
+import { getNakshatra, getRashi, getRashiDegree, normalizeLongitude } from '../utils';
+
+/**
+ * Mean daily motion of the lunar nodes, which move backwards
+ */
+const NODE_SPEED = -0.053;
+
+/**
+ * Build a planet at a sidereal longitude
+ * @param name - Planet name, e.g. 'Moon'
+ * @param longitude - Sidereal longitude in degrees
+ * @param overrides - Fields to set explicitly; speed defaults to 1°/day, or the mean node
+ *   speed for Rahu and Ketu, and latitude to 0
+ */
+export function planetAt(name: string, longitude: number, overrides: Partial<Planet> = {}): Planet {
+    const speed = overrides.speed ?? (name === 'Rahu' || name === 'Ketu' ? NODE_SPEED : 1);
+    const lon = normalizeLongitude(longitude);
+    return {
+        id: name.toLowerCase(),
+        name,
+        longitude: lon,
+        latitude: 0,
+        distance: 1,
+        speed,
+        rasi: getRashi(lon),
+        rasiDegree: getRashiDegree(lon),
+        isRetrograde: speed < 0,
+        ...overrides,
+    };
+}
+
+/**
+ * Build planets from their longitudes, or longitude and daily speed
+ * @param positions - Longitude (or `[longitude, speed]`) by planet name
+ */
+export function planetsAt(positions: Record<string, number | [longitude: number, speed: number]>): Planet[] {
+    return Object.entries(positions).map(([name, position]) =>
+        Array.isArray(position) ? planetAt(name, position[0], { speed: position[1] }) : planetAt(name, position));
+}
+
+/**
+ * Build a lagna at a sidereal longitude
+ * @param longitude - Ascendant longitude in degrees
+ * @param overrides - Fields to set explicitly, e.g. the house cusps (default: none)
+ */
+export function lagnaAt(longitude: number, overrides: Partial<LagnaInfo> = {}): LagnaInfo {
+    const lon = normalizeLongitude(longitude);
+    const { number: nakshatra, pada } = getNakshatra(lon);
+    return {
+        longitude: lon,
+        rasi: getRashi(lon),
+        rasiDegree: getRashiDegree(lon),
+        nakshatra,
+        nakshatraPada: pada,
+        houses: [],
+        ...overrides,
+    };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAshtakavarga } from './ashtakavarga';
+import { planetsAt, lagnaAt } from './__fixtures__/chart';
+
+const planets = planetsAt({
+    Sun: 275, Moon: 12, Mars: 250, Mercury: 262, Jupiter: 5, Venus: 230, Saturn: 305, Rahu: 0, Ketu: 180,
+});
+const lagna = lagnaAt(100);
+
+describe('calculateAshtakavarga', () => {
+    it('should produce the classical bindu totals', () => {
+        const av = calculateAshtakavarga(planets, lagna);
+
+        expect(av.bhinna.map(t => t.planet)).toEqual(
+            ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Lagna']
+        );
+        expect(av.bhinna.map(t => t.total)).toEqual([48, 49, 39, 54, 56, 52, 39, 49]);
+        expect(av.sarvaTotal).toBe(337);
+        expect(av.sarva.reduce((sum, b) => sum + b, 0)).toBe(337);
+    });
+
+    it('should count bindus from each contributor sign', () => {
+        const av = calculateAshtakavarga(planets, lagna);
+        const sun = av.bhinna[0]!;
+
+        // Sun in Capricorn gives the Sun's table a bindu in its own sign (1st house)
+        expect(sun.contributions.Sun![9]).toBe(1);
+        // ...but none in the 3rd from itself (Pisces)
+        expect(sun.contributions.Sun![11]).toBe(0);
+        expect(sun.bindus.every(b => b >= 0 && b <= 8)).toBe(true);
+    });
+
+    it('should only add reduced tables when a shodhana is requested', () => {
+        expect(calculateAshtakavarga(planets, lagna).reducedSarva).toBeUndefined();
+
+        const reduced = calculateAshtakavarga(planets, lagna, { trikonaShodhana: true, ekadhipatyaShodhana: true });
+        for (const table of reduced.bhinna) {
+            expect(table.reducedBindus).toHaveLength(12);
+            table.reducedBindus!.forEach((value, sign) => expect(value).toBeLessThanOrEqual(table.bindus[sign]!));
+        }
+    });
+
+    it('should apply trikona shodhana to each trine group', () => {
+        const av = calculateAshtakavarga(planets, lagna, { trikonaShodhana: true });
+
+        for (const table of av.bhinna) {
+            for (let first = 0; first < 4; first++) {
+                const trine = [first, first + 4, first + 8].map(s => table.reducedBindus![s]!);
+                // After reduction at least one sign of every trine is empty
+                expect(trine).toContain(0);
+            }
+        }
+    });
+
+    it('should throw when a planet is missing', () => {
+        expect(() => calculateAshtakavarga(planets.slice(1), lagna)).toThrow('Sun');
+    });
+});
@@ -0,0 +1,268 @@
+/**
+ * @af/sweph-core - Ashtakavarga
+ *
+ * Platform-agnostic bhinnashtakavarga and sarvashtakavarga calculations (BPHS).
+ */
+
+import type {
+    Planet,
+    LagnaInfo,
+    AshtakavargaOptions,
+    BhinnashtakavargaTable,
+    Ashtakavarga,
+} from './types';
+import { getRashi } from './utils';
+
+/**
+ * Contributors to every ashtakavarga table, in traditional order
+ */
+const CONTRIBUTORS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Lagna'] as const;
+
+type Contributor = typeof CONTRIBUTORS[number];
+
+/**
+ * Houses counted from each contributor that receive a bindu, per table
+ */
+const BINDU_RULES: Record<Contributor, Record<Contributor, number[]>> = {
+    Sun: {
+        Sun: [1, 2, 4, 7, 8, 9, 10, 11],
+        Moon: [3, 6, 10, 11],
+        Mars: [1, 2, 4, 7, 8, 9, 10, 11],
+        Mercury: [3, 5, 6, 9, 10, 11, 12],
+        Jupiter: [5, 6, 9, 11],
+        Venus: [6, 7, 12],
+        Saturn: [1, 2, 4, 7, 8, 9, 10, 11],
+        Lagna: [3, 4, 6, 10, 11, 12],
+    },
+    Moon: {
+        Sun: [3, 6, 7, 8, 10, 11],
+        Moon: [1, 3, 6, 7, 10, 11],
+        Mars: [2, 3, 5, 6, 9, 10, 11],
+        Mercury: [1, 3, 4, 5, 7, 8, 10, 11],
+        Jupiter: [1, 4, 7, 8, 10, 11, 12],
+        Venus: [3, 4, 5, 7, 9, 10, 11],
+        Saturn: [3, 5, 6, 11],
+        Lagna: [3, 6, 10, 11],
+    },
+    Mars: {
+        Sun: [3, 5, 6, 10, 11],
+        Moon: [3, 6, 11],
+        Mars: [1, 2, 4, 7, 8, 10, 11],
+        Mercury: [3, 5, 6, 11],
+        Jupiter: [6, 10, 11, 12],
+        Venus: [6, 8, 11, 12],
+        Saturn: [1, 4, 7, 8, 9, 10, 11],
+        Lagna: [1, 3, 6, 10, 11],
+    },
+    Mercury: {
+        Sun: [5, 6, 9, 11, 12],
+        Moon: [2, 4, 6, 8, 10, 11],
+        Mars: [1, 2, 4, 7, 8, 9, 10, 11],
+        Mercury: [1, 3, 5, 6, 9, 10, 11, 12],
+        Jupiter: [6, 8, 11, 12],
+        Venus: [1, 2, 3, 4, 5, 8, 9, 11],
+        Saturn: [1, 2, 4, 7, 8, 9, 10, 11],
+        Lagna: [1, 2, 4, 6, 8, 10, 11],
+    },
+    Jupiter: {
+        Sun: [1, 2, 3, 4, 7, 8, 9, 10, 11],
+        Moon: [2, 5, 7, 9, 11],
+        Mars: [1, 2, 4, 7, 8, 10, 11],
+        Mercury: [1, 2, 4, 5, 6, 9, 10, 11],
+        Jupiter: [1, 2, 3, 4, 7, 8, 10, 11],
+        Venus: [2, 5, 6, 9, 10, 11],
+        Saturn: [3, 5, 6, 12],
+        Lagna: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+    },
+    Venus: {
+        Sun: [8, 11, 12],
+        Moon: [1, 2, 3, 4, 5, 8, 9, 11, 12],
+        Mars: [3, 5, 6, 9, 11, 12],
+        Mercury: [3, 5, 6, 9, 11],
+        Jupiter: [5, 8, 9, 10, 11],
+        Venus: [1, 2, 3, 4, 5, 8, 9, 10, 11],
+        Saturn: [3, 4, 5, 8, 9, 10, 11],
+        Lagna: [1, 2, 3, 4, 5, 8, 9, 11],
+    },
+    Saturn: {
+        Sun: [1, 2, 4, 7, 8, 10, 11],
+        Moon: [3, 6, 11],
+        Mars: [3, 5, 6, 10, 11, 12],
+        Mercury: [6, 8, 9, 10, 11, 12],
+        Jupiter: [5, 6, 11, 12],
+        Venus: [6, 11, 12],
+        Saturn: [3, 5, 6, 11],
+        Lagna: [1, 3, 4, 6, 10, 11],
+    },
+    Lagna: {
+        Sun: [3, 4, 6, 10, 11, 12],
+        Moon: [3, 6, 10, 11, 12],
+        Mars: [1, 3, 6, 10, 11],
+        Mercury: [1, 2, 4, 6, 8, 10, 11],
+        Jupiter: [1, 2, 4, 5, 6, 7, 9, 10, 11],
+        Venus: [1, 2, 3, 4, 5, 8, 9],
+        Saturn: [1, 3, 4, 6, 10, 11],
+        Lagna: [3, 6, 10, 11],
+    },
+};
+
+/**
+ * Pairs of signs (0-based) ruled by the same planet, used in ekadhipatya shodhana
+ */
+const SAME_LORD_SIGNS: ReadonlyArray<[number, number]> = [
+    [0, 7],   // Mars: Aries, Scorpio
+    [1, 6],   // Venus: Taurus, Libra
+    [2, 5],   // Mercury: Gemini, Virgo
+    [8, 11],  // Jupiter: Sagittarius, Pisces
+    [9, 10],  // Saturn: Capricorn, Aquarius
+];
+
+/**
+ * Trikona shodhana: reduce each trine group of signs by its smallest figure
+ * @internal
+ */
+function applyTrikonaShodhana(bindus: number[]): number[] {
+    const reduced = [...bindus];
+
+    for (let first = 0; first < 4; first++) {
+        const signs = [first, first + 4, first + 8];
+        const values = signs.map(s => reduced[s]!);
+
+        if (values.includes(0)) continue;
+
+        const min = Math.min(...values);
+        const allEqual = values.every(v => v === values[0]);
+        for (const s of signs) {
+            reduced[s] = allEqual ? 0 : reduced[s]! - min;
+        }
+    }
+
+    return reduced;
+}
+
+/**
+ * Ekadhipatya shodhana: reduce pairs of signs owned by the same planet,
+ * depending on which of the two signs is occupied by a planet
+ * @internal
+ */
+function applyEkadhipatyaShodhana(bindus: number[], occupied: Set<number>): number[] {
+    const reduced = [...bindus];
+
+    for (const [a, b] of SAME_LORD_SIGNS) {
+        const valueA = reduced[a]!;
+        const valueB = reduced[b]!;
+        const occupiedA = occupied.has(a);
+        const occupiedB = occupied.has(b);
+
+        if (valueA === 0 || valueB === 0 || (occupiedA && occupiedB)) continue;
+
+        if (!occupiedA && !occupiedB) {
+            if (valueA === valueB) {
+                reduced[a] = 0;
+                reduced[b] = 0;
+            } else {
+                reduced[a] = reduced[b] = Math.min(valueA, valueB);
+            }
+            continue;
+        }
+
+        // Exactly one sign is occupied: reduce the unoccupied one
+        const [full, empty] = occupiedA ? [a, b] : [b, a];
+        reduced[empty] = reduced[empty]! > reduced[full]! ? reduced[full]! : 0;
+    }
+
+    return reduced;
+}
+
+/**
+ * Calculate bhinnashtakavarga tables and sarvashtakavarga
+ * @param planets - Planet positions from calculatePlanets()
+ * @param lagna - Lagna from calculateLagna()
+ * @param options - Shodhana reductions to apply
+ * @returns Bindu tables for the seven planets and lagna, plus sarvashtakavarga per sign
+ * @throws Error if one of the seven planets is missing from `planets`
+ * @example
+ * ```typescript
+ * const av = calculateAshtakavarga(planets, lagna);
+ * const saturnTable = av.bhinna.find(t => t.planet === 'Saturn');
+ * console.log(`Bindus in Aries: SAV ${av.sarva[0]}, Saturn ${saturnTable?.bindus[0]}`);
+ * ```
+ */
+export function calculateAshtakavarga(
+    planets: Planet[],
+    lagna: LagnaInfo,
+    options: AshtakavargaOptions = {}
+): Ashtakavarga {
+    const { trikonaShodhana = false, ekadhipatyaShodhana = false } = options;
+    const reduce = trikonaShodhana || ekadhipatyaShodhana;
+
+    // Sign index (0-based) of each contributor
+    const signs = {} as Record<Contributor, number>;
+    for (const name of CONTRIBUTORS) {
+        if (name === 'Lagna') {
+            signs.Lagna = getRashi(lagna.longitude) - 1;
+            continue;
+        }
+        const planet = planets.find(p => p.name === name);
+        if (!planet) {
+            throw new Error(`Ashtakavarga requires the position of ${name}`);
+        }
+        signs[name] = getRashi(planet.longitude) - 1;
+    }
+
+    const occupied = new Set(
+        CONTRIBUTORS.filter(name => name !== 'Lagna').map(name => signs[name])
+    );
+
+    const bhinna: BhinnashtakavargaTable[] = CONTRIBUTORS.map(tableOwner => {
+        const bindus = new Array<number>(12).fill(0);
+        const contributions: Record<string, number[]> = {};
+
+        for (const contributor of CONTRIBUTORS) {
+            const row = new Array<number>(12).fill(0);
+            for (const house of BINDU_RULES[tableOwner][contributor]) {
+                const sign = (signs[contributor] + house - 1) % 12;
+                row[sign] = 1;
+                bindus[sign] += 1;
+            }
+            contributions[contributor] = row;
+        }
+
+        const table: BhinnashtakavargaTable = {
+            planet: tableOwner,
+            bindus,
+            contributions,
+            total: bindus.reduce((sum, b) => sum + b, 0),
+        };
+
+        if (reduce) {
+            let reduced = trikonaShodhana ? applyTrikonaShodhana(bindus) : [...bindus];
+            if (ekadhipatyaShodhana) {
+                reduced = applyEkadhipatyaShodhana(reduced, occupied);
+            }
+            table.reducedBindus = reduced;
+        }
+
+        return table;
+    });
+
+    // Sarvashtakavarga excludes the lagna's own table
+    const planetTables = bhinna.filter(t => t.planet !== 'Lagna');
+    const sumSigns = (pick: (t: BhinnashtakavargaTable) => number[]) =>
+        Array.from({ length: 12 }, (_, sign) =>
+            planetTables.reduce((sum, t) => sum + pick(t)[sign]!, 0)
+        );
+
+    const sarva = sumSigns(t => t.bindus);
+    const result: Ashtakavarga = {
+        bhinna,
+        sarva,
+        sarvaTotal: sarva.reduce((sum, b) => sum + b, 0),
+    };
+
+    if (reduce) {
+        result.reducedSarva = sumSigns(t => t.reducedBindus!);
+    }
+
+    return result;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { calculateAspects, getRashiDrishti } from './aspects';
+import { planetsAt } from './__fixtures__/chart';
+
+describe('getRashiDrishti', () => {
+    it('should follow the movable, fixed and dual sign rules', () => {
+        expect(getRashiDrishti(1)).toEqual([5, 8, 11]);
+        expect(getRashiDrishti(2)).toEqual([4, 7, 10]);
+        expect(getRashiDrishti(3)).toEqual([6, 9, 12]);
+        expect(getRashiDrishti(10)).toEqual([2, 5, 8]);
+    });
+
+    it('should be mutual', () => {
+        for (let sign = 1; sign <= 12; sign++) {
+            for (const other of getRashiDrishti(sign)) {
+                expect(getRashiDrishti(other)).toContain(sign);
+            }
+        }
+    });
+});
+
+describe('calculateAspects', () => {
+    it('should find Western aspects within orb with applying status', () => {
+        const planets = planetsAt({ Sun: [10, 1], Moon: [98, 13], Mars: [132, 0.5] });
+        const { western } = calculateAspects(planets);
+
+        // Moon 88° ahead of the Sun and moving away: square applying
+        const sunMoon = western.find(a => a.from === 'Sun' && a.to === 'Moon')!;
+        expect(sunMoon.aspect).toBe('square');
+        expect(sunMoon.orb).toBeCloseTo(2);
+        expect(sunMoon.exactness).toBeCloseTo(1 - 2 / 7);
+        expect(sunMoon.applying).toBe(true);
+
+        // Moon 34° behind Mars and catching up: no major aspect
+        expect(western.find(a => a.to === 'Mars' && a.from === 'Moon')).toBeUndefined();
+
+        // Sun-Mars trine at 122°, the Sun catching up and narrowing the separation
+        const sunMars = western.find(a => a.from === 'Sun' && a.to === 'Mars')!;
+        expect(sunMars.aspect).toBe('trine');
+        expect(sunMars.applying).toBe(true);
+    });
+
+    it('should honour aspect selection and orbs', () => {
+        const planets = planetsAt({ Sun: [10, 1], Moon: [98, 13], Mars: [132, 0.5] });
+        const { western } = calculateAspects(planets, {
+            aspects: ['square', 'semi-sextile'],
+            orbs: { square: 1, 'semi-sextile': 5 },
+        });
+
+        expect(western.map(a => a.aspect)).toEqual(['semi-sextile']);
+        expect(() => calculateAspects(planets, { aspects: ['septile' as never] })).toThrow('septile');
+    });
+
+    it('should include the angles as points', () => {
+        const planets = planetsAt({ Sun: [10, 1] });
+        const { western } = calculateAspects(planets, { ascendant: 195, mc: 100 });
+
+        expect(western.map(a => `${a.from}-${a.to}-${a.aspect}`)).toEqual([
+            'Sun-Ascendant-opposition',
+            'Sun-MC-square',
+            'Ascendant-MC-square',
+        ]);
+        // Fixed angles, so only the Sun's motion counts: moving towards 15° narrows the opposition
+        expect(western[0]!.applying).toBe(true);
+    });
+
+    it('should give graha drishti with special and partial aspects', () => {
+        const planets = planetsAt({ Mars: [5, 0.5], Sun: [95, 1], Moon: [215, 13], Venus: [125, 1] });
+        const { grahaDrishti } = calculateAspects(planets);
+
+        const fromMars = grahaDrishti.filter(d => d.from === 'Mars');
+        expect(fromMars).toContainEqual({ from: 'Mars', to: 'Sun', house: 4, strength: 1, special: true });
+        expect(fromMars).toContainEqual({ from: 'Mars', to: 'Moon', house: 8, strength: 1, special: true });
+        expect(fromMars).toContainEqual({ from: 'Mars', to: 'Venus', house: 5, strength: 0.5, special: false });
+        expect(grahaDrishti).toContainEqual({ from: 'Sun', to: 'Moon', house: 5, strength: 0.5, special: false });
+
+        const full = calculateAspects(planets, { partialDrishti: false }).grahaDrishti;
+        expect(full.every(d => d.strength === 1)).toBe(true);
+        expect(full).not.toContainEqual(expect.objectContaining({ from: 'Mars', to: 'Venus' }));
+    });
+
+    it('should give rashi drishti between signs', () => {
+        const planets = planetsAt({ Sun: [5, 1], Moon: [125, 13], Mars: [35, 0.5], Rahu: [0, -0.05], Ketu: [180, -0.05] });
+        const { rashiDrishti } = calculateAspects(planets);
+
+        // Aries aspects Leo, not the adjacent Taurus
+        expect(rashiDrishti).toContainEqual({ from: 'Sun', to: 'Moon', fromSign: 1, toSign: 5 });
+        expect(rashiDrishti.find(d => d.from === 'Sun' && d.to === 'Mars')).toBeUndefined();
+        // Taurus aspects Libra
+        expect(rashiDrishti).toContainEqual({ from: 'Mars', to: 'Ketu', fromSign: 2, toSign: 7 });
+    });
+});
@@ -0,0 +1,205 @@
+/**
+ * @af/sweph-core - Aspects
+ *
+ * Western aspects with orbs, Vedic graha drishti and Jaimini rashi drishti.
+ */
+
+import { WESTERN_ASPECTS } from './constants';
+import type {
+    Planet,
+    AspectName,
+    AspectOptions,
+    AspectResult,
+    WesternAspect,
+    GrahaDrishti,
+    RashiDrishti,
+} from './types';
+import { normalizeLongitude, getRashi } from './utils';
+
+/**
+ * A point taking part in aspects; points without speed are treated as fixed
+ */
+interface AspectPoint {
+    name: string;
+    longitude: number;
+    speed: number;
+}
+
+const MAJOR_ASPECTS: AspectName[] = WESTERN_ASPECTS.filter(a => a.major).map(a => a.name);
+
+/**
+ * Strength of the graha drishti every planet casts on the signs counted from it (BPHS)
+ */
+const DRISHTI_STRENGTH: Record<number, number> = {
+    3: 0.25,
+    4: 0.75,
+    5: 0.5,
+    7: 1,
+    8: 0.75,
+    9: 0.5,
+    10: 0.25,
+};
+
+/**
+ * Signs counted from Mars, Jupiter and Saturn that receive their special full aspect
+ */
+const SPECIAL_DRISHTI: Record<string, number[]> = {
+    Mars: [4, 8],
+    Jupiter: [5, 9],
+    Saturn: [3, 10],
+};
+
+/**
+ * Planets that cast graha drishti; the nodes and outer planets do not
+ */
+const DRISHTI_PLANETS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+/**
+ * Signed angle from one longitude to another in (-180, 180]
+ * @internal
+ */
+function signedSeparation(from: number, to: number): number {
+    const d = normalizeLongitude(to - from);
+    return d > 180 ? d - 360 : d;
+}
+
+/**
+ * Signs (1-12) aspected by a sign under Jaimini rashi drishti: movable signs
+ * aspect the fixed signs except the one next to them, fixed signs aspect the
+ * movable signs except the one before them, and dual signs aspect each other
+ * @param rasi - Rasi number (1-12)
+ * @returns The three aspected rasi numbers, in zodiac order
+ * @example
+ * ```typescript
+ * getRashiDrishti(1); // Aries aspects [5, 8, 11]: Leo, Scorpio, Aquarius
+ * ```
+ */
+export function getRashiDrishti(rasi: number): number[] {
+    const modality = (rasi - 1) % 3; // 0 movable, 1 fixed, 2 dual
+    const signs: number[] = [];
+
+    for (let sign = 1; sign <= 12; sign++) {
+        if (sign === rasi) continue;
+        const other = (sign - 1) % 3;
+        if (modality === 0 && other === 1 && sign !== (rasi % 12) + 1) signs.push(sign);
+        if (modality === 1 && other === 0 && sign !== ((rasi + 10) % 12) + 1) signs.push(sign);
+        if (modality === 2 && other === 2) signs.push(sign);
+    }
+
+    return signs;
+}
+
+/**
+ * Find the Western aspect, if any, between two points
+ * @internal
+ */
+function findWesternAspect(
+    a: AspectPoint,
+    b: AspectPoint,
+    aspects: ReadonlyArray<{ name: AspectName; angle: number; orb: number; major: boolean }>
+): WesternAspect | null {
+    const d = signedSeparation(a.longitude, b.longitude);
+    const separation = Math.abs(d);
+
+    let best: WesternAspect | null = null;
+    for (const { name, angle, orb: maxOrb, major } of aspects) {
+        const deviation = separation - angle;
+        const orb = Math.abs(deviation);
+        if (orb > maxOrb || (best && orb >= best.orb)) continue;
+
+        // Rate of change of the orb: separation changes at the relative speed
+        // (sign of d), and the orb follows it above the exact angle
+        const orbRate = Math.sign(deviation) * Math.sign(d) * (b.speed - a.speed);
+
+        best = {
+            from: a.name,
+            to: b.name,
+            aspect: name,
+            angle,
+            separation,
+            orb,
+            exactness: maxOrb > 0 ? 1 - orb / maxOrb : 1,
+            applying: orbRate < 0,
+            major,
+        };
+    }
+
+    return best;
+}
+
+/**
+ * Calculate Western aspects, graha drishti and rashi drishti between planets
+ * @param planets - Planet positions from calculatePlanets()
+ * @param options - Angles to include, aspects and orbs to use, partial drishti
+ * @returns Western aspects within orb, graha drishti of the seven planets on every
+ *   other point, and rashi drishti between points in mutually aspecting signs
+ * @remarks Graha drishti and rashi drishti count signs, so they depend on the zodiac
+ *   of the positions (normally sidereal). Every planet fully aspects the 7th sign and
+ *   partially the 3rd/10th (1/4), 5th/9th (1/2) and 4th/8th (3/4); Mars fully aspects
+ *   the 4th and 8th, Jupiter the 5th and 9th, and Saturn the 3rd and 10th.
+ * @throws Error if an unknown aspect name is requested
+ * @example
+ * ```typescript
+ * const { western, grahaDrishti } = calculateAspects(planets, {
+ *   ascendant: lagna.longitude,
+ *   aspects: ['conjunction', 'opposition', 'trine', 'square', 'sextile', 'quincunx'],
+ *   orbs: { conjunction: 10 }
+ * });
+ * const applying = western.filter(a => a.applying);
+ * ```
+ */
+export function calculateAspects(planets: Planet[], options: AspectOptions = {}): AspectResult {
+    const { ascendant, mc, aspects = MAJOR_ASPECTS, orbs = {}, partialDrishti = true } = options;
+
+    const definitions = aspects.map(name => {
+        const definition = WESTERN_ASPECTS.find(a => a.name === name);
+        if (!definition) {
+            throw new Error(`Unknown aspect: ${name}`);
+        }
+        return { ...definition, orb: orbs[name] ?? definition.orb };
+    });
+
+    const points: AspectPoint[] = planets.map(p => ({ name: p.name, longitude: p.longitude, speed: p.speed ?? 0 }));
+    if (ascendant !== undefined) points.push({ name: 'Ascendant', longitude: ascendant, speed: 0 });
+    if (mc !== undefined) points.push({ name: 'MC', longitude: mc, speed: 0 });
+
+    const western: WesternAspect[] = [];
+    const rashiDrishti: RashiDrishti[] = [];
+
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            const a = points[i]!;
+            const b = points[j]!;
+
+            // The nodes are always in opposition
+            if (a.name === 'Rahu' && b.name === 'Ketu') continue;
+
+            const aspect = findWesternAspect(a, b, definitions);
+            if (aspect) western.push(aspect);
+
+            const fromSign = getRashi(a.longitude);
+            const toSign = getRashi(b.longitude);
+            if (getRashiDrishti(fromSign).includes(toSign)) {
+                rashiDrishti.push({ from: a.name, to: b.name, fromSign, toSign });
+            }
+        }
+    }
+
+    const grahaDrishti: GrahaDrishti[] = [];
+    for (const from of points.filter(p => DRISHTI_PLANETS.includes(p.name))) {
+        const fromSign = getRashi(from.longitude);
+
+        for (const to of points) {
+            if (to === from) continue;
+
+            const house = ((getRashi(to.longitude) - fromSign + 12) % 12) + 1;
+            const special = (SPECIAL_DRISHTI[from.name] ?? []).includes(house);
+            const strength = special ? 1 : DRISHTI_STRENGTH[house] ?? 0;
+
+            if (strength === 0 || (strength < 1 && !partialDrishti)) continue;
+            grahaDrishti.push({ from: from.name, to: to.name, house, strength, special });
+        }
+    }
+
+    return { western, grahaDrishti, rashiDrishti };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCompatibility } from './compatibility';
+import type { Planet } from './types';
+import { planetAt } from './__fixtures__/chart';
+
+const moonAt = (longitude: number): Planet[] => [planetAt('Moon', longitude)];
+
+describe('calculateCompatibility', () => {
+    // Bride's Moon in Ashwini (Aries), groom's in Rohini (Taurus)
+    const match = calculateCompatibility(moonAt(5), moonAt(45), { porutham: true });
+
+    it('should score the eight kootas', () => {
+        expect(match.bride).toMatchObject({ rasi: 1, nakshatra: 1, pada: 2 });
+        expect(match.groom).toMatchObject({ rasi: 2, nakshatra: 4, pada: 2 });
+
+        const scores = Object.fromEntries(match.kootas.map(k => [k.name, k.score]));
+        expect(scores).toEqual({
+            varna: 0,
+            vashya: 2,
+            tara: 1.5,
+            yoni: 3,
+            'graha-maitri': 3,
+            gana: 5,
+            bhakoot: 0,
+            nadi: 8,
+        });
+        expect(match.total).toBe(22.5);
+        expect(match.maximum).toBe(36);
+        expect(match.kootas.reduce((sum, k) => sum + k.maximum, 0)).toBe(36);
+
+        const yoni = match.kootas.find(k => k.name === 'yoni')!;
+        expect(yoni.bride).toBe('Horse (male)');
+        expect(yoni.groom).toBe('Serpent (male)');
+    });
+
+    it('should report an uncancelled Bhakoot dosha for 2/12 signs with neutral lords', () => {
+        expect(match.doshas).toEqual([{ name: 'bhakoot', cancelled: false, cancellations: [] }]);
+    });
+
+    it('should cancel Nadi dosha for the same nakshatra in different signs and padas', () => {
+        // Krittika pada 1 (Aries) and pada 2 (Taurus)
+        const result = calculateCompatibility(moonAt(28), moonAt(31));
+        const nadi = result.doshas.find(d => d.name === 'nadi')!;
+
+        expect(result.kootas.find(k => k.name === 'nadi')!.score).toBe(0);
+        expect(nadi.cancelled).toBe(true);
+        expect(nadi.cancellations).toHaveLength(2);
+        expect(result.porutham).toBeUndefined();
+    });
+
+    it('should cancel Bhakoot dosha for Moon signs with the same lord', () => {
+        // Aries and Scorpio (6/8), both ruled by Mars
+        const result = calculateCompatibility(moonAt(5), moonAt(215));
+        const bhakoot = result.doshas.find(d => d.name === 'bhakoot')!;
+
+        expect(bhakoot.cancelled).toBe(true);
+        expect(bhakoot.cancellations[0]).toContain('Mars');
+    });
+
+    it('should evaluate the ten poruthams', () => {
+        const matched = Object.fromEntries(match.porutham!.map(p => [p.name, p.matched]));
+        expect(matched).toEqual({
+            'Dina': true,
+            'Gana': true,
+            'Mahendra': true,
+            'Stree Deergha': false,
+            'Yoni': true,
+            'Rasi': false,
+            'Rasi Adhipati': true,
+            'Vashya': false,
+            'Rajju': true,
+            'Vedha': true,
+        });
+        expect(match.porutham!.filter(p => p.essential).map(p => p.name)).toEqual(['Rajju', 'Vedha']);
+    });
+
+    it('should throw when a chart lacks the Moon', () => {
+        expect(() => calculateCompatibility([], moonAt(45))).toThrow('Moon');
+    });
+});
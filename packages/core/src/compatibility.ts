@@ -0,0 +1,423 @@
+/**
+ * @af/sweph-core - Compatibility
+ *
+ * Ashtakoota (Guna Milan) matching from the Moon positions of two charts,
+ * with Nadi and Bhakoot doshas and the South Indian 10 porutham system.
+ */
+
+import { PLANET_DIGNITIES, RASHIS } from './constants';
+import type {
+    Planet,
+    MoonProfile,
+    KootaScore,
+    CompatibilityDosha,
+    CompatibilityOptions,
+    Compatibility,
+    Porutham,
+} from './types';
+import { getRashi, getRashiDegree, getNakshatra } from './utils';
+
+/**
+ * Varna rank of each rasi (index 0 = Aries): 4 Brahmin, 3 Kshatriya, 2 Vaishya, 1 Shudra
+ */
+const VARNA_RANKS = [3, 2, 1, 4, 3, 2, 1, 4, 3, 2, 1, 4];
+const VARNA_NAMES = ['', 'Shudra', 'Vaishya', 'Kshatriya', 'Brahmin'];
+
+const VASHYA_NAMES = ['Chatushpada', 'Manava', 'Jalachara', 'Vanachara', 'Keeta'] as const;
+
+type Vashya = typeof VASHYA_NAMES[number];
+
+/**
+ * Vashya koota points between Vashya groups, in VASHYA_NAMES order
+ */
+const VASHYA_SCORES = [
+    [2, 1, 1, 0.5, 1],
+    [1, 2, 0.5, 0, 1],
+    [1, 0.5, 2, 1, 1],
+    [0.5, 0, 1, 2, 0],
+    [1, 1, 1, 0, 2],
+];
+
+const TARA_NAMES = [
+    'Janma', 'Sampat', 'Vipat', 'Kshema', 'Pratyak', 'Sadhana', 'Naidhana', 'Mitra', 'Parama Mitra',
+];
+
+/**
+ * Taras (1-9) that are inauspicious: Vipat, Pratyak and Naidhana
+ */
+const BAD_TARAS = [3, 5, 7];
+
+const YONI_ANIMALS = [
+    'Horse', 'Elephant', 'Sheep', 'Serpent', 'Dog', 'Cat', 'Rat',
+    'Cow', 'Buffalo', 'Tiger', 'Deer', 'Monkey', 'Mongoose', 'Lion',
+];
+
+/**
+ * Yoni animal (index into YONI_ANIMALS) and gender of each nakshatra
+ */
+const NAKSHATRA_YONIS: ReadonlyArray<[number, 'male' | 'female']> = [
+    [0, 'male'], [1, 'male'], [2, 'female'], [3, 'male'], [3, 'female'], [4, 'female'],
+    [5, 'female'], [2, 'male'], [5, 'male'], [6, 'male'], [6, 'female'], [7, 'male'],
+    [8, 'female'], [9, 'female'], [8, 'male'], [9, 'male'], [10, 'female'], [10, 'male'],
+    [4, 'male'], [11, 'male'], [12, 'male'], [11, 'female'], [13, 'female'], [0, 'female'],
+    [13, 'male'], [7, 'female'], [1, 'female'],
+];
+
+/**
+ * Yoni koota points between animals, in YONI_ANIMALS order; 0 marks sworn enemies
+ */
+const YONI_SCORES = [
+    [4, 2, 2, 3, 2, 2, 2, 1, 0, 1, 3, 3, 2, 1],
+    [2, 4, 3, 3, 2, 2, 2, 2, 3, 1, 2, 3, 2, 0],
+    [2, 3, 4, 2, 1, 2, 1, 3, 3, 1, 2, 0, 3, 1],
+    [3, 3, 2, 4, 2, 1, 1, 1, 1, 2, 2, 2, 0, 2],
+    [2, 2, 1, 2, 4, 2, 1, 2, 2, 1, 0, 2, 1, 1],
+    [2, 2, 2, 1, 2, 4, 0, 2, 2, 1, 3, 3, 2, 1],
+    [2, 2, 1, 1, 1, 0, 4, 2, 2, 2, 2, 2, 1, 2],
+    [1, 2, 3, 1, 2, 2, 2, 4, 3, 0, 3, 2, 2, 1],
+    [0, 3, 3, 1, 2, 2, 2, 3, 4, 1, 2, 2, 2, 1],
+    [1, 1, 1, 2, 1, 1, 2, 0, 1, 4, 1, 1, 2, 1],
+    [3, 2, 2, 2, 0, 3, 2, 3, 2, 1, 4, 2, 2, 1],
+    [3, 3, 0, 2, 2, 3, 2, 2, 2, 1, 2, 4, 3, 2],
+    [2, 2, 3, 0, 1, 2, 1, 2, 2, 2, 2, 3, 4, 2],
+    [1, 0, 1, 2, 1, 1, 2, 1, 1, 1, 1, 2, 2, 4],
+];
+
+/**
+ * Graha Maitri points by the relationship of each Moon sign lord to the other
+ */
+const MAITRI_SCORES: Record<string, number> = {
+    'friend-friend': 5,
+    'friend-neutral': 4,
+    'neutral-neutral': 3,
+    'enemy-friend': 1,
+    'enemy-neutral': 0.5,
+    'enemy-enemy': 0,
+};
+
+const GANA_NAMES = ['Deva', 'Manushya', 'Rakshasa'];
+
+/**
+ * Gana of each nakshatra (index into GANA_NAMES)
+ */
+const NAKSHATRA_GANAS = [
+    0, 1, 2, 1, 0, 1, 0, 0, 2, 2, 1, 1, 0, 2, 0, 2, 0, 2, 2, 1, 1, 0, 2, 2, 1, 1, 0,
+];
+
+/**
+ * Gana koota points: rows are the groom's gana, columns the bride's
+ */
+const GANA_SCORES = [
+    [6, 6, 0],
+    [5, 6, 0],
+    [1, 0, 6],
+];
+
+/**
+ * Signs counted from one Moon sign to the other that form Bhakoot dosha (2/12, 5/9, 6/8)
+ */
+const BHAKOOT_DOSHA_COUNTS = [2, 12, 5, 9, 6, 8];
+
+const NADI_NAMES = ['Adi', 'Madhya', 'Antya'];
+
+/**
+ * Nadi of each nakshatra (index into NADI_NAMES)
+ */
+const NAKSHATRA_NADIS = [
+    0, 1, 2, 2, 1, 0, 0, 1, 2, 2, 1, 0, 0, 1, 2, 2, 1, 0, 0, 1, 2, 2, 1, 0, 0, 1, 2,
+];
+
+/**
+ * Signs (1-12) under the control (vashya) of each rasi, for Vashya porutham
+ */
+const VASHYA_SIGNS = [
+    [5, 8], [4, 7], [6], [8, 9], [7], [12, 3], [6, 10], [4], [12], [1, 11], [1], [10],
+];
+
+/**
+ * Rajju of each position within a group of nine nakshatras
+ */
+const RAJJUS = ['Pada', 'Kati', 'Nabhi', 'Kanta', 'Siro', 'Kanta', 'Nabhi', 'Kati', 'Pada'];
+
+/**
+ * Groups of nakshatras that obstruct (vedha) each other
+ */
+const VEDHA_GROUPS = [
+    [1, 18], [2, 17], [3, 16], [4, 15], [6, 22], [7, 21], [8, 20], [9, 19],
+    [10, 27], [11, 26], [12, 25], [13, 24], [5, 14, 23],
+];
+
+/**
+ * Moon position of a chart
+ * @internal
+ */
+function getMoonProfile(planets: Planet[]): MoonProfile {
+    const moon = planets.find(p => p.name === 'Moon');
+    if (!moon) {
+        throw new Error('Compatibility matching requires the position of the Moon');
+    }
+    const { number: nakshatra, pada } = getNakshatra(moon.longitude);
+    return { longitude: moon.longitude, rasi: getRashi(moon.longitude), nakshatra, pada };
+}
+
+/**
+ * Vashya group of a Moon position; Sagittarius and Capricorn change group at 15°
+ * @internal
+ */
+function getVashya(moon: MoonProfile): Vashya {
+    const secondHalf = getRashiDegree(moon.longitude) >= 15;
+    switch (moon.rasi) {
+        case 1: case 2: return 'Chatushpada';
+        case 4: case 12: return 'Jalachara';
+        case 5: return 'Vanachara';
+        case 8: return 'Keeta';
+        case 9: return secondHalf ? 'Chatushpada' : 'Manava';
+        case 10: return secondHalf ? 'Jalachara' : 'Chatushpada';
+        default: return 'Manava';
+    }
+}
+
+/**
+ * Natural relationship of one planet towards another
+ * @internal
+ */
+function getRelationship(planet: string, other: string): 'friend' | 'neutral' | 'enemy' {
+    if (planet === other) return 'friend';
+    const dignity = PLANET_DIGNITIES.find(d => d.planet.name === planet)!;
+    if ((dignity.friends as readonly string[]).includes(other)) return 'friend';
+    if ((dignity.enemies as readonly string[]).includes(other)) return 'enemy';
+    return 'neutral';
+}
+
+/**
+ * Count of nakshatras or signs from one to another (1 = same)
+ * @internal
+ */
+function countFrom(from: number, to: number, total: number): number {
+    return ((to - from + total) % total) + 1;
+}
+
+/**
+ * Tara (1-9) of one nakshatra counted from another
+ * @internal
+ */
+function getTara(from: number, to: number): number {
+    return ((countFrom(from, to, 27) - 1) % 9) + 1;
+}
+
+/**
+ * Score the eight kootas
+ * @internal
+ */
+function scoreKootas(bride: MoonProfile, groom: MoonProfile): KootaScore[] {
+    const brideVarna = VARNA_RANKS[bride.rasi - 1]!;
+    const groomVarna = VARNA_RANKS[groom.rasi - 1]!;
+
+    const brideVashya = getVashya(bride);
+    const groomVashya = getVashya(groom);
+
+    const brideTara = getTara(bride.nakshatra, groom.nakshatra);
+    const groomTara = getTara(groom.nakshatra, bride.nakshatra);
+    const taraScore = [brideTara, groomTara].filter(t => !BAD_TARAS.includes(t)).length * 1.5;
+
+    const [brideYoni, brideGender] = NAKSHATRA_YONIS[bride.nakshatra - 1]!;
+    const [groomYoni, groomGender] = NAKSHATRA_YONIS[groom.nakshatra - 1]!;
+
+    const brideLord = RASHIS[bride.rasi - 1]!.lord.name;
+    const groomLord = RASHIS[groom.rasi - 1]!.lord.name;
+    const relationships = [getRelationship(brideLord, groomLord), getRelationship(groomLord, brideLord)].sort();
+
+    const brideGana = NAKSHATRA_GANAS[bride.nakshatra - 1]!;
+    const groomGana = NAKSHATRA_GANAS[groom.nakshatra - 1]!;
+
+    const bhakootCount = countFrom(bride.rasi, groom.rasi, 12);
+
+    const brideNadi = NAKSHATRA_NADIS[bride.nakshatra - 1]!;
+    const groomNadi = NAKSHATRA_NADIS[groom.nakshatra - 1]!;
+
+    return [
+        {
+            name: 'varna',
+            score: groomVarna >= brideVarna ? 1 : 0,
+            maximum: 1,
+            bride: VARNA_NAMES[brideVarna]!,
+            groom: VARNA_NAMES[groomVarna]!,
+        },
+        {
+            name: 'vashya',
+            score: VASHYA_SCORES[VASHYA_NAMES.indexOf(groomVashya)]![VASHYA_NAMES.indexOf(brideVashya)]!,
+            maximum: 2,
+            bride: brideVashya,
+            groom: groomVashya,
+        },
+        {
+            name: 'tara',
+            score: taraScore,
+            maximum: 3,
+            bride: TARA_NAMES[brideTara - 1]!,
+            groom: TARA_NAMES[groomTara - 1]!,
+        },
+        {
+            name: 'yoni',
+            score: YONI_SCORES[groomYoni]![brideYoni]!,
+            maximum: 4,
+            bride: `${YONI_ANIMALS[brideYoni]} (${brideGender})`,
+            groom: `${YONI_ANIMALS[groomYoni]} (${groomGender})`,
+        },
+        {
+            name: 'graha-maitri',
+            score: MAITRI_SCORES[relationships.join('-')]!,
+            maximum: 5,
+            bride: brideLord,
+            groom: groomLord,
+        },
+        {
+            name: 'gana',
+            score: GANA_SCORES[groomGana]![brideGana]!,
+            maximum: 6,
+            bride: GANA_NAMES[brideGana]!,
+            groom: GANA_NAMES[groomGana]!,
+        },
+        {
+            name: 'bhakoot',
+            score: BHAKOOT_DOSHA_COUNTS.includes(bhakootCount) ? 0 : 7,
+            maximum: 7,
+            bride: RASHIS[bride.rasi - 1]!.name,
+            groom: RASHIS[groom.rasi - 1]!.name,
+        },
+        {
+            name: 'nadi',
+            score: brideNadi === groomNadi ? 0 : 8,
+            maximum: 8,
+            bride: NADI_NAMES[brideNadi]!,
+            groom: NADI_NAMES[groomNadi]!,
+        },
+    ];
+}
+
+/**
+ * Nadi and Bhakoot doshas with their standard cancellations
+ * @internal
+ */
+function findDoshas(bride: MoonProfile, groom: MoonProfile, kootas: KootaScore[]): CompatibilityDosha[] {
+    const doshas: CompatibilityDosha[] = [];
+    const brideLord = RASHIS[bride.rasi - 1]!.lord.name;
+    const groomLord = RASHIS[groom.rasi - 1]!.lord.name;
+    const mutualFriends = getRelationship(brideLord, groomLord) === 'friend'
+        && getRelationship(groomLord, brideLord) === 'friend';
+
+    if (kootas.find(k => k.name === 'nadi')!.score === 0) {
+        const cancellations: string[] = [];
+        if (bride.rasi === groom.rasi && bride.nakshatra !== groom.nakshatra) {
+            cancellations.push('Same Moon sign, different nakshatras');
+        }
+        if (bride.nakshatra === groom.nakshatra && bride.rasi !== groom.rasi) {
+            cancellations.push('Same nakshatra, different Moon signs');
+        }
+        if (bride.nakshatra === groom.nakshatra && bride.pada !== groom.pada) {
+            cancellations.push('Same nakshatra, different padas');
+        }
+        doshas.push({ name: 'nadi', cancelled: cancellations.length > 0, cancellations });
+    }
+
+    if (kootas.find(k => k.name === 'bhakoot')!.score === 0) {
+        const cancellations: string[] = [];
+        if (brideLord === groomLord) {
+            cancellations.push(`Both Moon signs ruled by ${brideLord}`);
+        } else if (mutualFriends) {
+            cancellations.push(`Moon sign lords ${brideLord} and ${groomLord} are friends`);
+        }
+        doshas.push({ name: 'bhakoot', cancelled: cancellations.length > 0, cancellations });
+    }
+
+    return doshas;
+}
+
+/**
+ * Evaluate the ten South Indian poruthams
+ * @internal
+ */
+function matchPorutham(bride: MoonProfile, groom: MoonProfile): Porutham[] {
+    const count = countFrom(bride.nakshatra, groom.nakshatra, 27);
+    const rasiCount = countFrom(bride.rasi, groom.rasi, 12);
+
+    const brideGana = NAKSHATRA_GANAS[bride.nakshatra - 1]!;
+    const groomGana = NAKSHATRA_GANAS[groom.nakshatra - 1]!;
+    const rakshasa = GANA_NAMES.indexOf('Rakshasa');
+
+    const brideYoni = NAKSHATRA_YONIS[bride.nakshatra - 1]![0];
+    const groomYoni = NAKSHATRA_YONIS[groom.nakshatra - 1]![0];
+
+    const brideLord = RASHIS[bride.rasi - 1]!.lord.name;
+    const groomLord = RASHIS[groom.rasi - 1]!.lord.name;
+
+    const rajju = (nakshatra: number) => RAJJUS[(nakshatra - 1) % 9];
+    const vedha = VEDHA_GROUPS.some(group =>
+        bride.nakshatra !== groom.nakshatra && group.includes(bride.nakshatra) && group.includes(groom.nakshatra)
+    );
+
+    const porutham = (name: string, matched: boolean, essential = false): Porutham => ({ name, matched, essential });
+
+    return [
+        porutham('Dina', [0, 2, 4, 6, 8].includes(count % 9)),
+        porutham('Gana', brideGana === groomGana || (brideGana !== rakshasa && groomGana !== rakshasa)),
+        porutham('Mahendra', count % 3 === 1 && count >= 4),
+        porutham('Stree Deergha', count > 13),
+        porutham('Yoni', YONI_SCORES[groomYoni]![brideYoni]! >= 2),
+        porutham('Rasi', ![2, 6, 8, 12].includes(rasiCount)),
+        porutham('Rasi Adhipati', getRelationship(brideLord, groomLord) !== 'enemy'
+            && getRelationship(groomLord, brideLord) !== 'enemy'),
+        porutham('Vashya', VASHYA_SIGNS[bride.rasi - 1]!.includes(groom.rasi)
+            || VASHYA_SIGNS[groom.rasi - 1]!.includes(bride.rasi)),
+        porutham('Rajju', rajju(bride.nakshatra) !== rajju(groom.nakshatra), true),
+        porutham('Vedha', !vedha, true),
+    ];
+}
+
+/**
+ * Match two charts with Ashtakoota (Guna Milan) from their Moon positions
+ * @param chartA - Planet positions of the bride, from calculatePlanets()
+ * @param chartB - Planet positions of the groom, from calculatePlanets()
+ * @param options - Whether to add the South Indian 10 porutham system
+ * @returns Varna, Vashya, Tara, Yoni, Graha Maitri, Gana, Bhakoot and Nadi scores
+ *   (36 points in all), the Nadi and Bhakoot doshas with their cancellations, and
+ *   optionally the ten poruthams
+ * @remarks Matching is directional: Varna, Tara and Gana are read from the bride to
+ *   the groom. Cancelled doshas keep their koota score of 0; Nadi dosha is cancelled by
+ *   a shared Moon sign or nakshatra in different signs or padas, Bhakoot dosha by Moon
+ *   signs with the same lord or with mutually friendly lords. A total of 18 or more is
+ *   traditionally acceptable.
+ * @throws Error if either chart lacks the Moon
+ * @example
+ * ```typescript
+ * const match = calculateCompatibility(bridePlanets, groomPlanets, { porutham: true });
+ * console.log(`${match.total}/36`);
+ * for (const dosha of match.doshas) {
+ *   console.log(dosha.name, dosha.cancelled ? dosha.cancellations.join('; ') : 'not cancelled');
+ * }
+ * ```
+ */
+export function calculateCompatibility(
+    chartA: Planet[],
+    chartB: Planet[],
+    options: CompatibilityOptions = {}
+): Compatibility {
+    const bride = getMoonProfile(chartA);
+    const groom = getMoonProfile(chartB);
+
+    const kootas = scoreKootas(bride, groom);
+    const result: Compatibility = {
+        bride,
+        groom,
+        kootas,
+        total: kootas.reduce((sum, k) => sum + k.score, 0),
+        maximum: 36,
+        doshas: findDoshas(bride, groom, kootas),
+    };
+
+    if (options.porutham) {
+        result.porutham = matchPorutham(bride, groom);
+    }
+
+    return result;
+}
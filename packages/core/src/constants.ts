@@ -46,21 +46,51 @@ export const OUTER_PLANETS = [
 ] as const;
 
 /**
- * Rashi (zodiac sign) names
+ * Offset added to a minor planet catalog number to get its body id (SE_AST_OFFSET)
+ */
+export const AST_OFFSET = 10000;
+
+/**
+ * Named asteroids, centaurs and dwarf planets with their body ids and catalog numbers.
+ * Chiron to Vesta are in seas_18.se1; the others need their own se#####.se1 file.
+ */
+export const MINOR_PLANETS = [
+    { id: PlanetId.CERES, name: 'Ceres', number: 1 },
+    { id: PlanetId.PALLAS, name: 'Pallas', number: 2 },
+    { id: PlanetId.JUNO, name: 'Juno', number: 3 },
+    { id: PlanetId.VESTA, name: 'Vesta', number: 4 },
+    { id: AST_OFFSET + 10, name: 'Hygiea', number: 10 },
+    { id: AST_OFFSET + 433, name: 'Eros', number: 433 },
+    { id: PlanetId.CHIRON, name: 'Chiron', number: 2060 },
+    { id: PlanetId.PHOLUS, name: 'Pholus', number: 5145 },
+    { id: AST_OFFSET + 7066, name: 'Nessus', number: 7066 },
+    { id: AST_OFFSET + 10199, name: 'Chariklo', number: 10199 },
+    { id: AST_OFFSET + 20000, name: 'Varuna', number: 20000 },
+    { id: AST_OFFSET + 28978, name: 'Ixion', number: 28978 },
+    { id: AST_OFFSET + 50000, name: 'Quaoar', number: 50000 },
+    { id: AST_OFFSET + 90377, name: 'Sedna', number: 90377 },
+    { id: AST_OFFSET + 90482, name: 'Orcus', number: 90482 },
+    { id: AST_OFFSET + 136108, name: 'Haumea', number: 136108 },
+    { id: AST_OFFSET + 136199, name: 'Eris', number: 136199 },
+    { id: AST_OFFSET + 136472, name: 'Makemake', number: 136472 },
+] as const;
+
+/**
+ * Rashi (zodiac sign) names and lords
  */
 export const RASHIS = [
-    { number: 1, name: 'Aries', sanskrit: 'Mesha' },
-    { number: 2, name: 'Taurus', sanskrit: 'Vrishabha' },
-    { number: 3, name: 'Gemini', sanskrit: 'Mithuna' },
-    { number: 4, name: 'Cancer', sanskrit: 'Karka' },
-    { number: 5, name: 'Leo', sanskrit: 'Simha' },
-    { number: 6, name: 'Virgo', sanskrit: 'Kanya' },
-    { number: 7, name: 'Libra', sanskrit: 'Tula' },
-    { number: 8, name: 'Scorpio', sanskrit: 'Vrishchika' },
-    { number: 9, name: 'Sagittarius', sanskrit: 'Dhanu' },
-    { number: 10, name: 'Capricorn', sanskrit: 'Makara' },
-    { number: 11, name: 'Aquarius', sanskrit: 'Kumbha' },
-    { number: 12, name: 'Pisces', sanskrit: 'Meena' },
+    { number: 1, name: 'Aries', sanskrit: 'Mesha', lord: PLANETS.MARS },
+    { number: 2, name: 'Taurus', sanskrit: 'Vrishabha', lord: PLANETS.VENUS },
+    { number: 3, name: 'Gemini', sanskrit: 'Mithuna', lord: PLANETS.MERCURY },
+    { number: 4, name: 'Cancer', sanskrit: 'Karka', lord: PLANETS.MOON },
+    { number: 5, name: 'Leo', sanskrit: 'Simha', lord: PLANETS.SUN },
+    { number: 6, name: 'Virgo', sanskrit: 'Kanya', lord: PLANETS.MERCURY },
+    { number: 7, name: 'Libra', sanskrit: 'Tula', lord: PLANETS.VENUS },
+    { number: 8, name: 'Scorpio', sanskrit: 'Vrishchika', lord: PLANETS.MARS },
+    { number: 9, name: 'Sagittarius', sanskrit: 'Dhanu', lord: PLANETS.JUPITER },
+    { number: 10, name: 'Capricorn', sanskrit: 'Makara', lord: PLANETS.SATURN },
+    { number: 11, name: 'Aquarius', sanskrit: 'Kumbha', lord: PLANETS.SATURN },
+    { number: 12, name: 'Pisces', sanskrit: 'Meena', lord: PLANETS.JUPITER },
 ] as const;
 
 /**
@@ -68,6 +98,60 @@ export const RASHIS = [
  */
 export const AYANAMSA = AyanamsaType;
 
+/**
+ * Names (as given by Swiss Ephemeris) and short descriptions of the ayanamsa systems
+ */
+export const AYANAMSA_INFO = [
+    { id: AyanamsaType.FAGAN_BRADLEY, name: 'Fagan/Bradley', description: 'Western sidereal standard of Cyril Fagan and Donald Bradley' },
+    { id: AyanamsaType.LAHIRI, name: 'Lahiri', description: 'Chitrapaksha ayanamsa of the Indian Calendar Reform Committee (1955), Spica near 0° Libra' },
+    { id: AyanamsaType.DELUCE, name: 'De Luce', description: 'Ayanamsa of Robert DeLuce' },
+    { id: AyanamsaType.RAMAN, name: 'Raman', description: 'Ayanamsa of B. V. Raman' },
+    { id: AyanamsaType.USHASHASHI, name: 'Usha/Shashi', description: 'Ayanamsa of Usha and Shashi, based on Revati' },
+    { id: AyanamsaType.KRISHNAMURTI, name: 'Krishnamurti', description: 'Ayanamsa of K. S. Krishnamurti, used in KP astrology' },
+    { id: AyanamsaType.DJWHAL_KHUL, name: 'Djwhal Khul', description: 'Esoteric ayanamsa after Alice Bailey' },
+    { id: AyanamsaType.YUKTESHWAR, name: 'Yukteshwar', description: 'Ayanamsa of Sri Yukteshwar, from The Holy Science' },
+    { id: AyanamsaType.JN_BHASIN, name: 'J.N. Bhasin', description: 'Ayanamsa of J. N. Bhasin' },
+    { id: AyanamsaType.BABYL_KUGLER1, name: 'Babylonian/Kugler 1', description: 'Babylonian zodiac, first reconstruction of F. X. Kugler' },
+    { id: AyanamsaType.BABYL_KUGLER2, name: 'Babylonian/Kugler 2', description: 'Babylonian zodiac, second reconstruction of F. X. Kugler' },
+    { id: AyanamsaType.BABYL_KUGLER3, name: 'Babylonian/Kugler 3', description: 'Babylonian zodiac, third reconstruction of F. X. Kugler' },
+    { id: AyanamsaType.BABYL_HUBER, name: 'Babylonian/Huber', description: 'Babylonian zodiac after Peter Huber' },
+    { id: AyanamsaType.BABYL_ETPSC, name: 'Babylonian/Eta Piscium', description: 'Babylonian zodiac with Eta Piscium as reference star' },
+    { id: AyanamsaType.ALDEBARAN_15TAU, name: 'Babylonian/Aldebaran = 15 Tau', description: 'Babylonian zodiac with Aldebaran at 15° Taurus' },
+    { id: AyanamsaType.HIPPARCHOS, name: 'Hipparchos', description: 'Zodiac of Hipparchos' },
+    { id: AyanamsaType.SASSANIAN, name: 'Sassanian', description: 'Zodiac of Sassanian Persia' },
+    { id: AyanamsaType.GALCENT_0SAG, name: 'Galact. Center = 0 Sag', description: 'Galactic Center at 0° Sagittarius' },
+    { id: AyanamsaType.J2000, name: 'J2000', description: 'Equinox of J2000; precession since 2000' },
+    { id: AyanamsaType.J1900, name: 'J1900', description: 'Equinox of J1900; precession since 1900' },
+    { id: AyanamsaType.B1950, name: 'B1950', description: 'Equinox of B1950; precession since 1950' },
+    { id: AyanamsaType.SURYASIDDHANTA, name: 'Suryasiddhanta', description: 'Surya Siddhanta, equinox of 499 CE' },
+    { id: AyanamsaType.SURYASIDDHANTA_MSUN, name: 'Suryasiddhanta, mean Sun', description: 'Surya Siddhanta, equinox of 499 CE from the mean Sun' },
+    { id: AyanamsaType.ARYABHATA, name: 'Aryabhata', description: 'Aryabhata, equinox of 499 CE' },
+    { id: AyanamsaType.ARYABHATA_MSUN, name: 'Aryabhata, mean Sun', description: 'Aryabhata, equinox of 499 CE from the mean Sun' },
+    { id: AyanamsaType.SS_REVATI, name: 'SS Revati', description: 'Surya Siddhanta, with Revati (Zeta Piscium) at 359°50\'' },
+    { id: AyanamsaType.SS_CITRA, name: 'SS Citra', description: 'Surya Siddhanta, with Chitra (Spica) at 180°' },
+    { id: AyanamsaType.TRUE_CITRA, name: 'True Citra', description: 'True Chitrapaksha: Spica always at exactly 0° Libra' },
+    { id: AyanamsaType.TRUE_REVATI, name: 'True Revati', description: 'Revati (Zeta Piscium) always at 29°50\' Pisces' },
+    { id: AyanamsaType.TRUE_PUSHYA, name: 'True Pushya (PVRN Rao)', description: 'Pushya (Delta Cancri) always at 16° Cancer, after P. V. R. Narasimha Rao' },
+    { id: AyanamsaType.GALCENT_RGILBRAND, name: 'Galactic Center (Gil Brand)', description: 'Galactic Center after Rafael Gil Brand' },
+    { id: AyanamsaType.GALEQU_IAU1958, name: 'Galactic Equator (IAU1958)', description: 'Node of the galactic equator (IAU 1958) at 0° Sagittarius' },
+    { id: AyanamsaType.GALEQU_TRUE, name: 'Galactic Equator', description: 'True node of the galactic equator at 0° Sagittarius' },
+    { id: AyanamsaType.GALEQU_MULA, name: 'Galactic Equator mid-Mula', description: 'Node of the galactic equator in the middle of Mula' },
+    { id: AyanamsaType.GALALIGN_MARDYKS, name: 'Skydram (Mardyks)', description: 'Galactic alignment after Raymond Mardyks' },
+    { id: AyanamsaType.TRUE_MULA, name: 'True Mula (Chandra Hari)', description: 'Mula (Lambda Scorpii) always at 0° Sagittarius, after Chandra Hari' },
+    { id: AyanamsaType.GALCENT_MULA_WILHELM, name: 'Dhruva/Gal.Center/Mula (Wilhelm)', description: 'Galactic Center in the middle of Mula, after Ernst Wilhelm' },
+    { id: AyanamsaType.ARYABHATA_522, name: 'Aryabhata 522', description: 'Aryabhata, equinox of 522 CE' },
+    { id: AyanamsaType.BABYL_BRITTON, name: 'Babylonian/Britton', description: 'Babylonian zodiac after John P. Britton' },
+    { id: AyanamsaType.TRUE_SHEORAN, name: '"Vedic"/Sheoran', description: '"Vedic" ayanamsa of Sunil Sheoran' },
+    { id: AyanamsaType.GALCENT_COCHRANE, name: 'Cochrane (Gal.Center = 0 Cap)', description: 'Galactic Center at 0° Capricorn, after David Cochrane' },
+    { id: AyanamsaType.GALEQU_FIORENZA, name: 'Galactic Equator (Fiorenza)', description: 'Galactic equator after Nick Anthony Fiorenza' },
+    { id: AyanamsaType.VALENS_MOON, name: 'Vettius Valens', description: 'Zodiac of Vettius Valens, from the Moon' },
+    { id: AyanamsaType.LAHIRI_1940, name: 'Lahiri 1940', description: 'Lahiri as defined in 1940' },
+    { id: AyanamsaType.LAHIRI_VP285, name: 'Lahiri VP285', description: 'Lahiri with the vernal point at 0° Aries in 285 CE' },
+    { id: AyanamsaType.KRISHNAMURTI_VP291, name: 'Krishnamurti-Senthilathiban', description: 'Krishnamurti with the vernal point at 0° Aries in 291 CE, after Senthilathiban' },
+    { id: AyanamsaType.LAHIRI_ICRC, name: 'Lahiri ICRC', description: 'Lahiri as defined by the Indian Calendar Reform Committee' },
+    { id: AyanamsaType.USER, name: 'User-defined', description: 'Value at a reference epoch, moving with precession (CustomAyanamsa)' },
+] as const;
+
 /**
  * House systems - re-export for convenience
  */
@@ -81,8 +165,23 @@ export const CALC_FLAGS = {
     SPEED: 0x0100,        // SEFLG_SPEED
     SWIEPH: 0x0002,       // SEFLG_SWIEPH (use Swiss Ephemeris files)
     EQUATORIAL: 0x0800,   // SEFLG_EQUATORIAL
-    XYZ: 0x0200,          // SEFLG_XYZ
-    TOPOCENTRIC: 0x2000,  // SEFLG_TOPOCTR
+    XYZ: 0x1000,          // SEFLG_XYZ
+    HELIOCENTRIC: 0x0008, // SEFLG_HELCTR
+    BARYCENTRIC: 0x4000,  // SEFLG_BARYCTR
+    TOPOCENTRIC: 0x8000,  // SEFLG_TOPOCTR
+} as const;
+
+/**
+ * Eclipse type flags returned by the eclipse functions
+ */
+export const ECLIPSE_FLAGS = {
+    CENTRAL: 1,           // SE_ECL_CENTRAL
+    NONCENTRAL: 2,        // SE_ECL_NONCENTRAL
+    TOTAL: 4,             // SE_ECL_TOTAL
+    ANNULAR: 8,           // SE_ECL_ANNULAR
+    PARTIAL: 16,          // SE_ECL_PARTIAL
+    ANNULAR_TOTAL: 32,    // SE_ECL_ANNULAR_TOTAL (hybrid)
+    PENUMBRAL: 64,        // SE_ECL_PENUMBRAL
 } as const;
 
 /**
@@ -132,6 +231,253 @@ export const NAKSHATRAS = [
     { number: 27, name: 'Revati', lord: PLANETS.MERCURY },
 ] as const;
 
+/**
+ * Vimshottari dasha sequence and mahadasha lengths in years (120-year cycle)
+ */
+export const VIMSHOTTARI_DASHA = [
+    { planet: PLANETS.KETU, years: 7 },
+    { planet: PLANETS.VENUS, years: 20 },
+    { planet: PLANETS.SUN, years: 6 },
+    { planet: PLANETS.MOON, years: 10 },
+    { planet: PLANETS.MARS, years: 7 },
+    { planet: PLANETS.RAHU, years: 18 },
+    { planet: PLANETS.JUPITER, years: 16 },
+    { planet: PLANETS.SATURN, years: 19 },
+    { planet: PLANETS.MERCURY, years: 17 },
+] as const;
+
+/**
+ * Total length of the Vimshottari cycle in years
+ */
+export const VIMSHOTTARI_TOTAL_YEARS = 120;
+
+/**
+ * Yogini dasha: the eight yoginis with their planets and years, in order
+ */
+export const YOGINI_DASHA = [
+    { name: 'Mangala', planet: PLANETS.MOON, years: 1 },
+    { name: 'Pingala', planet: PLANETS.SUN, years: 2 },
+    { name: 'Dhanya', planet: PLANETS.JUPITER, years: 3 },
+    { name: 'Bhramari', planet: PLANETS.MARS, years: 4 },
+    { name: 'Bhadrika', planet: PLANETS.MERCURY, years: 5 },
+    { name: 'Ulka', planet: PLANETS.SATURN, years: 6 },
+    { name: 'Siddha', planet: PLANETS.VENUS, years: 7 },
+    { name: 'Sankata', planet: PLANETS.RAHU, years: 8 },
+] as const;
+
+/**
+ * Total length of the Yogini cycle in years
+ */
+export const YOGINI_TOTAL_YEARS = 36;
+
+/**
+ * Ashtottari dasha lords, years and the nakshatras (1-27) each rules, from Ardra
+ */
+export const ASHTOTTARI_DASHA = [
+    { planet: PLANETS.SUN, years: 6, nakshatras: [6, 7, 8, 9] },
+    { planet: PLANETS.MOON, years: 15, nakshatras: [10, 11, 12] },
+    { planet: PLANETS.MARS, years: 8, nakshatras: [13, 14, 15, 16] },
+    { planet: PLANETS.MERCURY, years: 17, nakshatras: [17, 18, 19] },
+    { planet: PLANETS.SATURN, years: 10, nakshatras: [20, 21, 22] },
+    { planet: PLANETS.JUPITER, years: 19, nakshatras: [23, 24, 25] },
+    { planet: PLANETS.RAHU, years: 12, nakshatras: [26, 27, 1, 2] },
+    { planet: PLANETS.VENUS, years: 21, nakshatras: [3, 4, 5] },
+] as const;
+
+/**
+ * Total length of the Ashtottari cycle in years
+ */
+export const ASHTOTTARI_TOTAL_YEARS = 108;
+
+/**
+ * Kalachakra dasha years of each sign, Aries to Pisces
+ */
+export const KALACHAKRA_YEARS = [7, 16, 9, 21, 5, 9, 16, 7, 10, 4, 4, 10] as const;
+
+/**
+ * Parashari shodasavarga (16 divisional charts)
+ */
+export const VARGAS = [
+    { division: 1, code: 'D1', name: 'Rasi' },
+    { division: 2, code: 'D2', name: 'Hora' },
+    { division: 3, code: 'D3', name: 'Drekkana' },
+    { division: 4, code: 'D4', name: 'Chaturthamsa' },
+    { division: 7, code: 'D7', name: 'Saptamsa' },
+    { division: 9, code: 'D9', name: 'Navamsa' },
+    { division: 10, code: 'D10', name: 'Dasamsa' },
+    { division: 12, code: 'D12', name: 'Dwadasamsa' },
+    { division: 16, code: 'D16', name: 'Shodasamsa' },
+    { division: 20, code: 'D20', name: 'Vimsamsa' },
+    { division: 24, code: 'D24', name: 'Chaturvimsamsa' },
+    { division: 27, code: 'D27', name: 'Saptavimsamsa' },
+    { division: 30, code: 'D30', name: 'Trimsamsa' },
+    { division: 40, code: 'D40', name: 'Khavedamsa' },
+    { division: 45, code: 'D45', name: 'Akshavedamsa' },
+    { division: 60, code: 'D60', name: 'Shashtiamsa' },
+] as const;
+
+/**
+ * Tithi (lunar day) names within a paksha; the 15th is Purnima in Shukla
+ * paksha and Amavasya in Krishna paksha
+ */
+export const TITHIS = [
+    'Pratipada',
+    'Dwitiya',
+    'Tritiya',
+    'Chaturthi',
+    'Panchami',
+    'Shashthi',
+    'Saptami',
+    'Ashtami',
+    'Navami',
+    'Dashami',
+    'Ekadashi',
+    'Dwadashi',
+    'Trayodashi',
+    'Chaturdashi',
+    'Purnima',
+    'Amavasya',
+] as const;
+
+/**
+ * Nitya yoga names (27 divisions of the Sun + Moon longitude sum)
+ */
+export const YOGAS = [
+    'Vishkambha', 'Priti', 'Ayushman', 'Saubhagya', 'Shobhana', 'Atiganda',
+    'Sukarma', 'Dhriti', 'Shula', 'Ganda', 'Vriddhi', 'Dhruva',
+    'Vyaghata', 'Harshana', 'Vajra', 'Siddhi', 'Vyatipata', 'Variyana',
+    'Parigha', 'Shiva', 'Siddha', 'Sadhya', 'Shubha', 'Shukla',
+    'Brahma', 'Indra', 'Vaidhriti',
+] as const;
+
+/**
+ * Karana names: the seven repeating (chara) karanas followed by the four fixed (sthira) karanas
+ */
+export const KARANAS = {
+    MOVABLE: ['Bava', 'Balava', 'Kaulava', 'Taitila', 'Garaja', 'Vanija', 'Vishti'],
+    FIXED: ['Shakuni', 'Chatushpada', 'Naga', 'Kimstughna'],
+} as const;
+
+/**
+ * Tithi groups (numbers 1-30, both pakshas) used in muhurta selection
+ */
+export const TITHI_GROUPS = {
+    NANDA: [1, 6, 11, 16, 21, 26],
+    BHADRA: [2, 7, 12, 17, 22, 27],
+    JAYA: [3, 8, 13, 18, 23, 28],
+    RIKTA: [4, 9, 14, 19, 24, 29],
+    PURNA: [5, 10, 15, 20, 25, 30],
+} as const;
+
+/**
+ * Nakshatra groups (numbers 1-27) by nature, used in muhurta selection
+ */
+export const NAKSHATRA_GROUPS = {
+    /** Dhruva (fixed) */
+    FIXED: [4, 12, 21, 26],
+    /** Chara (movable) */
+    MOVABLE: [7, 15, 22, 23, 24],
+    /** Ugra (fierce) */
+    FIERCE: [2, 10, 11, 20, 25],
+    /** Mishra (mixed) */
+    MIXED: [3, 16],
+    /** Kshipra (light, swift) */
+    LIGHT: [1, 8, 13],
+    /** Mridu (soft) */
+    SOFT: [5, 14, 17, 27],
+    /** Tikshna (sharp) */
+    SHARP: [6, 9, 18, 19],
+} as const;
+
+/**
+ * Rasi groups (numbers 1-12) by quality
+ */
+export const RASI_GROUPS = {
+    MOVABLE: [1, 4, 7, 10],
+    FIXED: [2, 5, 8, 11],
+    DUAL: [3, 6, 9, 12],
+} as const;
+
+/**
+ * Vara (weekday) names and lords, starting from Sunday
+ */
+export const VARAS = [
+    { number: 1, name: 'Ravivara', english: 'Sunday', lord: PLANETS.SUN },
+    { number: 2, name: 'Somavara', english: 'Monday', lord: PLANETS.MOON },
+    { number: 3, name: 'Mangalavara', english: 'Tuesday', lord: PLANETS.MARS },
+    { number: 4, name: 'Budhavara', english: 'Wednesday', lord: PLANETS.MERCURY },
+    { number: 5, name: 'Guruvara', english: 'Thursday', lord: PLANETS.JUPITER },
+    { number: 6, name: 'Shukravara', english: 'Friday', lord: PLANETS.VENUS },
+    { number: 7, name: 'Shanivara', english: 'Saturday', lord: PLANETS.SATURN },
+] as const;
+
+/**
+ * Dignities of the seven visible planets: deep exaltation point (sidereal
+ * longitude, debilitation is opposite), moolatrikona range within a rasi,
+ * own signs and natural (naisargika) relationships
+ */
+export const PLANET_DIGNITIES = [
+    {
+        planet: PLANETS.SUN, exaltation: 10, moolatrikona: { rasi: 5, from: 0, to: 20 }, ownSigns: [5],
+        friends: ['Moon', 'Mars', 'Jupiter'], neutrals: ['Mercury'], enemies: ['Venus', 'Saturn'],
+    },
+    {
+        planet: PLANETS.MOON, exaltation: 33, moolatrikona: { rasi: 2, from: 3, to: 30 }, ownSigns: [4],
+        friends: ['Sun', 'Mercury'], neutrals: ['Mars', 'Jupiter', 'Venus', 'Saturn'], enemies: [],
+    },
+    {
+        planet: PLANETS.MARS, exaltation: 298, moolatrikona: { rasi: 1, from: 0, to: 12 }, ownSigns: [1, 8],
+        friends: ['Sun', 'Moon', 'Jupiter'], neutrals: ['Venus', 'Saturn'], enemies: ['Mercury'],
+    },
+    {
+        planet: PLANETS.MERCURY, exaltation: 165, moolatrikona: { rasi: 6, from: 15, to: 20 }, ownSigns: [3, 6],
+        friends: ['Sun', 'Venus'], neutrals: ['Mars', 'Jupiter', 'Saturn'], enemies: ['Moon'],
+    },
+    {
+        planet: PLANETS.JUPITER, exaltation: 95, moolatrikona: { rasi: 9, from: 0, to: 10 }, ownSigns: [9, 12],
+        friends: ['Sun', 'Moon', 'Mars'], neutrals: ['Saturn'], enemies: ['Mercury', 'Venus'],
+    },
+    {
+        planet: PLANETS.VENUS, exaltation: 357, moolatrikona: { rasi: 7, from: 0, to: 15 }, ownSigns: [2, 7],
+        friends: ['Mercury', 'Saturn'], neutrals: ['Mars', 'Jupiter'], enemies: ['Sun', 'Moon'],
+    },
+    {
+        planet: PLANETS.SATURN, exaltation: 200, moolatrikona: { rasi: 11, from: 0, to: 20 }, ownSigns: [10, 11],
+        friends: ['Mercury', 'Venus'], neutrals: ['Jupiter'], enemies: ['Sun', 'Moon', 'Mars'],
+    },
+] as const;
+
+/**
+ * Shadbala constants per planet: naisargika (natural) strength in virupas
+ * and the minimum total strength required, in rupas (BPHS)
+ */
+export const SHADBALA_PLANETS = [
+    { planet: PLANETS.SUN, naisargika: 60, required: 6.5 },
+    { planet: PLANETS.MOON, naisargika: 51.43, required: 6 },
+    { planet: PLANETS.MARS, naisargika: 17.14, required: 5 },
+    { planet: PLANETS.MERCURY, naisargika: 25.71, required: 7 },
+    { planet: PLANETS.JUPITER, naisargika: 34.29, required: 6.5 },
+    { planet: PLANETS.VENUS, naisargika: 42.86, required: 5.5 },
+    { planet: PLANETS.SATURN, naisargika: 8.57, required: 5 },
+] as const;
+
+/**
+ * Western aspects with their exact angles and default orbs in degrees
+ */
+export const WESTERN_ASPECTS = [
+    { name: 'conjunction', angle: 0, orb: 8, major: true },
+    { name: 'opposition', angle: 180, orb: 8, major: true },
+    { name: 'trine', angle: 120, orb: 8, major: true },
+    { name: 'square', angle: 90, orb: 7, major: true },
+    { name: 'sextile', angle: 60, orb: 6, major: true },
+    { name: 'quincunx', angle: 150, orb: 3, major: false },
+    { name: 'semi-sextile', angle: 30, orb: 2, major: false },
+    { name: 'semi-square', angle: 45, orb: 2, major: false },
+    { name: 'sesquiquadrate', angle: 135, orb: 2, major: false },
+    { name: 'quintile', angle: 72, orb: 2, major: false },
+    { name: 'biquintile', angle: 144, orb: 2, major: false },
+] as const;
+
 /**
  * Julian Day for Unix Epoch (1970-01-01)
  */
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest';
+import {
+    calculateVimshottariDasha,
+    getCurrentDasha,
+    calculateDasha,
+    registerDashaSystem,
+    unregisterDashaSystem,
+    getDashaSystems,
+} from './dasha';
+import type { DashaChart } from './types';
+import { planetsAt, lagnaAt } from './__fixtures__/chart';
+
+const YEAR_MS = 365.25 * 86400000;
+
+describe('calculateVimshottariDasha', () => {
+    const birth = new Date('1990-01-15T08:45:00Z');
+
+    it('should start with the full Ketu dasha at 0° Aries', () => {
+        const dasha = calculateVimshottariDasha(0, birth);
+
+        expect(dasha.nakshatra).toBe(1);
+        expect(dasha.balance.planet).toBe('Ketu');
+        expect(dasha.balance.years).toBeCloseTo(7);
+        expect(dasha.periods[0]!.start.getTime()).toBe(birth.getTime());
+    });
+
+    it('should compute the balance from the Moon position in its nakshatra', () => {
+        // Middle of Bharani (Venus, 20 years)
+        const dasha = calculateVimshottariDasha(20, birth);
+
+        expect(dasha.balance.planet).toBe('Venus');
+        expect(dasha.balance.fraction).toBeCloseTo(0.5);
+        expect(dasha.balance.years).toBeCloseTo(10);
+        expect(dasha.periods[0]!.end.getTime() - birth.getTime()).toBeCloseTo(10 * YEAR_MS, -3);
+    });
+
+    it('should cover the 120-year cycle in Vimshottari order', () => {
+        const dasha = calculateVimshottariDasha(20, birth);
+
+        expect(dasha.periods.map(p => p.planet)).toEqual([
+            'Venus', 'Sun', 'Moon', 'Mars', 'Rahu', 'Jupiter', 'Saturn', 'Mercury', 'Ketu',
+        ]);
+        expect(dasha.periods.reduce((sum, p) => sum + p.years, 0)).toBe(120);
+    });
+
+    it('should nest antardashas that start with the mahadasha lord and fill it exactly', () => {
+        const dasha = calculateVimshottariDasha(100, birth);
+        const maha = dasha.periods[1]!;
+        const antars = maha.subPeriods!;
+
+        expect(antars).toHaveLength(9);
+        expect(antars[0]!.planet).toBe(maha.planet);
+        expect(antars[0]!.start).toEqual(maha.start);
+        expect(antars[8]!.end).toEqual(maha.end);
+        expect(antars.reduce((sum, p) => sum + p.years, 0)).toBeCloseTo(maha.years);
+        expect(antars[0]!.subPeriods).toHaveLength(9);
+        expect(antars[0]!.subPeriods![0]!.subPeriods).toBeUndefined();
+    });
+
+    it('should honor the depth and year length options', () => {
+        const dasha = calculateVimshottariDasha(0, birth, { depth: 1, yearLength: 360 });
+
+        expect(dasha.periods[0]!.subPeriods).toBeUndefined();
+        expect(dasha.periods[0]!.end.getTime() - birth.getTime()).toBe(7 * 360 * 86400000);
+    });
+});
+
+describe('getCurrentDasha', () => {
+    it('should return the running period at each level', () => {
+        const birth = new Date('1990-01-15T08:45:00Z');
+        const dasha = calculateVimshottariDasha(0, birth);
+        const chain = getCurrentDasha(dasha.periods, new Date(birth.getTime() + 1000));
+
+        expect(chain.map(p => p.planet)).toEqual(['Ketu', 'Ketu', 'Ketu']);
+        expect(chain.map(p => p.level)).toEqual([1, 2, 3]);
+    });
+
+    it('should return an empty chain outside the computed range', () => {
+        const dasha = calculateVimshottariDasha(0, new Date('1990-01-15T08:45:00Z'));
+        expect(getCurrentDasha(dasha.periods, new Date('1800-01-01'))).toEqual([]);
+    });
+});
+
+describe('calculateDasha', () => {
+    const birth = new Date('1990-01-15T08:45:00Z');
+    const chartAt = (longitudes: Record<string, number>, lagna = 5): DashaChart => ({
+        planets: planetsAt(longitudes),
+        lagna: lagnaAt(lagna),
+        birthDate: birth,
+    });
+
+    it('should match calculateVimshottariDasha for the vimshottari system', () => {
+        const dasha = calculateDasha(chartAt({ Moon: 100 }), 'vimshottari');
+        const vimshottari = calculateVimshottariDasha(100, birth);
+
+        expect(dasha.periods.map(p => [p.planet, p.start.getTime(), p.end.getTime()]))
+            .toEqual(vimshottari.periods.map(p => [p.planet, p.start.getTime(), p.end.getTime()]));
+        expect(dasha.periods[3]!.subPeriods!.map(p => p.planet)).toEqual(vimshottari.periods[3]!.subPeriods!.map(p => p.planet));
+        expect(dasha.balance.years).toBeCloseTo(vimshottari.balance.years);
+        expect(dasha.applicability).toEqual({ applicable: true, reasons: [] });
+    });
+
+    it('should start Yogini dasha from the nakshatra plus three', () => {
+        // Ashwini starts with Bhramari (Mars, 4 years)
+        const yogini = calculateDasha(chartAt({ Moon: 0 }), 'yogini');
+
+        expect(yogini.balance).toEqual({ planet: 'Mars', name: 'Bhramari', years: 4, fraction: 1 });
+        expect(yogini.periods.map(p => p.name)).toEqual([
+            'Bhramari', 'Bhadrika', 'Ulka', 'Siddha', 'Sankata', 'Mangala', 'Pingala', 'Dhanya',
+        ]);
+        expect(yogini.periods.reduce((sum, p) => sum + p.years, 0)).toBe(36);
+
+        const antars = yogini.periods[1]!.subPeriods!;
+        expect(antars.map(p => p.name)[0]).toBe('Bhadrika');
+        expect(antars[7]!.end).toEqual(yogini.periods[1]!.end);
+        expect(antars.reduce((sum, p) => sum + p.years, 0)).toBeCloseTo(5);
+
+        // Middle of Ardra: half of Mangala (1 year) is left
+        expect(calculateDasha(chartAt({ Moon: 73.3333333 }), 'yogini').balance).toMatchObject({ name: 'Mangala' });
+        expect(calculateDasha(chartAt({ Moon: 73.3333333 }), 'yogini').balance.years).toBeCloseTo(0.5);
+    });
+
+    it('should seed Ashtottari from the nakshatra group and check its conditions', () => {
+        // Cancer lagna with the Moon in Gemini; Rahu in Libra is 5th from it
+        const planets = { Sun: 10, Moon: 80, Rahu: 190 };
+        // Punarvasu is the second of the Sun's four nakshatras from Ardra
+        const ashtottari = calculateDasha(chartAt(planets, 100), 'ashtottari');
+
+        expect(ashtottari.balance.planet).toBe('Sun');
+        expect(ashtottari.balance.fraction).toBeCloseTo(0.75);
+        expect(ashtottari.periods.map(p => p.planet)).toEqual([
+            'Sun', 'Moon', 'Mars', 'Mercury', 'Saturn', 'Jupiter', 'Rahu', 'Venus',
+        ]);
+        expect(ashtottari.periods.reduce((sum, p) => sum + p.years, 0)).toBe(108);
+        expect(ashtottari.applicability).toEqual({
+            applicable: true,
+            reasons: ['Rahu in a kendra or trikona from the lagna lord'],
+        });
+
+        // Rahu in the lagna, and a day birth (Sun in the 10th) in Shukla paksha
+        expect(calculateDasha(chartAt({ ...planets, Rahu: 95 }, 100), 'ashtottari').applicability).toEqual({
+            applicable: false,
+            reasons: ['Rahu not in a kendra or trikona from the lagna lord', 'Day birth in Shukla paksha'],
+        });
+        // Night birth (Sun in the 4th) in Shukla paksha
+        expect(calculateDasha(chartAt({ ...planets, Rahu: 95, Saturn: 300 }, 280), 'ashtottari').applicability.reasons)
+            .toEqual(['Night birth in Shukla paksha']);
+    });
+
+    it('should follow the Kalachakra sequence of the Moon\'s pada', () => {
+        // First pada of Ashwini (savya): Aries to Sagittarius, 100 years
+        const kalachakra = calculateDasha(chartAt({ Moon: 0 }), 'kalachakra');
+
+        expect(kalachakra.periods.slice(0, 9).map(p => p.rasi)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(kalachakra.periods[0]).toMatchObject({ name: 'Aries', planet: 'Mars', years: 7 });
+        // The second pada follows
+        expect(kalachakra.periods[9]!.rasi).toBe(10);
+        expect(kalachakra.periods[1]!.subPeriods!.map(p => p.rasi)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 1]);
+        expect(kalachakra.periods[1]!.subPeriods![0]!.years).toBeCloseTo(16 * 16 / 100);
+
+        // Half the pada is 50 of its 100 years: 3 years of Cancer remain
+        const middle = calculateDasha(chartAt({ Moon: 10 / 6 }), 'kalachakra');
+        expect(middle.balance).toMatchObject({ name: 'Cancer', planet: 'Moon' });
+        expect(middle.balance.years).toBeCloseTo(3);
+
+        // First pada of Rohini (apasavya)
+        expect(calculateDasha(chartAt({ Moon: 40.01 }), 'kalachakra').periods.slice(0, 9).map(p => p.rasi))
+            .toEqual([9, 10, 11, 12, 1, 2, 3, 5, 4]);
+    });
+
+    it('should run Chara dasha from the lagna in the direction of the 9th', () => {
+        const planets = { Sun: 25, Moon: 72, Mars: 128, Mercury: 48, Jupiter: 243, Venus: 202, Saturn: 315, Rahu: 10 };
+        // Aries lagna: the 9th, Sagittarius, is odd-footed
+        const chara = calculateDasha(chartAt(planets), 'chara', { depth: 2 });
+
+        expect(chara.periods.slice(0, 12).map(p => p.rasi)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+        // Aries to Mars in Leo 4, Taurus to Venus in Libra 5, Gemini to Mercury in Taurus 11,
+        // Cancer back to the Moon in Gemini 1, Leo back to the exalted Sun in Aries 4 + 1
+        expect(chara.periods.slice(0, 5).map(p => p.years)).toEqual([4, 5, 11, 1, 5]);
+        expect(chara.periods[12]).toMatchObject({ rasi: 1, years: 8 });
+        expect(chara.balance).toMatchObject({ name: 'Aries', fraction: 1 });
+        expect(chara.periods[0]!.subPeriods!.map(p => p.rasi)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 1]);
+        expect(chara.periods[0]!.subPeriods![0]!.subPeriods).toBeUndefined();
+
+        // Cancer lagna: the 9th, Pisces, is even-footed
+        expect(calculateDasha(chartAt(planets, 100), 'chara').periods.slice(0, 4).map(p => p.rasi)).toEqual([4, 3, 2, 1]);
+    });
+
+    it('should calculate registered systems and reject unknown ones', () => {
+        expect(getDashaSystems().map(s => s.id)).toEqual(['vimshottari', 'yogini', 'ashtottari', 'kalachakra', 'chara']);
+
+        registerDashaSystem({
+            id: 'test',
+            name: 'Test',
+            seed: () => ({ periods: [{ planet: 'Sun', years: 10 }, { planet: 'Moon', years: 20 }], elapsedYears: 5 }),
+            subdivide: period => [{ planet: period.planet, years: 1 }, { planet: 'Mars', years: 3 }],
+        });
+        const test = calculateDasha(chartAt({}), 'test', { depth: 2 });
+        expect(test.balance).toEqual({ planet: 'Sun', years: 5, fraction: 0.5 });
+        expect(test.periods[1]!.subPeriods!.map(p => p.years)).toEqual([5, 15]);
+
+        expect(unregisterDashaSystem('test')).toBe(true);
+        expect(() => calculateDasha(chartAt({}), 'test')).toThrow('Unknown dasha system');
+        expect(() => calculateDasha(chartAt({}), 'yogini')).toThrow('Moon');
+    });
+});
@@ -0,0 +1,484 @@
+/**
+ * @af/sweph-core - Dasha
+ *
+ * Platform-agnostic dasha calculations. Vimshottari is seeded from the natal Moon;
+ * other systems are DashaSystem objects in a registry (Vimshottari, Yogini,
+ * Ashtottari, Kalachakra and Chara built in), so applications can add their own.
+ */
+
+import {
+    NAKSHATRAS,
+    RASHIS,
+    VIMSHOTTARI_DASHA,
+    VIMSHOTTARI_TOTAL_YEARS,
+    YOGINI_DASHA,
+    ASHTOTTARI_DASHA,
+    KALACHAKRA_YEARS,
+} from './constants';
+import type {
+    Planet,
+    DashaOptions,
+    DashaPeriod,
+    VimshottariDasha,
+    DashaChart,
+    DashaSpan,
+    DashaSeed,
+    DashaSystem,
+    DashaResult,
+    DashaApplicability,
+} from './types';
+import { getNakshatra, getRashi, normalizeLongitude } from './utils';
+import { getCharaDashaYears, isSavyaSign } from './jaimini';
+
+const MS_PER_DAY = 86400000;
+const NAKSHATRA_SPAN = 360 / 27;
+const MAX_DEPTH = 5;
+
+/**
+ * Find the running dasha chain at a given date
+ * @param periods - Top-level periods (e.g. `dasha.periods`)
+ * @param date - Date to look up
+ * @returns Periods from mahadasha down to the deepest computed level, or an empty array if out of range
+ * @example
+ * ```typescript
+ * const [maha, antar, pratyantar] = getCurrentDasha(dasha.periods, new Date());
+ * console.log(`${maha.planet}/${antar.planet}/${pratyantar.planet}`);
+ * ```
+ */
+export function getCurrentDasha(periods: DashaPeriod[], date: Date): DashaPeriod[] {
+    const time = date.getTime();
+    const chain: DashaPeriod[] = [];
+    let level: DashaPeriod[] | undefined = periods;
+
+    while (level) {
+        const current: DashaPeriod | undefined = level.find(
+            p => p.start.getTime() <= time && time < p.end.getTime()
+        );
+        if (!current) break;
+        chain.push(current);
+        level = current.subPeriods;
+    }
+
+    return chain;
+}
+
+/**
+ * Spans of a cycle starting from the entry at `start`
+ * @internal
+ */
+function rotate(cycle: readonly DashaSpan[], start: number): DashaSpan[] {
+    return cycle.map((_, i) => cycle[(start + i) % cycle.length]!);
+}
+
+/**
+ * Sub-periods of a planetary cycle, starting from the parent's own entry
+ * @internal
+ */
+function cycleFrom(cycle: readonly DashaSpan[], period: DashaSpan): DashaSpan[] {
+    const start = cycle.findIndex(entry => (entry.name ?? entry.planet) === (period.name ?? period.planet));
+    return rotate(cycle, Math.max(start, 0));
+}
+
+/**
+ * Period of a sign in sign-based dashas
+ * @internal
+ */
+function signSpan(rasi: number, years: number, sequence?: number): DashaSpan {
+    const sign = RASHIS[rasi - 1]!;
+    const span: DashaSpan = { planet: sign.lord.name, name: sign.name, rasi, years };
+    if (sequence !== undefined) span.sequence = sequence;
+    return span;
+}
+
+/**
+ * Find a planet of the chart or throw
+ * @internal
+ */
+function requirePlanet(chart: DashaChart, name: string, system: string): Planet {
+    const planet = chart.planets.find(p => p.name === name);
+    if (!planet) {
+        throw new Error(`${system} dasha requires the position of ${name}`);
+    }
+    return planet;
+}
+
+/**
+ * Sidereal Moon longitude and the portion of its nakshatra already traversed
+ * @internal
+ */
+function moonNakshatra(chart: DashaChart, system: string): { longitude: number; nakshatra: number; elapsed: number } {
+    const longitude = normalizeLongitude(requirePlanet(chart, 'Moon', system).longitude);
+    return {
+        longitude,
+        nakshatra: getNakshatra(longitude).number,
+        elapsed: (longitude % NAKSHATRA_SPAN) / NAKSHATRA_SPAN,
+    };
+}
+
+const VIMSHOTTARI_CYCLE: DashaSpan[] = VIMSHOTTARI_DASHA.map(d => ({ planet: d.planet.name, years: d.years }));
+
+const YOGINI_CYCLE: DashaSpan[] = YOGINI_DASHA.map(d => ({ planet: d.planet.name, name: d.name, years: d.years }));
+
+const ASHTOTTARI_CYCLE: DashaSpan[] = ASHTOTTARI_DASHA.map(d => ({ planet: d.planet.name, years: d.years }));
+
+const KENDRAS_AND_TRIKONAS = [1, 4, 5, 7, 9, 10];
+
+/**
+ * Kalachakra sign sequences of the four padas of the savya nakshatras: group I
+ * (Ashwini, Krittika, Punarvasu, Ashlesha, Hasta, Swati, Mula, Uttara Ashadha,
+ * Purva Bhadrapada, Revati) and group II (Bharani, Pushya, Chitra, Purva Ashadha,
+ * Uttara Bhadrapada)
+ */
+const SAVYA_CHAKRA: Record<'I' | 'II', number[][]> = {
+    I: [
+        [1, 2, 3, 4, 5, 6, 7, 8, 9],
+        [10, 11, 12, 8, 7, 6, 4, 5, 3],
+        [2, 1, 12, 11, 10, 9, 1, 2, 3],
+        [4, 5, 6, 7, 8, 9, 10, 11, 12],
+    ],
+    II: [
+        [8, 7, 6, 4, 5, 3, 2, 1, 12],
+        [11, 10, 9, 1, 2, 3, 4, 5, 6],
+        [7, 8, 9, 10, 11, 12, 8, 7, 6],
+        [4, 5, 3, 2, 1, 12, 11, 10, 9],
+    ],
+};
+
+const mirror = (chakra: number[][]) => chakra.map(pada => [...pada].reverse()).reverse();
+
+/**
+ * The apasavya chakras run the savya ones backwards: group I (Rohini, Ardra,
+ * Magha, Uttara Phalguni, Vishakha, Jyeshtha, Shravana, Shatabhisha) mirrors savya
+ * group II and group II (Mrigashira, Purva Phalguni, Anuradha, Dhanishta) savya group I
+ */
+const APASAVYA_CHAKRA: Record<'I' | 'II', number[][]> = {
+    I: mirror(SAVYA_CHAKRA.II),
+    II: mirror(SAVYA_CHAKRA.I),
+};
+
+/**
+ * Kalachakra sign sequence of one of the 108 nakshatra padas (0-107)
+ * @internal
+ */
+function kalachakraPada(pada: number): number[] {
+    const nakshatra = Math.floor(pada / 4);
+    // Nakshatras come in triads, alternately savya and apasavya; the middle one uses group II
+    const savya = Math.floor(nakshatra / 3) % 2 === 0;
+    const group = nakshatra % 3 === 1 ? 'II' : 'I';
+    return (savya ? SAVYA_CHAKRA : APASAVYA_CHAKRA)[group][pada % 4]!;
+}
+
+/**
+ * Spans of a Kalachakra pada sequence from a position; `sequence` is pada * 9 + position
+ * @internal
+ */
+function kalachakraSpans(pada: number, from = 0): DashaSpan[] {
+    const signs = kalachakraPada(pada);
+    return signs.map((_, i) => {
+        const position = (from + i) % signs.length;
+        const rasi = signs[position]!;
+        return signSpan(rasi, KALACHAKRA_YEARS[rasi - 1]!, pada * 9 + position);
+    });
+}
+
+/**
+ * Vimshottari mahadashas from the lord of the Moon's nakshatra
+ * @internal
+ */
+function vimshottariSeed(moonLongitude: number): DashaSeed {
+    const longitude = normalizeLongitude(moonLongitude);
+    const lord = NAKSHATRAS[getNakshatra(longitude).number - 1]!.lord.name;
+    const periods = rotate(VIMSHOTTARI_CYCLE, VIMSHOTTARI_CYCLE.findIndex(d => d.planet === lord));
+    // Portion of the birth nakshatra the Moon has already traversed
+    const elapsed = (longitude % NAKSHATRA_SPAN) / NAKSHATRA_SPAN;
+    return { periods, elapsedYears: elapsed * periods[0]!.years };
+}
+
+const VIMSHOTTARI_SYSTEM: DashaSystem = {
+    id: 'vimshottari',
+    name: 'Vimshottari',
+    description: '120-year cycle of the nine grahas from the lord of the Moon\'s nakshatra',
+    seed: chart => vimshottariSeed(requirePlanet(chart, 'Moon', 'Vimshottari').longitude),
+    subdivide: period => cycleFrom(VIMSHOTTARI_CYCLE, period),
+};
+
+/**
+ * Built-in dasha systems
+ */
+const DASHA_SYSTEMS: DashaSystem[] = [
+    VIMSHOTTARI_SYSTEM,
+    {
+        id: 'yogini',
+        name: 'Yogini',
+        description: '36-year cycle of the eight yoginis, starting from the Moon\'s nakshatra plus three',
+        seed: chart => {
+            const { nakshatra, elapsed } = moonNakshatra(chart, 'Yogini');
+            const periods = rotate(YOGINI_CYCLE, (nakshatra + 2) % YOGINI_CYCLE.length);
+            return { periods, elapsedYears: elapsed * periods[0]!.years };
+        },
+        subdivide: period => cycleFrom(YOGINI_CYCLE, period),
+    },
+    {
+        id: 'ashtottari',
+        name: 'Ashtottari',
+        description: '108-year cycle of eight grahas (no Ketu), each ruling a group of nakshatras from Ardra',
+        seed: chart => {
+            const { longitude, nakshatra } = moonNakshatra(chart, 'Ashtottari');
+            const index = ASHTOTTARI_DASHA.findIndex(d => (d.nakshatras as readonly number[]).includes(nakshatra));
+            const group = ASHTOTTARI_DASHA[index]!.nakshatras;
+            // The lord's years are spread over its whole group of nakshatras
+            const groupStart = (group[0]! - 1) * NAKSHATRA_SPAN;
+            const elapsed = normalizeLongitude(longitude - groupStart) / (group.length * NAKSHATRA_SPAN);
+            const periods = rotate(ASHTOTTARI_CYCLE, index);
+            return { periods, elapsedYears: elapsed * periods[0]!.years };
+        },
+        subdivide: period => cycleFrom(ASHTOTTARI_CYCLE, period),
+        isApplicable: chart => {
+            const sun = requirePlanet(chart, 'Sun', 'Ashtottari');
+            const moon = requirePlanet(chart, 'Moon', 'Ashtottari');
+            const rahu = requirePlanet(chart, 'Rahu', 'Ashtottari');
+            const lagnaSign = getRashi(chart.lagna.longitude);
+            const lord = requirePlanet(chart, RASHIS[lagnaSign - 1]!.lord.name, 'Ashtottari');
+
+            const rahuSign = getRashi(rahu.longitude);
+            const fromLord = ((rahuSign - getRashi(lord.longitude) + 12) % 12) + 1;
+            const rahuPlaced = rahuSign !== lagnaSign && KENDRAS_AND_TRIKONAS.includes(fromLord);
+
+            const shukla = normalizeLongitude(moon.longitude - sun.longitude) < 180;
+            // The Sun is above the horizon between the descendant and the ascendant
+            const day = normalizeLongitude(sun.longitude - chart.lagna.longitude) >= 180;
+
+            const conditions = [
+                {
+                    met: rahuPlaced,
+                    reason: `Rahu ${rahuPlaced ? 'in' : 'not in'} a kendra or trikona from the lagna lord`,
+                },
+                { met: day !== shukla, reason: `${day ? 'Day' : 'Night'} birth in ${shukla ? 'Shukla' : 'Krishna'} paksha` },
+            ];
+            const met = conditions.filter(c => c.met);
+            return { applicable: met.length > 0, reasons: (met.length > 0 ? met : conditions).map(c => c.reason) };
+        },
+    },
+    {
+        id: 'kalachakra',
+        name: 'Kalachakra',
+        description: 'Sign dasha following the savya or apasavya chakra of the Moon\'s nakshatra pada',
+        seed: chart => {
+            const { longitude } = moonNakshatra(chart, 'Kalachakra');
+            const pada = Math.min(Math.floor(longitude / (NAKSHATRA_SPAN / 4)), 107);
+            const signs = kalachakraSpans(pada);
+            const paramayus = signs.reduce((sum, span) => sum + span.years, 0);
+
+            // The traversed part of the pada is the same part of its paramayus
+            let elapsedYears = (longitude % (NAKSHATRA_SPAN / 4)) / (NAKSHATRA_SPAN / 4) * paramayus;
+            while (elapsedYears >= signs[0]!.years) {
+                elapsedYears -= signs.shift()!.years;
+            }
+
+            // Continue with the following padas to cover a lifetime
+            const periods = [...signs];
+            let remaining = periods.reduce((sum, span) => sum + span.years, 0) - elapsedYears;
+            for (let next = pada + 1; remaining < VIMSHOTTARI_TOTAL_YEARS; next++) {
+                const spans = kalachakraSpans(next % 108);
+                periods.push(...spans);
+                remaining += spans.reduce((sum, span) => sum + span.years, 0);
+            }
+            return { periods, elapsedYears };
+        },
+        subdivide: period => {
+            const sequence = period.sequence ?? 0;
+            return kalachakraSpans(Math.floor(sequence / 9), sequence % 9);
+        },
+    },
+    {
+        id: 'chara',
+        name: 'Chara',
+        description: 'Jaimini sign dasha from the lagna, forwards or backwards by the footedness of the 9th',
+        seed: chart => {
+            const lagnaSign = getRashi(chart.lagna.longitude);
+            const ninth = ((lagnaSign + 7) % 12) + 1;
+            const step = isSavyaSign(ninth) ? 1 : -1;
+            const signs = Array.from({ length: 12 }, (_, i) => ((lagnaSign - 1 + step * i + 12) % 12) + 1);
+
+            const first = signs.map(rasi => signSpan(rasi, getCharaDashaYears(rasi, chart.planets)));
+            // The second cycle completes each sign to 12 years
+            const second = first.filter(span => span.years < 12).map(span => signSpan(span.rasi!, 12 - span.years));
+            return { periods: [...first, ...second], elapsedYears: 0 };
+        },
+        subdivide: period => {
+            const rasi = period.rasi ?? 1;
+            const step = isSavyaSign(rasi) ? 1 : -1;
+            // Antardashas start from the next sign and end with the dasha sign itself
+            return Array.from({ length: 12 }, (_, i) => signSpan(((rasi - 1 + step * (i + 1) + 24) % 12) + 1, 1));
+        },
+    },
+];
+
+const registry = new Map<string, DashaSystem>(DASHA_SYSTEMS.map(system => [system.id, system]));
+
+/**
+ * Register a dasha system, replacing any system with the same id
+ * @param system - Dasha definition with seed and subdivide functions
+ * @example
+ * ```typescript
+ * registerDashaSystem({
+ *     id: 'moola',
+ *     name: 'Moola',
+ *     seed: chart => ({ periods: [...], elapsedYears: 0 }),
+ *     subdivide: period => [...],
+ * });
+ * ```
+ */
+export function registerDashaSystem(system: DashaSystem): void {
+    registry.set(system.id, system);
+}
+
+/**
+ * Remove a registered dasha system
+ * @param id - System identifier
+ * @returns true if a system was removed
+ */
+export function unregisterDashaSystem(id: string): boolean {
+    return registry.delete(id);
+}
+
+/**
+ * Get all registered dasha systems, built-in ones first
+ */
+export function getDashaSystems(): DashaSystem[] {
+    return [...registry.values()];
+}
+
+/**
+ * Place a period in time and recurse into its sub-periods until the requested depth
+ * @internal
+ */
+function placePeriod(
+    system: DashaSystem,
+    span: DashaSpan,
+    start: Date,
+    end: Date,
+    level: number,
+    depth: number
+): DashaPeriod {
+    const period: DashaPeriod = { planet: span.planet, level, start, end, years: span.years };
+    if (span.name !== undefined) period.name = span.name;
+    if (span.rasi !== undefined) period.rasi = span.rasi;
+
+    const spans = level < depth ? system.subdivide(span) : [];
+    const total = spans.reduce((sum, sub) => sum + sub.years, 0);
+    if (total > 0) {
+        const length = end.getTime() - start.getTime();
+        let cursor = start.getTime();
+        period.subPeriods = spans.map((sub, i) => {
+            const subStart = new Date(cursor);
+            // Pin the last sub-period to the parent's end to avoid floating-point drift
+            cursor = i === spans.length - 1 ? end.getTime() : cursor + length * sub.years / total;
+            const scaled = { ...sub, years: span.years * sub.years / total };
+            return placePeriod(system, scaled, subStart, new Date(cursor), level + 1, depth);
+        });
+    }
+
+    return period;
+}
+
+/**
+ * Place the seeded mahadashas in time from the birth date and find the balance at birth
+ * @internal
+ */
+function placeDasha(
+    system: DashaSystem,
+    seed: DashaSeed,
+    birthDate: Date,
+    options: DashaOptions
+): Pick<DashaResult, 'balance' | 'periods'> {
+    const { yearLength = 365.25 } = options;
+    const depth = Math.min(Math.max(Math.floor(options.depth ?? 3), 1), MAX_DEPTH);
+    const yearMs = yearLength * MS_PER_DAY;
+
+    const birth = birthDate.getTime();
+    let cursor = birth - seed.elapsedYears * yearMs;
+
+    const periods = seed.periods.map(span => {
+        const start = new Date(cursor);
+        cursor += span.years * yearMs;
+        return placePeriod(system, span, start, new Date(cursor), 1, depth);
+    });
+
+    const running = periods.find(p => p.start.getTime() <= birth && birth < p.end.getTime()) ?? periods[0]!;
+    const fraction = (running.end.getTime() - birth) / (running.end.getTime() - running.start.getTime());
+
+    return {
+        balance: {
+            planet: running.planet,
+            ...(running.name !== undefined && { name: running.name }),
+            years: fraction * running.years,
+            fraction,
+        },
+        periods,
+    };
+}
+
+/**
+ * Calculate the dasha periods of a chart with a registered system
+ * @param chart - Sidereal planets, lagna and birth date
+ * @param system - Id of a registered system: 'vimshottari', 'yogini', 'ashtottari',
+ *   'kalachakra', 'chara' or one added with registerDashaSystem()
+ * @param options - Year length and nesting depth
+ * @returns Balance at birth, nested periods and whether the chart meets the
+ *   system's conditions (Ashtottari)
+ * @remarks Ashtottari spreads each lord's years over its group of nakshatras and
+ *   applies when Rahu is in a kendra or trikona from the lagna lord (not in the
+ *   lagna), or for a day birth in Krishna paksha or a night birth in Shukla paksha.
+ *   Chara dasha runs two cycles of the twelve signs, the second completing each to 12 years.
+ * @throws Error if the system is unknown or a planet it needs is missing
+ * @example
+ * ```typescript
+ * const yogini = calculateDasha({ planets, lagna, birthDate }, 'yogini', { depth: 2 });
+ * console.log(`${yogini.balance.name} balance: ${yogini.balance.years.toFixed(2)} years`);
+ * ```
+ */
+export function calculateDasha(chart: DashaChart, system: string, options: DashaOptions = {}): DashaResult {
+    const definition = registry.get(system);
+    if (!definition) {
+        throw new Error(`Unknown dasha system: ${system}`);
+    }
+    const { balance, periods } = placeDasha(definition, definition.seed(chart), chart.birthDate, options);
+    const applicability: DashaApplicability = definition.isApplicable?.(chart) ?? { applicable: true, reasons: [] };
+
+    return {
+        system: definition.id,
+        name: definition.name,
+        balance,
+        periods,
+        applicability,
+    };
+}
+
+/**
+ * Calculate Vimshottari dasha periods from the natal Moon
+ * @param moonLongitude - Sidereal longitude of the Moon at birth
+ * @param birthDate - Birth date and time
+ * @param options - Year length and nesting depth
+ * @returns Balance at birth and the nested mahadasha periods of the 120-year cycle
+ * @example
+ * ```typescript
+ * const dasha = calculateVimshottariDasha(moon.longitude, birthDate, { depth: 2 });
+ * console.log(`${dasha.balance.planet} balance: ${dasha.balance.years.toFixed(2)} years`);
+ * ```
+ */
+export function calculateVimshottariDasha(
+    moonLongitude: number,
+    birthDate: Date,
+    options: DashaOptions = {}
+): VimshottariDasha {
+    const longitude = normalizeLongitude(moonLongitude);
+    const { balance, periods } = placeDasha(VIMSHOTTARI_SYSTEM, vimshottariSeed(longitude), birthDate, options);
+
+    return {
+        moonLongitude: longitude,
+        nakshatra: getNakshatra(longitude).number,
+        balance: { planet: balance.planet, years: balance.years, fraction: balance.fraction },
+        periods,
+    };
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDoshas } from './dosha';
+import type { DoshaName } from './types';
+import { planetsAt, lagnaAt } from './__fixtures__/chart';
+
+// Aries lagna; the seven planets between Rahu (Aries) and Ketu (Libra)
+const base = {
+    Sun: 20, Moon: 50, Mars: 80, Mercury: 30, Jupiter: 120, Venus: 150, Saturn: 160, Rahu: 0, Ketu: 180,
+};
+
+const dosha = (id: DoshaName, longitudes: Record<string, number>, lagna = 10, options = {}) =>
+    analyzeDoshas(planetsAt(longitudes), lagnaAt(lagna), { ...options, doshas: [id] })[0]!;
+
+describe('analyzeDoshas', () => {
+    it('should evaluate all doshas in order', () => {
+        const doshas = analyzeDoshas(planetsAt(base), lagnaAt(10));
+        expect(doshas.map(d => d.id)).toEqual(['manglik', 'kaal-sarp', 'pitra', 'grahan', 'guru-chandal']);
+        expect(doshas.find(d => d.id === 'guru-chandal')!.present).toBe(false);
+    });
+
+    it('should detect Manglik dosha from lagna, Moon and Venus', () => {
+        // Mars in Libra: 7th from the Aries lagna, 4th from the Cancer Moon, 6th from the Taurus Venus
+        const manglik = dosha('manglik', { ...base, Mars: 190, Moon: 100, Venus: 40, Jupiter: 40 });
+
+        expect(manglik.present).toBe(true);
+        expect(manglik.severity).toBe('medium');
+        expect(manglik.factors).toEqual([
+            'Mars in the 7th house from the lagna',
+            'Mars in the 4th house from the Moon',
+        ]);
+        expect(manglik.cancelled).toBe(false);
+
+        const lagnaOnly = dosha('manglik', { ...base, Mars: 190, Moon: 100 }, 10, { manglikFrom: ['lagna'] });
+        expect(lagnaOnly.severity).toBe('low');
+
+        const northern = dosha('manglik', { ...base, Mars: 40 }, 10, { manglikHouses: [1, 4, 7, 8, 12] });
+        expect(northern.factors).not.toContain('Mars in the 2nd house from the lagna');
+    });
+
+    it('should apply Manglik cancellation rules', () => {
+        // Mars in Libra receives Jupiter's 5th aspect from Gemini
+        const aspected = dosha('manglik', { ...base, Mars: 190, Jupiter: 70 });
+        expect(aspected.cancelled).toBe(true);
+        expect(aspected.cancellations).toEqual(['Mars aspected by Jupiter']);
+
+        const ignored = dosha('manglik', { ...base, Mars: 190, Jupiter: 70 }, 10, { manglikCancellations: [] });
+        expect(ignored.present).toBe(true);
+        expect(ignored.cancelled).toBe(false);
+
+        // Mars in Cancer in the 7th from a Capricorn lagna
+        const exception = dosha('manglik', { ...base, Mars: 100 }, 280);
+        expect(exception.cancellations).toContain('Mars in Cancer in the 7th house');
+    });
+
+    it('should name the Kaal Sarp variant from the house of Rahu', () => {
+        const kaalSarp = dosha('kaal-sarp', base);
+        expect(kaalSarp.present).toBe(true);
+        expect(kaalSarp.severity).toBe('high');
+        expect(kaalSarp.variant).toBe('Anant');
+
+        // Rahu in the 8th from a Virgo lagna
+        expect(dosha('kaal-sarp', base, 160).variant).toBe('Karkotak');
+    });
+
+    it('should grade Kaal Amrit and partial Kaal Sarp lower', () => {
+        const amrit = dosha('kaal-sarp', {
+            Sun: 200, Moon: 220, Mars: 250, Mercury: 210, Jupiter: 300, Venus: 330, Saturn: 350, Rahu: 0, Ketu: 180,
+        });
+        expect(amrit.severity).toBe('medium');
+        expect(amrit.factors[0]).toContain('Kaal Amrit');
+
+        const partial = dosha('kaal-sarp', { ...base, Saturn: 200 });
+        expect(partial.severity).toBe('low');
+        expect(partial.factors).toContain('Saturn outside the axis (partial)');
+
+        expect(dosha('kaal-sarp', { ...base, Saturn: 200, Venus: 220 }).present).toBe(false);
+    });
+
+    it('should count Pitra dosha factors', () => {
+        // Sun with Rahu and Saturn in Aries; Ketu in the 9th from an Aquarius lagna
+        const pitra = dosha('pitra', { ...base, Saturn: 10 }, 310);
+        expect(pitra.factors).toEqual(['Sun conjunct Rahu', 'Sun conjunct Saturn', 'Ketu in the 9th house']);
+        expect(pitra.severity).toBe('high');
+    });
+
+    it('should grade Grahan and Guru Chandal doshas by distance', () => {
+        const grahan = dosha('grahan', base);
+        expect(grahan.factors).toEqual(['Sun conjunct Rahu (20.0°)']);
+        expect(grahan.severity).toBe('low');
+
+        expect(dosha('grahan', { ...base, Sun: 5, Moon: 190 }).severity).toBe('high');
+
+        const guruChandal = dosha('guru-chandal', { ...base, Jupiter: 3 });
+        expect(guruChandal.severity).toBe('high');
+        expect(dosha('guru-chandal', { ...base, Jupiter: 25 }).severity).toBe('low');
+    });
+
+    it('should derive Ketu from Rahu and require the planets', () => {
+        const { Ketu: _ketu, ...withoutKetu } = base;
+        expect(dosha('grahan', { ...withoutKetu, Moon: 185 }).factors).toContain('Moon conjunct Ketu (5.0°)');
+        expect(() => dosha('guru-chandal', { Sun: 0 })).toThrow('Jupiter');
+    });
+});
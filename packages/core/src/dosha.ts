@@ -0,0 +1,251 @@
+/**
+ * @af/sweph-core - Dosha Analysis
+ *
+ * Manglik, Kaal Sarp, Pitra, Grahan and Guru Chandal doshas of a chart,
+ * with severity and the placements that form them. Houses are whole-sign
+ * houses counted from the reference sign.
+ */
+
+import { RASHIS } from './constants';
+import type {
+    Planet,
+    LagnaInfo,
+    DoshaName,
+    DoshaSeverity,
+    DoshaOptions,
+    DoshaResult,
+    ManglikCancellation,
+} from './types';
+import { normalizeLongitude, getRashi } from './utils';
+
+const SEVEN_PLANETS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+const DOSHA_NAMES: Record<DoshaName, string> = {
+    'manglik': 'Manglik Dosha',
+    'kaal-sarp': 'Kaal Sarp Dosha',
+    'pitra': 'Pitra Dosha',
+    'grahan': 'Grahan Dosha',
+    'guru-chandal': 'Guru Chandal Dosha',
+};
+
+const DEFAULT_MANGLIK_HOUSES = [1, 2, 4, 7, 8, 12];
+
+const ALL_MANGLIK_CANCELLATIONS: ManglikCancellation[] = ['own-or-exalted', 'jupiter', 'moon', 'sign-exception'];
+
+/**
+ * Signs (1-12) in which Mars does not give Manglik dosha from each house of the lagna
+ */
+const MANGLIK_SIGN_EXCEPTIONS: Record<number, number[]> = {
+    1: [1],
+    2: [3, 6],
+    4: [1, 8],
+    7: [4, 10],
+    8: [9, 12],
+    12: [2, 7],
+};
+
+/**
+ * Kaal Sarp variants named by the house of Rahu from the lagna
+ */
+const KAAL_SARP_VARIANTS = [
+    'Anant', 'Kulik', 'Vasuki', 'Shankhpal', 'Padma', 'Mahapadma',
+    'Takshak', 'Karkotak', 'Shankhachood', 'Ghatak', 'Vishdhar', 'Sheshnag',
+];
+
+/**
+ * Ordinal of a house number, e.g. '2nd'
+ * @internal
+ */
+function ordinal(n: number): string {
+    const suffix = n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th';
+    return `${n}${suffix}`;
+}
+
+/**
+ * Severity from the number of factors found: one is low, two medium, more high
+ * @internal
+ */
+function severityOf(count: number): DoshaSeverity {
+    if (count === 0) return 'none';
+    if (count === 1) return 'low';
+    return count === 2 ? 'medium' : 'high';
+}
+
+/**
+ * Analyze a chart for Manglik, Kaal Sarp, Pitra, Grahan and Guru Chandal doshas
+ * @param planets - Planet positions from calculatePlanets()
+ * @param lagna - Lagna from calculateLagna()
+ * @param options - Doshas to evaluate, Manglik houses, reference points and cancellations
+ * @returns One result per evaluated dosha, in the order manglik, kaal-sarp, pitra,
+ *   grahan, guru-chandal, with presence, severity, factors and cancellations
+ * @remarks
+ * - Manglik: Mars in the given houses from the lagna, Moon and Venus; severity grows
+ *   with the number of reference points affected. A cancelled dosha stays present
+ *   with `cancelled` set.
+ * - Kaal Sarp: the seven planets all between Rahu and Ketu (high), all between Ketu
+ *   and Rahu, i.e. Kaal Amrit (medium), or all but one (partial, low); the variant
+ *   is named from Rahu's house.
+ * - Pitra: the Sun with Rahu, Ketu or Saturn, the nodes in the 9th house, and the
+ *   9th lord with a node; severity grows with the number of factors.
+ * - Grahan: the Sun or Moon in the sign of a node; medium within 12°, high for both.
+ * - Guru Chandal: Jupiter in the sign of Rahu; high within 5°, medium within 15°.
+ * @throws Error if a planet required by an evaluated dosha is missing
+ * @example
+ * ```typescript
+ * const doshas = analyzeDoshas(planets, lagna, { manglikHouses: [1, 4, 7, 8, 12] });
+ * for (const dosha of doshas.filter(d => d.present)) {
+ *   console.log(dosha.name, dosha.severity, dosha.factors, dosha.cancelled);
+ * }
+ * ```
+ */
+export function analyzeDoshas(planets: Planet[], lagna: LagnaInfo, options: DoshaOptions = {}): DoshaResult[] {
+    const {
+        doshas = Object.keys(DOSHA_NAMES) as DoshaName[],
+        manglikHouses = DEFAULT_MANGLIK_HOUSES,
+        manglikFrom = ['lagna', 'moon', 'venus'],
+        manglikCancellations = ALL_MANGLIK_CANCELLATIONS,
+    } = options;
+
+    const byName = new Map(planets.map(p => [p.name, p]));
+    const longitudeOf = (name: string): number => {
+        const planet = byName.get(name);
+        if (planet) return planet.longitude;
+        // Ketu is opposite Rahu when only the node was calculated
+        if (name === 'Ketu' && byName.has('Rahu')) return normalizeLongitude(byName.get('Rahu')!.longitude + 180);
+        throw new Error(`Dosha analysis requires the position of ${name}`);
+    };
+    const signOf = (name: string) => getRashi(longitudeOf(name));
+    const lagnaRasi = getRashi(lagna.longitude);
+    const houseFrom = (name: string, sign: number) => ((signOf(name) - sign + 12) % 12) + 1;
+    const separation = (a: string, b: string) => {
+        const d = normalizeLongitude(longitudeOf(a) - longitudeOf(b));
+        return Math.min(d, 360 - d);
+    };
+    const isConjunct = (a: string, b: string) => signOf(a) === signOf(b);
+
+    const result = (id: DoshaName, factors: string[], severity: DoshaSeverity): DoshaResult => ({
+        id,
+        name: DOSHA_NAMES[id],
+        present: factors.length > 0,
+        severity,
+        factors,
+        cancelled: false,
+        cancellations: [],
+    });
+
+    const evaluators: Record<DoshaName, () => DoshaResult> = {
+        'manglik': () => {
+            const references = { lagna: lagnaRasi, moon: signOf('Moon'), venus: signOf('Venus') };
+            const labels = { lagna: 'lagna', moon: 'Moon', venus: 'Venus' };
+
+            const factors = manglikFrom
+                .map(from => ({ from, house: houseFrom('Mars', references[from]) }))
+                .filter(({ house }) => manglikHouses.includes(house))
+                .map(({ from, house }) => `Mars in the ${ordinal(house)} house from the ${labels[from]}`);
+
+            const dosha = result('manglik', factors, severityOf(factors.length));
+            if (!dosha.present) return dosha;
+
+            const marsSign = signOf('Mars');
+            const signName = RASHIS[marsSign - 1]!.name;
+            const lagnaHouse = houseFrom('Mars', lagnaRasi);
+
+            for (const rule of manglikCancellations) {
+                if (rule === 'own-or-exalted' && [1, 8, 10].includes(marsSign)) {
+                    dosha.cancellations.push(`Mars in its own or exaltation sign (${signName})`);
+                }
+                if (rule === 'jupiter' && isConjunct('Mars', 'Jupiter')) {
+                    dosha.cancellations.push('Mars conjunct Jupiter');
+                } else if (rule === 'jupiter' && [5, 7, 9].includes(houseFrom('Mars', signOf('Jupiter')))) {
+                    dosha.cancellations.push('Mars aspected by Jupiter');
+                }
+                if (rule === 'moon' && isConjunct('Mars', 'Moon')) {
+                    dosha.cancellations.push('Mars conjunct the Moon');
+                }
+                if (rule === 'sign-exception' && manglikFrom.includes('lagna')
+                    && (MANGLIK_SIGN_EXCEPTIONS[lagnaHouse] ?? []).includes(marsSign)) {
+                    dosha.cancellations.push(`Mars in ${signName} in the ${ordinal(lagnaHouse)} house`);
+                }
+            }
+            dosha.cancelled = dosha.cancellations.length > 0;
+
+            return dosha;
+        },
+
+        'kaal-sarp': () => {
+            const rahu = longitudeOf('Rahu');
+            const ahead = SEVEN_PLANETS.filter(name => normalizeLongitude(longitudeOf(name) - rahu) < 180);
+            const behind = SEVEN_PLANETS.filter(name => !ahead.includes(name));
+
+            // Planets hemmed from Rahu to Ketu form Kaal Sarp proper; from Ketu to Rahu, Kaal Amrit
+            const [hemmed, outside, severity, span] = ahead.length >= behind.length
+                ? [ahead, behind, 'high' as DoshaSeverity, 'from Rahu to Ketu']
+                : [behind, ahead, 'medium' as DoshaSeverity, 'from Ketu to Rahu (Kaal Amrit)'];
+
+            if (outside.length > 1) return result('kaal-sarp', [], 'none');
+
+            const rahuHouse = houseFrom('Rahu', lagnaRasi);
+            const factors = [
+                `${hemmed.join(', ')} hemmed ${span}`,
+                `Rahu in the ${ordinal(rahuHouse)} house`,
+            ];
+            if (outside.length === 1) {
+                factors.push(`${outside[0]} outside the axis (partial)`);
+            }
+
+            return {
+                ...result('kaal-sarp', factors, outside.length === 1 ? 'low' : severity),
+                variant: KAAL_SARP_VARIANTS[rahuHouse - 1],
+            };
+        },
+
+        'pitra': () => {
+            const factors: string[] = [];
+            for (const other of ['Rahu', 'Ketu', 'Saturn']) {
+                if (isConjunct('Sun', other)) factors.push(`Sun conjunct ${other}`);
+            }
+            for (const node of ['Rahu', 'Ketu']) {
+                if (houseFrom(node, lagnaRasi) === 9) factors.push(`${node} in the 9th house`);
+            }
+
+            const ninthLord = RASHIS[(lagnaRasi + 7) % 12]!.lord.name;
+            if (ninthLord !== 'Sun') {
+                for (const node of ['Rahu', 'Ketu']) {
+                    if (isConjunct(ninthLord, node)) factors.push(`9th lord ${ninthLord} conjunct ${node}`);
+                }
+            }
+
+            return result('pitra', factors, severityOf(factors.length));
+        },
+
+        'grahan': () => {
+            const factors: string[] = [];
+            let close = false;
+            for (const luminary of ['Sun', 'Moon']) {
+                for (const node of ['Rahu', 'Ketu']) {
+                    if (!isConjunct(luminary, node)) continue;
+                    const orb = separation(luminary, node);
+                    close ||= orb <= 12;
+                    factors.push(`${luminary} conjunct ${node} (${orb.toFixed(1)}°)`);
+                }
+            }
+
+            const severity: DoshaSeverity = factors.length === 0 ? 'none'
+                : factors.length > 1 ? 'high'
+                : close ? 'medium' : 'low';
+            return result('grahan', factors, severity);
+        },
+
+        'guru-chandal': () => {
+            if (!isConjunct('Jupiter', 'Rahu')) return result('guru-chandal', [], 'none');
+
+            const orb = separation('Jupiter', 'Rahu');
+            const severity: DoshaSeverity = orb <= 5 ? 'high' : orb <= 15 ? 'medium' : 'low';
+            return result('guru-chandal', [`Jupiter conjunct Rahu (${orb.toFixed(1)}°)`], severity);
+        },
+    };
+
+    return (Object.keys(DOSHA_NAMES) as DoshaName[])
+        .filter(id => doshas.includes(id))
+        .map(id => evaluators[id]());
+}
@@ -12,4 +12,17 @@ describe('@af/sweph-core', () => {
         expect(core.normalizeLongitude).toBeDefined();
         expect(core.julianToDate).toBeDefined();
     });
+
+    it('should map ayanamsa options to sidereal modes', () => {
+        expect(core.getSiderealMode()).toEqual({ mode: core.AyanamsaType.LAHIRI, t0: 0, ayanT0: 0 });
+        expect(core.getSiderealMode(core.AyanamsaType.TRUE_CITRA).mode).toBe(27);
+        expect(core.getSiderealMode({ custom: { t0: 2451545, ayanT0: 23.85 } }))
+            .toEqual({ mode: 255, t0: 2451545, ayanT0: 23.85 });
+        expect(() => core.getSiderealMode(47)).toThrow('Unknown ayanamsa');
+        expect(() => core.getSiderealMode({ custom: { t0: NaN, ayanT0: 0 } })).toThrow('Custom ayanamsa');
+
+        for (const info of core.AYANAMSA_INFO) {
+            expect(core.AyanamsaType[info.id]).toBeDefined();
+        }
+    });
 });
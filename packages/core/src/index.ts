@@ -13,3 +13,33 @@ export * from './constants';
 
 // Pure utility functions
 export * from './utils';
+
+// Dashas
+export * from './dasha';
+
+// Divisional charts
+export * from './varga';
+
+// Ashtakavarga
+export * from './ashtakavarga';
+
+// Shadbala and bhava bala
+export * from './shadbala';
+
+// Yoga detection
+export * from './yoga';
+
+// Aspects and drishti
+export * from './aspects';
+
+// Ashtakoota compatibility
+export * from './compatibility';
+
+// Dosha analysis
+export * from './dosha';
+
+// Krishnamurti Paddhati
+export * from './kp';
+
+// Jaimini
+export * from './jaimini';
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { getCharaKarakas, getArudhaPadas, getCharaDashaYears, getJaiminiDrishti, calculateJaimini } from './jaimini';
+import { planetsAt, lagnaAt } from './__fixtures__/chart';
+
+// Degrees in sign: Sun 25, Moon 12, Mars 8, Mercury 18, Jupiter 3, Venus 22, Saturn 15, Rahu 10 (20 from the end)
+const base = {
+    Sun: 25, Moon: 72, Mars: 128, Mercury: 48, Jupiter: 243, Venus: 202, Saturn: 315, Rahu: 10, Ketu: 190,
+};
+
+describe('getCharaKarakas', () => {
+    it('should rank eight karakas with Rahu counted backwards', () => {
+        const karakas = getCharaKarakas(planetsAt(base));
+
+        expect(karakas.map(k => k.planet)).toEqual(['Sun', 'Venus', 'Rahu', 'Mercury', 'Saturn', 'Moon', 'Mars', 'Jupiter']);
+        expect(karakas.map(k => k.abbreviation)).toEqual(['AK', 'AmK', 'BK', 'MK', 'PiK', 'PK', 'GK', 'DK']);
+        expect(karakas[2]).toMatchObject({ karaka: 'Bhratrikaraka', degree: 20 });
+    });
+
+    it('should rank seven karakas without Rahu', () => {
+        const karakas = getCharaKarakas(planetsAt(base), 7);
+
+        expect(karakas.map(k => k.karaka)).toEqual([
+            'Atmakaraka', 'Amatyakaraka', 'Bhratrikaraka', 'Matrikaraka', 'Putrakaraka', 'Gnatikaraka', 'Darakaraka',
+        ]);
+        expect(karakas.map(k => k.planet)).toEqual(['Sun', 'Venus', 'Mercury', 'Saturn', 'Moon', 'Mars', 'Jupiter']);
+
+        const withoutRahu = planetsAt(base).filter(p => p.name !== 'Rahu');
+        expect(() => getCharaKarakas(withoutRahu)).toThrow('Rahu');
+        expect(getCharaKarakas(withoutRahu, 7)).toHaveLength(7);
+    });
+});
+
+describe('getArudhaPadas', () => {
+    it('should count from the house lord and apply the exceptions', () => {
+        // Aries lagna: Mars in Leo (5th) puts AL in Sagittarius (9th)
+        const padas = getArudhaPadas(planetsAt(base), lagnaAt(5));
+
+        expect(padas).toHaveLength(12);
+        expect(padas[0]).toEqual({ house: 1, label: 'AL', rasi: 9, lord: 'Mars', exception: false });
+        expect(padas.map(p => p.label)).toEqual(['AL', 'A2', 'A3', 'A4', 'A5', 'A6', 'A7', 'A8', 'A9', 'A10', 'A11', 'UL']);
+
+        // 2nd house Taurus: Venus in Libra (6th from it) gives Pisces
+        expect(padas[1]).toMatchObject({ rasi: 12, lord: 'Venus', exception: false });
+        // 4th house Cancer: Moon in Gemini (12th) gives Taurus
+        expect(padas[3]).toMatchObject({ rasi: 2, exception: false });
+        // 7th house Libra: Venus in Libra would give Libra itself, moved to the 10th (Cancer)
+        expect(padas[6]).toMatchObject({ rasi: 4, lord: 'Venus', exception: true });
+        // 12th house Pisces: Jupiter in Sagittarius (10th) would give Virgo, the 7th, moved to Gemini
+        expect(padas[11]).toMatchObject({ label: 'UL', rasi: 3, lord: 'Jupiter', exception: true });
+    });
+
+    it('should take the stronger lord of Scorpio and Aquarius', () => {
+        // Scorpio lagna with Mars in Scorpio: the pada is counted from Ketu in Libra
+        const scorpio = getArudhaPadas(planetsAt({ ...base, Mars: 220 }), lagnaAt(215));
+        expect(scorpio[0]).toMatchObject({ lord: 'Ketu', rasi: 6 });
+
+        // Saturn in Aquarius: Rahu is taken for the 4th house
+        expect(scorpio[3]!.lord).toBe('Rahu');
+
+        // Neither lord in Aquarius; Saturn joined by two planets, Rahu by one
+        const aquarius = getArudhaPadas(planetsAt({ ...base, Saturn: 280, Jupiter: 285, Mercury: 290 }), lagnaAt(215));
+        expect(aquarius[3]!.lord).toBe('Saturn');
+    });
+});
+
+describe('getCharaDashaYears', () => {
+    it('should count to the lord by footedness and adjust for dignity', () => {
+        const planets = planetsAt(base);
+
+        // Aries forwards to Mars in Leo
+        expect(getCharaDashaYears(1, planets)).toBe(4);
+        // Cancer backwards to the Moon in Gemini
+        expect(getCharaDashaYears(4, planets)).toBe(1);
+        // Leo backwards to the Sun exalted in Aries
+        expect(getCharaDashaYears(5, planets)).toBe(5);
+        // Aquarius with Saturn in it counts backwards to Rahu in Cancer
+        expect(getCharaDashaYears(11, planetsAt({ ...base, Rahu: 100 }))).toBe(7);
+        // Lord in its own sign
+        expect(getCharaDashaYears(9, planets)).toBe(12);
+        // Saturn debilitated in Aries
+        expect(getCharaDashaYears(10, planetsAt({ ...base, Saturn: 5 }))).toBe(8);
+    });
+});
+
+describe('getJaiminiDrishti', () => {
+    it('should aspect signs by modality', () => {
+        const drishti = getJaiminiDrishti(planetsAt(base));
+
+        // Sun in Aries (movable) aspects Leo, Scorpio and Aquarius
+        const sun = drishti.find(d => d.planet === 'Sun')!;
+        expect(sun.signs).toEqual([5, 8, 11]);
+        expect(sun.planets).toEqual(['Mars', 'Saturn']);
+        // Jupiter in Sagittarius (dual) aspects the other dual signs
+        expect(drishti.find(d => d.planet === 'Jupiter')!.signs).toEqual([3, 6, 12]);
+    });
+});
+
+describe('calculateJaimini', () => {
+    it('should combine karakas, padas and special lagnas', () => {
+        const jaimini = calculateJaimini(planetsAt(base), lagnaAt(5));
+
+        expect(jaimini.charaKarakas[0]!.planet).toBe('Sun');
+        expect(jaimini.arudhaLagna).toBe(jaimini.arudhaPadas[0]!.rasi);
+        expect(jaimini.upapada).toBe(jaimini.arudhaPadas[11]!.rasi);
+        // Sun at 25° Aries is in the Scorpio navamsa
+        expect(jaimini.karakamsa).toBe(8);
+        expect(jaimini.rashiDrishti).toHaveLength(9);
+
+        expect(calculateJaimini(planetsAt(base), lagnaAt(5), { karakas: 7 }).charaKarakas).toHaveLength(7);
+    });
+});
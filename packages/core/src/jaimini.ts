@@ -0,0 +1,262 @@
+/**
+ * @af/sweph-core - Jaimini
+ *
+ * Chara karakas, arudha padas, upapada, karakamsa, rashi drishti and chara
+ * dasha years of the Jaimini system, from the positions of any adapter.
+ */
+
+import { PLANET_DIGNITIES, RASHIS } from './constants';
+import type {
+    Planet,
+    LagnaInfo,
+    CharaKaraka,
+    CharaKarakaName,
+    ArudhaPada,
+    JaiminiDrishti,
+    JaiminiOptions,
+    JaiminiChart,
+} from './types';
+import { normalizeLongitude, getRashi, getRashiDegree } from './utils';
+import { getRashiDrishti } from './aspects';
+import { calculateVarga } from './varga';
+
+const KARAKA_PLANETS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'];
+
+const KARAKAS: Record<7 | 8, Array<[CharaKarakaName, string]>> = {
+    7: [
+        ['Atmakaraka', 'AK'], ['Amatyakaraka', 'AmK'], ['Bhratrikaraka', 'BK'], ['Matrikaraka', 'MK'],
+        ['Putrakaraka', 'PK'], ['Gnatikaraka', 'GK'], ['Darakaraka', 'DK'],
+    ],
+    8: [
+        ['Atmakaraka', 'AK'], ['Amatyakaraka', 'AmK'], ['Bhratrikaraka', 'BK'], ['Matrikaraka', 'MK'],
+        ['Pitrikaraka', 'PiK'], ['Putrakaraka', 'PK'], ['Gnatikaraka', 'GK'], ['Darakaraka', 'DK'],
+    ],
+};
+
+/**
+ * Node co-ruling the signs with two lords: Scorpio (Mars, Ketu) and Aquarius (Saturn, Rahu)
+ */
+const CO_LORDS: Record<number, string> = { 8: 'Ketu', 11: 'Rahu' };
+
+/**
+ * Odd-footed (savya) signs, counted in the zodiacal direction; the others are counted backwards
+ */
+const SAVYA_SIGNS = [1, 2, 3, 7, 8, 9];
+
+/**
+ * Whether a sign is odd-footed (savya), counted in the zodiacal direction in chara dasha
+ * @param sign - Sign number (1-12)
+ */
+export function isSavyaSign(sign: number): boolean {
+    return SAVYA_SIGNS.includes(sign);
+}
+
+/**
+ * Label of the arudha pada of a house
+ * @internal
+ */
+function padaLabel(house: number): string {
+    if (house === 1) return 'AL';
+    return house === 12 ? 'UL' : `A${house}`;
+}
+
+/**
+ * Sign lookups for Jaimini counts, where Scorpio and Aquarius take the stronger of
+ * their two lords
+ * @internal
+ */
+function signLords(planets: Planet[], context: string) {
+    const byName = new Map(planets.map(p => [p.name, p]));
+    const longitudeOf = (name: string): number | undefined => {
+        const planet = byName.get(name);
+        if (planet) return planet.longitude;
+        // Ketu is opposite Rahu when only the node was calculated
+        if (name === 'Ketu' && byName.has('Rahu')) return normalizeLongitude(byName.get('Rahu')!.longitude + 180);
+        return undefined;
+    };
+    const signOf = (name: string): number => {
+        const longitude = longitudeOf(name);
+        if (longitude === undefined) {
+            throw new Error(`${context} require the position of ${name}`);
+        }
+        return getRashi(longitude);
+    };
+    const companions = (name: string) => planets.filter(p => p.name !== name && getRashi(p.longitude) === signOf(name)).length;
+
+    const lordOf = (sign: number): string => {
+        const lord = RASHIS[sign - 1]!.lord.name;
+        const coLord = CO_LORDS[sign];
+        if (!coLord || longitudeOf(coLord) === undefined) return lord;
+
+        const lordInSign = signOf(lord) === sign;
+        const coLordInSign = signOf(coLord) === sign;
+        if (lordInSign !== coLordInSign) return lordInSign ? coLord : lord;
+
+        const difference = companions(coLord) - companions(lord);
+        if (difference !== 0) return difference > 0 ? coLord : lord;
+        return getRashiDegree(longitudeOf(coLord)!) > getRashiDegree(longitudeOf(lord)!) ? coLord : lord;
+    };
+
+    return { signOf, lordOf };
+}
+
+/**
+ * Rank the planets into chara karakas by their degree in the sign
+ * @param planets - Planet positions with rasiDegree; Rahu is needed for eight karakas
+ * @param karakas - 8 (default) includes Rahu, counted backwards from the end of its
+ *   sign; 7 uses the seven planets
+ * @returns Karakas from Atmakaraka (highest degree) to Darakaraka (lowest)
+ * @throws Error if a planet needed for the scheme is missing
+ * @example
+ * ```typescript
+ * const [atmakaraka] = getCharaKarakas(planets);
+ * console.log(`${atmakaraka.planet} is the Atmakaraka`);
+ * ```
+ */
+export function getCharaKarakas(planets: Planet[], karakas: 7 | 8 = 8): CharaKaraka[] {
+    const names = karakas === 8 ? [...KARAKA_PLANETS, 'Rahu'] : KARAKA_PLANETS;
+
+    const ranked = names.map(name => {
+        const planet = planets.find(p => p.name === name);
+        if (!planet) {
+            throw new Error(`Chara karakas require the position of ${name}`);
+        }
+        const degree = planet.rasiDegree ?? getRashiDegree(planet.longitude);
+        // Rahu moves backwards, so its progress through the sign is counted from the end
+        return { planet: name, degree: name === 'Rahu' ? 30 - degree : degree };
+    }).sort((a, b) => b.degree - a.degree);
+
+    return KARAKAS[karakas].map(([karaka, abbreviation], i) => ({
+        karaka,
+        abbreviation,
+        planet: ranked[i]!.planet,
+        degree: ranked[i]!.degree,
+    }));
+}
+
+/**
+ * Calculate the arudha padas of the twelve houses
+ * @param planets - Planet positions (sidereal)
+ * @param lagna - Lagna from calculateLagna()
+ * @returns Padas of houses 1-12 (AL, A2-A11, UL)
+ * @remarks The pada lies as many signs from the house lord as the lord is from the
+ *   house. A pada falling in the house itself or the 7th from it moves to the 10th
+ *   from there. Scorpio and Aquarius use the stronger of their two lords (Mars or
+ *   Ketu, Saturn or Rahu): the one outside the sign when the other occupies it,
+ *   else the one with more planets, else the one further advanced in its sign.
+ * @throws Error if a house lord is missing from the planets
+ * @example
+ * ```typescript
+ * const padas = getArudhaPadas(planets, lagna);
+ * console.log(`Arudha lagna in ${RASHIS[padas[0].rasi - 1].name}`);
+ * ```
+ */
+export function getArudhaPadas(planets: Planet[], lagna: LagnaInfo): ArudhaPada[] {
+    const { signOf, lordOf } = signLords(planets, 'Arudha padas');
+
+    const lagnaRasi = getRashi(lagna.longitude);
+
+    return Array.from({ length: 12 }, (_, i) => {
+        const house = i + 1;
+        const houseSign = ((lagnaRasi + i - 1) % 12) + 1;
+        const lord = lordOf(houseSign);
+        const lordSign = signOf(lord);
+
+        let rasi = ((2 * lordSign - houseSign - 1 + 24) % 12) + 1;
+        const fromHouse = (rasi - houseSign + 12) % 12;
+        const exception = fromHouse === 0 || fromHouse === 6;
+        if (exception) {
+            rasi = ((rasi + 8) % 12) + 1;
+        }
+
+        return { house, label: padaLabel(house), rasi, lord, exception };
+    });
+}
+
+/**
+ * Length of a sign's chara dasha in the first cycle
+ * @param sign - Sign number (1-12)
+ * @param planets - Planet positions (sidereal); Scorpio and Aquarius also use Ketu and Rahu
+ * @returns Years from 1 to 13: the signs from the sign to its lord, counted forwards
+ *   for odd-footed signs (Aries, Taurus, Gemini, Libra, Scorpio, Sagittarius) and
+ *   backwards for the others, less one
+ * @remarks A lord in its own sign gives 12 years. An exalted lord adds a year and a
+ *   debilitated one takes a year away. Scorpio and Aquarius count to their stronger lord
+ *   as for the arudha padas.
+ * @throws Error if the lord is missing from the planets
+ * @example
+ * ```typescript
+ * const years = getCharaDashaYears(lagna.rasi, planets);
+ * ```
+ */
+export function getCharaDashaYears(sign: number, planets: Planet[]): number {
+    const { signOf, lordOf } = signLords(planets, 'Chara dasha years');
+    const lord = lordOf(sign);
+    const lordSign = signOf(lord);
+
+    const count = isSavyaSign(sign) ? (lordSign - sign + 12) % 12 : (sign - lordSign + 12) % 12;
+    let years = count === 0 ? 12 : count;
+
+    const dignity = PLANET_DIGNITIES.find(d => d.planet.name === lord);
+    if (dignity) {
+        const exaltation = getRashi(dignity.exaltation);
+        if (lordSign === exaltation) years += 1;
+        else if (lordSign === ((exaltation + 5) % 12) + 1) years -= 1;
+    }
+
+    return Math.max(years, 1);
+}
+
+/**
+ * Calculate the Jaimini rashi drishti of each planet
+ * @param planets - Planet positions (sidereal)
+ * @returns For each planet, the signs it aspects from its sign and the planets in them
+ * @example
+ * ```typescript
+ * const drishti = getJaiminiDrishti(planets);
+ * console.log(drishti.find(d => d.planet === 'Jupiter')?.planets);
+ * ```
+ */
+export function getJaiminiDrishti(planets: Planet[]): JaiminiDrishti[] {
+    return planets.map(planet => {
+        const rasi = getRashi(planet.longitude);
+        const signs = getRashiDrishti(rasi);
+        return {
+            planet: planet.name,
+            rasi,
+            signs,
+            planets: planets.filter(p => signs.includes(getRashi(p.longitude))).map(p => p.name),
+        };
+    });
+}
+
+/**
+ * Calculate the Jaimini chart: chara karakas, arudha padas, upapada, karakamsa
+ * and rashi drishti
+ * @param planets - Planet positions (sidereal) with rasiDegree, including Rahu
+ * @param lagna - Lagna from calculateLagna()
+ * @param options - Seven or eight chara karakas
+ * @returns Jaimini chart; the karakamsa is the navamsa sign of the Atmakaraka
+ * @throws Error if a planet needed for the karakas or padas is missing
+ * @example
+ * ```typescript
+ * const jaimini = calculateJaimini(planets, lagna, { karakas: 7 });
+ * console.log(jaimini.charaKarakas[0].planet, jaimini.arudhaLagna, jaimini.upapada, jaimini.karakamsa);
+ * ```
+ */
+export function calculateJaimini(planets: Planet[], lagna: LagnaInfo, options: JaiminiOptions = {}): JaiminiChart {
+    const { karakas = 8 } = options;
+
+    const charaKarakas = getCharaKarakas(planets, karakas);
+    const arudhaPadas = getArudhaPadas(planets, lagna);
+    const atmakaraka = planets.find(p => p.name === charaKarakas[0]!.planet)!;
+
+    return {
+        charaKarakas,
+        arudhaPadas,
+        arudhaLagna: arudhaPadas[0]!.rasi,
+        upapada: arudhaPadas[11]!.rasi,
+        karakamsa: calculateVarga(atmakaraka.longitude, 9).rasi,
+        rashiDrishti: getJaiminiDrishti(planets),
+    };
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { getKPSubs, getKPLords, calculateKPSignificators, getKPRulingPlanets, calculateKPChart } from './kp';
+import { planetsAt, lagnaAt } from './__fixtures__/chart';
+
+// Equal cusps from 0° Aries, so each house is a sign
+const cusps = Array.from({ length: 12 }, (_, i) => i * 30);
+
+describe('getKPSubs', () => {
+    it('should divide the zodiac into 249 subs', () => {
+        const subs = getKPSubs();
+
+        expect(subs).toHaveLength(249);
+        expect(subs[0]).toMatchObject({ number: 1, start: 0, rasi: 1, starLord: 'Ketu', subLord: 'Ketu' });
+        expect(subs[0]!.end).toBeCloseTo(7 / 9, 10);
+        expect(subs[248]!.end).toBeCloseTo(360, 10);
+        for (let i = 1; i < subs.length; i++) {
+            expect(subs[i]!.start).toBeCloseTo(subs[i - 1]!.end, 10);
+            expect(subs[i]!.rasi).toBe(Math.floor(subs[i]!.start / 30 + 1e-9) + 1);
+        }
+        // Six subs cross a sign boundary and are split
+        expect(subs.filter(s => Math.abs(s.start % 30) < 1e-9 && s.subLord === subs[s.number - 2]?.subLord)).toHaveLength(6);
+    });
+});
+
+describe('getKPLords', () => {
+    it('should find the sign, star, sub and sub-sub lords', () => {
+        expect(getKPLords(0)).toEqual({ sub: 1, signLord: 'Mars', starLord: 'Ketu', subLord: 'Ketu', subSubLord: 'Ketu' });
+
+        // 0° Taurus: Krittika (Sun), Rahu sub split at the sign boundary, Saturn sub-sub
+        const taurus = getKPLords(30);
+        expect(taurus).toMatchObject({ signLord: 'Venus', starLord: 'Sun', subLord: 'Rahu', subSubLord: 'Saturn' });
+        expect(getKPLords(29.99).sub).toBe(taurus.sub - 1);
+        expect(getKPLords(29.99).subLord).toBe('Rahu');
+
+        expect(getKPLords(359.99)).toMatchObject({ sub: 249, signLord: 'Jupiter', starLord: 'Mercury', subLord: 'Saturn' });
+    });
+});
+
+describe('calculateKPSignificators', () => {
+    it('should list the four levels for each house', () => {
+        // Sun in Bharani (Venus), Moon in Rohini (Moon), Venus in Vishakha (Jupiter),
+        // Jupiter in Ashwini (Ketu), Ketu in Krittika (Sun)
+        const planets = planetsAt({ Sun: 15, Moon: 45, Venus: 205, Jupiter: 5, Ketu: 28, Uranus: 20 });
+        const significators = calculateKPSignificators(planets, cusps);
+
+        expect(significators).toHaveLength(12);
+        expect(significators[0]).toEqual({
+            house: 1,
+            starOfOccupants: ['Venus', 'Jupiter', 'Ketu'],
+            occupants: ['Sun', 'Jupiter', 'Ketu'],
+            starOfLord: [],
+            lord: 'Mars',
+            all: ['Venus', 'Jupiter', 'Ketu', 'Sun', 'Mars'],
+        });
+        // Libra is ruled by Venus; the Sun is in the star of Venus
+        expect(significators[6]).toMatchObject({ occupants: ['Venus'], starOfOccupants: ['Sun'], starOfLord: ['Sun'], lord: 'Venus' });
+        expect(significators[1]!.starOfOccupants).toEqual(['Moon']);
+    });
+});
+
+describe('getKPRulingPlanets', () => {
+    it('should combine the lagna, Moon and day lords', () => {
+        // Lagna 0° Taurus, Moon in Rohini (Taurus), Thursday
+        const ruling = getKPRulingPlanets(30, 45, 5);
+
+        expect(ruling).toMatchObject({
+            dayLord: 'Jupiter',
+            lagnaSignLord: 'Venus',
+            lagnaStarLord: 'Sun',
+            lagnaSubLord: 'Rahu',
+            moonSignLord: 'Venus',
+            moonStarLord: 'Moon',
+        });
+        expect(ruling.planets).toEqual(['Sun', 'Venus', 'Moon', 'Jupiter']);
+    });
+});
+
+describe('calculateKPChart', () => {
+    it('should give the lords of the cusps and planets', () => {
+        const planets = planetsAt({ Sun: 15, Moon: 45, Venus: 205 });
+        const lagna = lagnaAt(0, { houses: cusps });
+        const chart = calculateKPChart(planets, lagna, 1);
+
+        expect(chart.cusps[1]).toMatchObject({ house: 2, longitude: 30, rasi: 2, nakshatra: 3, subLord: 'Rahu' });
+        expect(chart.planets.find(p => p.name === 'Venus')).toMatchObject({ house: 7, nakshatra: 16, starLord: 'Jupiter' });
+        expect(chart.rulingPlanets.dayLord).toBe('Sun');
+
+        expect(() => calculateKPChart(planetsAt({ Sun: 15 }), lagna, 1)).toThrow('Moon');
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * @af/sweph-core - Krishnamurti Paddhati (KP)
+ *
+ * Star, sub and sub-sub lords from the Vimshottari division of the nakshatras,
+ * four-level house significators and ruling planets. Longitudes are expected
+ * with the Krishnamurti ayanamsa and houses are counted between Placidus cusps.
+ */
+
+import { RASHIS, VIMSHOTTARI_DASHA, VIMSHOTTARI_TOTAL_YEARS, VARAS } from './constants';
+import type {
+    Planet,
+    LagnaInfo,
+    KPSub,
+    KPLords,
+    KPPlanet,
+    KPCusp,
+    KPSignificators,
+    KPRulingPlanets,
+    KPChart,
+} from './types';
+import { normalizeLongitude, getRashi, getNakshatra } from './utils';
+
+const NAKSHATRA_SPAN = 360 / 27;
+const SIGN_SPAN = 30;
+const EPSILON = 1e-9;
+
+/**
+ * The nine grahas that signify houses, in Vimshottari order
+ */
+const KP_PLANETS = VIMSHOTTARI_DASHA.map(entry => entry.planet.name as string);
+
+let subTable: KPSub[] | null = null;
+
+/**
+ * Lord of a division starting from the lord at `index` in the Vimshottari order,
+ * with the start and length of that division
+ * @internal
+ */
+function findDivision(offset: number, span: number, index: number): { index: number; start: number; length: number } {
+    let start = 0;
+    for (let i = 0; i < VIMSHOTTARI_DASHA.length; i++) {
+        const lord = (index + i) % VIMSHOTTARI_DASHA.length;
+        const length = span * VIMSHOTTARI_DASHA[lord]!.years / VIMSHOTTARI_TOTAL_YEARS;
+        if (offset < start + length || i === VIMSHOTTARI_DASHA.length - 1) {
+            return { index: lord, start, length };
+        }
+        start += length;
+    }
+    // Unreachable: the last division is returned inside the loop
+    return { index, start: 0, length: span };
+}
+
+/**
+ * House (1-12) of a longitude between the cusps
+ * @internal
+ */
+function houseOf(longitude: number, cusps: number[]): number {
+    for (let i = 0; i < 12; i++) {
+        const start = cusps[i]!;
+        const end = cusps[(i + 1) % 12]!;
+        if (normalizeLongitude(longitude - start) < normalizeLongitude(end - start)) {
+            return i + 1;
+        }
+    }
+    return 1;
+}
+
+/**
+ * The 249 KP sub divisions of the zodiac
+ * @returns Subs in zodiac order, from 0° Aries; the 243 nakshatra subs with the six
+ *   that cross a sign boundary split in two
+ * @example
+ * ```typescript
+ * const subs = getKPSubs();
+ * console.log(subs.length); // 249
+ * console.log(subs[0]); // { number: 1, start: 0, end: 0.777..., starLord: 'Ketu', subLord: 'Ketu', ... }
+ * ```
+ */
+export function getKPSubs(): KPSub[] {
+    if (subTable) return subTable;
+
+    const subs: KPSub[] = [];
+    for (let nakshatra = 0; nakshatra < 27; nakshatra++) {
+        // Nakshatra lords follow the Vimshottari order from Ashwini
+        const starIndex = nakshatra % VIMSHOTTARI_DASHA.length;
+        let start = nakshatra * NAKSHATRA_SPAN;
+
+        for (let i = 0; i < VIMSHOTTARI_DASHA.length; i++) {
+            const subIndex = (starIndex + i) % VIMSHOTTARI_DASHA.length;
+            const end = i === VIMSHOTTARI_DASHA.length - 1
+                ? (nakshatra + 1) * NAKSHATRA_SPAN
+                : start + NAKSHATRA_SPAN * VIMSHOTTARI_DASHA[subIndex]!.years / VIMSHOTTARI_TOTAL_YEARS;
+
+            // Split the sub where it crosses into the next sign
+            const boundary = (Math.floor(start / SIGN_SPAN + EPSILON) + 1) * SIGN_SPAN;
+            const pieces = end - boundary > EPSILON ? [[start, boundary], [boundary, end]] : [[start, end]];
+
+            for (const [from, to] of pieces) {
+                const rasi = Math.floor(from! / SIGN_SPAN + EPSILON) + 1;
+                subs.push({
+                    number: subs.length + 1,
+                    start: from!,
+                    end: to!,
+                    rasi,
+                    nakshatra: nakshatra + 1,
+                    signLord: RASHIS[rasi - 1]!.lord.name,
+                    starLord: VIMSHOTTARI_DASHA[starIndex]!.planet.name,
+                    subLord: VIMSHOTTARI_DASHA[subIndex]!.planet.name,
+                });
+            }
+            start = end;
+        }
+    }
+
+    subTable = subs;
+    return subs;
+}
+
+/**
+ * Get the KP sign, star, sub and sub-sub lords of a sidereal longitude
+ * @param longitude - Sidereal longitude in degrees (Krishnamurti ayanamsa)
+ * @returns The lords and the number (1-249) of the sub containing the longitude
+ * @example
+ * ```typescript
+ * const lords = getKPLords(moon.longitude);
+ * console.log(`${lords.signLord} / ${lords.starLord} / ${lords.subLord} / ${lords.subSubLord}`);
+ * ```
+ */
+export function getKPLords(longitude: number): KPLords {
+    const lon = normalizeLongitude(longitude);
+    const nakshatra = Math.min(Math.floor(lon / NAKSHATRA_SPAN), 26);
+    const starIndex = nakshatra % VIMSHOTTARI_DASHA.length;
+
+    // Sub-subs divide the whole sub, even where the sub is split at a sign boundary
+    const offset = lon - nakshatra * NAKSHATRA_SPAN;
+    const sub = findDivision(offset, NAKSHATRA_SPAN, starIndex);
+    const subSub = findDivision(offset - sub.start, sub.length, sub.index);
+
+    const subs = getKPSubs();
+    const entry = subs.find(s => lon >= s.start - EPSILON && lon < s.end) ?? subs[subs.length - 1]!;
+
+    return {
+        sub: entry.number,
+        signLord: RASHIS[getRashi(lon) - 1]!.lord.name,
+        starLord: VIMSHOTTARI_DASHA[starIndex]!.planet.name,
+        subLord: VIMSHOTTARI_DASHA[sub.index]!.planet.name,
+        subSubLord: VIMSHOTTARI_DASHA[subSub.index]!.planet.name,
+    };
+}
+
+/**
+ * Calculate the four-level KP significators of the twelve houses
+ * @param planets - Planet positions (Krishnamurti ayanamsa); only the nine grahas are used
+ * @param cusps - The 12 Placidus house cusps
+ * @returns Significators of houses 1-12: planets in the star of the occupants, the
+ *   occupants, planets in the star of the cusp's sign lord and that lord
+ * @example
+ * ```typescript
+ * const significators = calculateKPSignificators(planets, lagna.houses);
+ * console.log(significators[6].all); // Significators of marriage (7th house)
+ * ```
+ */
+export function calculateKPSignificators(planets: Planet[], cusps: number[]): KPSignificators[] {
+    const grahas = planets
+        .filter(p => KP_PLANETS.includes(p.name))
+        .map(p => ({ name: p.name, house: houseOf(p.longitude, cusps), starLord: getKPLords(p.longitude).starLord }));
+
+    const inStarOf = (lords: string[]) => grahas.filter(p => lords.includes(p.starLord)).map(p => p.name);
+
+    return cusps.slice(0, 12).map((cusp, i) => {
+        const occupants = grahas.filter(p => p.house === i + 1).map(p => p.name);
+        const lord = RASHIS[getRashi(cusp) - 1]!.lord.name;
+        const starOfOccupants = inStarOf(occupants);
+        const starOfLord = inStarOf([lord]);
+
+        return {
+            house: i + 1,
+            starOfOccupants,
+            occupants,
+            starOfLord,
+            lord,
+            all: [...new Set([...starOfOccupants, ...occupants, ...starOfLord, lord])],
+        };
+    });
+}
+
+/**
+ * Get the KP ruling planets of a moment
+ * @param ascendant - Sidereal lagna longitude (Krishnamurti ayanamsa)
+ * @param moonLongitude - Sidereal Moon longitude
+ * @param vara - Weekday from sunrise, 1 (Sunday) to 7 (Saturday), as in VARAS
+ * @returns Lords of the lagna and Moon, the day lord and the distinct ruling planets
+ * @example
+ * ```typescript
+ * const ruling = getKPRulingPlanets(lagna.longitude, moon.longitude, panchanga.vara.number);
+ * console.log(ruling.planets);
+ * ```
+ */
+export function getKPRulingPlanets(ascendant: number, moonLongitude: number, vara: number): KPRulingPlanets {
+    const lagna = getKPLords(ascendant);
+    const moon = getKPLords(moonLongitude);
+    const dayLord = VARAS[(((vara - 1) % 7) + 7) % 7]!.lord.name;
+
+    return {
+        dayLord,
+        lagnaSignLord: lagna.signLord,
+        lagnaStarLord: lagna.starLord,
+        lagnaSubLord: lagna.subLord,
+        moonSignLord: moon.signLord,
+        moonStarLord: moon.starLord,
+        moonSubLord: moon.subLord,
+        planets: [...new Set([lagna.starLord, lagna.signLord, moon.starLord, moon.signLord, dayLord])],
+    };
+}
+
+/**
+ * Build a KP chart from planets and Placidus houses
+ * @param planets - Planet positions with the Krishnamurti ayanamsa, including the Moon
+ * @param lagna - Lagna with Placidus cusps, same ayanamsa
+ * @param vara - Weekday from sunrise, 1 (Sunday) to 7 (Saturday), for the ruling planets
+ * @returns Lords of every cusp and planet, house significators and ruling planets
+ * @throws Error if the Moon is missing or the lagna has no house cusps
+ * @example
+ * ```typescript
+ * const chart = calculateKPChart(planets, lagna, panchanga.vara.number);
+ * console.log(chart.cusps[6].subLord); // 7th cusp sub lord
+ * ```
+ */
+export function calculateKPChart(planets: Planet[], lagna: LagnaInfo, vara: number): KPChart {
+    if (lagna.houses.length !== 12) {
+        throw new Error('KP chart requires the 12 house cusps');
+    }
+    const moon = planets.find(p => p.name === 'Moon');
+    if (!moon) {
+        throw new Error('KP chart requires the position of Moon');
+    }
+
+    const cusps: KPCusp[] = lagna.houses.map((longitude, i) => ({
+        house: i + 1,
+        longitude,
+        rasi: getRashi(longitude),
+        nakshatra: getNakshatra(longitude).number,
+        ...getKPLords(longitude),
+    }));
+
+    const kpPlanets: KPPlanet[] = planets.map(p => ({
+        name: p.name,
+        longitude: p.longitude,
+        rasi: getRashi(p.longitude),
+        nakshatra: getNakshatra(p.longitude).number,
+        house: houseOf(p.longitude, lagna.houses),
+        ...getKPLords(p.longitude),
+    }));
+
+    return {
+        cusps,
+        planets: kpPlanets,
+        significators: calculateKPSignificators(planets, lagna.houses),
+        rulingPlanets: getKPRulingPlanets(lagna.longitude, moon.longitude, vara),
+    };
+}
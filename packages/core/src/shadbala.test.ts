@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { calculateShadbala } from './shadbala';
+import { planetAt, planetsAt, lagnaAt } from './__fixtures__/chart';
+
+const planets = planetsAt({
+    Sun: [10, 1],
+    Moon: [100, 13],
+    Mars: [200, -0.2],
+    Mercury: [25, 1.5],
+    Jupiter: [250, 0.08],
+    Venus: [330, 1.2],
+    Saturn: [190, 0.03],
+});
+
+// Ascendant at 10° Cancer with equal cusps, so the 10th cusp is 10° Aries
+const lagna = lagnaAt(100, {
+    houses: Array.from({ length: 12 }, (_, i) => (100 + i * 30) % 360),
+    ayanamsaValue: 24,
+});
+
+// Sunday 2024-01-14, 12:00 local
+const times = {
+    sunrise: new Date('2024-01-14T06:00:00Z'),
+    sunset: new Date('2024-01-14T18:00:00Z'),
+    nextSunrise: new Date('2024-01-15T06:00:00Z'),
+};
+const noon = new Date('2024-01-14T12:00:00Z');
+
+describe('calculateShadbala', () => {
+    const { planets: strengths, bhavas } = calculateShadbala(planets, lagna, noon, times);
+    const strengthOf = (name: string) => strengths.find(s => s.planet === name)!;
+
+    it('should give full uchcha and dig bala to an exalted Sun on the 10th cusp', () => {
+        const sun = strengthOf('Sun');
+
+        expect(sun.sthana.uchcha).toBeCloseTo(60, 6);
+        expect(sun.dig).toBeCloseTo(60, 6);
+        expect(sun.sthana.kendradi).toBe(60);
+    });
+
+    it('should apply the day/night and weekday lords', () => {
+        expect(strengthOf('Sun').kala.nathonnata).toBeCloseTo(60, 6);
+        expect(strengthOf('Moon').kala.nathonnata).toBeCloseTo(0, 6);
+        expect(strengthOf('Mercury').kala.nathonnata).toBe(60);
+
+        // Noon falls in the second third of the day, ruled by the Sun
+        expect(strengthOf('Sun').kala.tribhaga).toBe(60);
+        expect(strengthOf('Jupiter').kala.tribhaga).toBe(60);
+        expect(strengthOf('Mercury').kala.tribhaga).toBe(0);
+
+        expect(strengthOf('Sun').kala.vara).toBe(45);
+        expect(strengths.filter(s => s.kala.hora === 60)).toHaveLength(1);
+        expect(strengths.filter(s => s.kala.masa === 30)).toHaveLength(1);
+        expect(strengths.filter(s => s.kala.varsha === 15)).toHaveLength(1);
+    });
+
+    it('should give retrograde planets full chesta bala', () => {
+        expect(strengthOf('Mars').chesta).toBe(60);
+    });
+
+    it('should settle a planetary war between Mars and Saturn', () => {
+        const northern = calculateShadbala(
+            planets.map(p => p.name === 'Saturn' ? planetAt('Saturn', 200.5, { speed: 0.03, latitude: 1 }) : p),
+            lagna, noon, times
+        ).planets;
+        const mars = northern.find(s => s.planet === 'Mars')!;
+        const saturn = northern.find(s => s.planet === 'Saturn')!;
+
+        expect(saturn.kala.yuddha).toBeGreaterThan(0);
+        expect(mars.kala.yuddha).toBeCloseTo(-saturn.kala.yuddha, 6);
+        expect(strengthOf('Saturn').kala.yuddha).toBe(0);
+    });
+
+    it('should report totals in virupas and rupas with the required ratio', () => {
+        for (const s of strengths) {
+            const sum = s.sthana.total + s.dig + s.kala.total + s.chesta + s.naisargika + s.drik;
+            expect(s.total).toBeCloseTo(sum, 6);
+            expect(s.rupas).toBeCloseTo(s.total / 60, 6);
+            expect(s.ratio).toBeCloseTo(s.rupas / s.required, 6);
+        }
+        expect(strengthOf('Sun').naisargika).toBe(60);
+        expect(strengthOf('Mercury').required).toBe(7);
+    });
+
+    it('should calculate bhava bala for the twelve houses', () => {
+        expect(bhavas).toHaveLength(12);
+
+        // 10th cusp in Aries: lord Mars, a quadruped sign strongest in the 10th
+        const tenth = bhavas[9]!;
+        expect(tenth.lord).toBe('Mars');
+        expect(tenth.adhipati).toBeCloseTo(strengthOf('Mars').total, 6);
+        expect(tenth.dig).toBe(60);
+
+        // 1st cusp in Cancer, a water sign strongest in the 4th
+        expect(bhavas[0]!.dig).toBe(30);
+    });
+
+    it('should throw when a planet is missing', () => {
+        expect(() => calculateShadbala(planets.slice(1), lagna, noon, times)).toThrow('Sun');
+    });
+});
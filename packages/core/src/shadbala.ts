@@ -0,0 +1,453 @@
+/**
+ * @af/sweph-core - Shadbala and Bhava Bala
+ *
+ * Platform-agnostic six-fold planetary strength and house strength (BPHS).
+ * All strengths are in virupas unless stated otherwise (60 virupas = 1 rupa).
+ */
+
+import { PLANET_DIGNITIES, RASHIS, SHADBALA_PLANETS, VARAS } from './constants';
+import type {
+    Planet,
+    LagnaInfo,
+    VargaDivision,
+    ShadbalaTimes,
+    SthanaBala,
+    KalaBala,
+    PlanetShadbala,
+    BhavaBala,
+    Shadbala,
+} from './types';
+import { normalizeLongitude, getRashi } from './utils';
+import { calculateVarga } from './varga';
+
+/**
+ * The seven planets that have shadbala, in traditional order
+ */
+const SHADBALA_GRAHAS = ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn'] as const;
+
+type Graha = typeof SHADBALA_GRAHAS[number];
+
+/**
+ * Vargas used for saptavargaja bala
+ */
+const SAPTAVARGAS: VargaDivision[] = [1, 2, 3, 7, 9, 12, 30];
+
+/**
+ * Saptavargaja strength by compound relationship (-2 = great enemy ... 2 = great friend)
+ */
+const RELATIONSHIP_STRENGTH: Record<number, number> = { [-2]: 2, [-1]: 4, 0: 10, 1: 15, 2: 20 };
+
+/**
+ * Longitude of the cusp (index into lagna houses) where each planet has zero dig bala
+ */
+const DIG_BALA_ZERO_CUSP: Record<Graha, number> = {
+    Sun: 3, Mars: 3,          // strongest on the 10th cusp
+    Jupiter: 6, Mercury: 6,   // strongest on the ascendant
+    Moon: 9, Venus: 9,        // strongest on the 4th cusp
+    Saturn: 0,                // strongest on the 7th cusp
+};
+
+/**
+ * Drekkana (0-2) in which a planet gains drekkana bala, by gender
+ */
+const DREKKANA_BALA: Record<Graha, number> = {
+    Sun: 0, Mars: 0, Jupiter: 0,   // male
+    Mercury: 1, Saturn: 1,         // neuter
+    Moon: 2, Venus: 2,             // female
+};
+
+/**
+ * Mean daily motion in degrees, for chesta bala of the five star planets
+ */
+const MEAN_SPEED: Partial<Record<Graha, number>> = {
+    Mars: 0.524,
+    Mercury: 0.9856,
+    Jupiter: 0.0831,
+    Venus: 0.9856,
+    Saturn: 0.0335,
+};
+
+/**
+ * Planetary hour lords in descending orbital (Chaldean) order
+ */
+const CHALDEAN_ORDER: Graha[] = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon'];
+
+/**
+ * Day-strong planets for nathonnata bala; the Moon, Mars and Saturn are night-strong
+ */
+const DAY_STRONG: Graha[] = ['Sun', 'Jupiter', 'Venus'];
+
+/**
+ * Maximum declination used for ayana bala (classical value)
+ */
+const MAX_DECLINATION = 24;
+
+/**
+ * Mean obliquity of the ecliptic, sufficient for ayana bala
+ */
+const OBLIQUITY = 23.44;
+
+/**
+ * Julian day number of the Kali yuga epoch (Friday, 18 February 3102 BCE)
+ */
+const KALI_EPOCH_DAY = 588466;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+const DEG = Math.PI / 180;
+
+/**
+ * Shortest angular distance between two longitudes (0-180)
+ * @internal
+ */
+function arcDistance(a: number, b: number): number {
+    const d = normalizeLongitude(a - b);
+    return d > 180 ? 360 - d : d;
+}
+
+/**
+ * Dignity entry of one of the seven planets
+ * @internal
+ */
+function getDignity(name: string): typeof PLANET_DIGNITIES[number] {
+    return PLANET_DIGNITIES.find(d => d.planet.name === name)!;
+}
+
+/**
+ * Naisargika (natural) relationship: 1 = friend, 0 = neutral, -1 = enemy
+ * @internal
+ */
+function naturalRelation(planet: string, other: string): number {
+    const dignity = getDignity(planet);
+    if ((dignity.friends as readonly string[]).includes(other)) return 1;
+    if ((dignity.enemies as readonly string[]).includes(other)) return -1;
+    return 0;
+}
+
+/**
+ * Drishti (aspect) value in virupas cast by a point on another point, including
+ * the full special aspects of Mars (4th, 8th), Jupiter (5th, 9th) and Saturn (3rd, 10th)
+ * @internal
+ */
+function getDrishtiValue(aspecting: string, from: number, to: number): number {
+    const d = normalizeLongitude(to - from);
+
+    if (aspecting === 'Mars' && ((d >= 90 && d < 120) || (d >= 210 && d < 240))) return 60;
+    if (aspecting === 'Jupiter' && ((d >= 120 && d < 150) || (d >= 240 && d < 270))) return 60;
+    if (aspecting === 'Saturn' && ((d >= 60 && d < 90) || (d >= 270 && d < 300))) return 60;
+
+    if (d < 30) return 0;
+    if (d < 60) return (d - 30) / 2;
+    if (d < 90) return d - 60 + 15;
+    if (d < 120) return (120 - d) / 2 + 30;
+    if (d < 150) return 150 - d;
+    if (d < 180) return (d - 150) * 2;
+    if (d < 300) return (300 - d) / 2;
+    return 0;
+}
+
+/**
+ * Whether a planet counts as a benefic for paksha, drik and bhava drishti bala
+ * (the Moon is benefic while waxing)
+ * @internal
+ */
+function isBenefic(name: string, elongation: number): boolean {
+    if (name === 'Moon') return elongation < 180;
+    return name === 'Jupiter' || name === 'Venus' || name === 'Mercury';
+}
+
+/**
+ * Sum of the kala bala components that precede graha yuddha
+ * @internal
+ */
+function kalaBeforeYuddha(kala: KalaBala): number {
+    return kala.nathonnata + kala.paksha + kala.tribhaga + kala.varsha + kala.masa +
+        kala.vara + kala.hora + kala.ayana;
+}
+
+/**
+ * Weekday lord of a civil day number (0 = Sunday)
+ * @internal
+ */
+function weekdayLord(dayNumber: number): string {
+    return VARAS[(dayNumber + 1) % 7]!.lord.name;
+}
+
+/**
+ * Sthana (positional) bala of one planet
+ * @internal
+ */
+function calculateSthanaBala(planet: Planet, positions: Map<string, Planet>, lagnaRasi: number): SthanaBala {
+    const name = planet.name as Graha;
+    const dignity = getDignity(name);
+    const rasi = getRashi(planet.longitude);
+
+    const uchcha = arcDistance(planet.longitude, dignity.exaltation + 180) / 3;
+
+    let saptavargaja = 0;
+    for (const division of SAPTAVARGAS) {
+        const vargaRasi = calculateVarga(planet.longitude, division).rasi;
+        const degree = normalizeLongitude(planet.longitude) % 30;
+        const { moolatrikona } = dignity;
+
+        if (division === 1 && rasi === moolatrikona.rasi && degree >= moolatrikona.from && degree < moolatrikona.to) {
+            saptavargaja += 45;
+            continue;
+        }
+        if ((dignity.ownSigns as readonly number[]).includes(vargaRasi)) {
+            saptavargaja += 30;
+            continue;
+        }
+
+        // Compound relationship: natural plus temporal (lord in 2, 3, 4, 10, 11 or 12 from the planet)
+        const lord = RASHIS[vargaRasi - 1]!.lord.name;
+        const lordRasi = getRashi(positions.get(lord)!.longitude);
+        const fromPlanet = ((lordRasi - rasi + 12) % 12) + 1;
+        const temporal = [2, 3, 4, 10, 11, 12].includes(fromPlanet) ? 1 : -1;
+        saptavargaja += RELATIONSHIP_STRENGTH[naturalRelation(name, lord) + temporal]!;
+    }
+
+    const feminine = name === 'Moon' || name === 'Venus';
+    const navamsaRasi = calculateVarga(planet.longitude, 9).rasi;
+    const oddSign = (r: number) => r % 2 === 1;
+    const ojayugmarasyamsa =
+        (oddSign(rasi) !== feminine ? 15 : 0) + (oddSign(navamsaRasi) !== feminine ? 15 : 0);
+
+    const house = ((rasi - lagnaRasi + 12) % 12) + 1;
+    const kendradi = [1, 4, 7, 10].includes(house) ? 60 : [2, 5, 8, 11].includes(house) ? 30 : 15;
+
+    const drekkana = Math.floor((normalizeLongitude(planet.longitude) % 30) / 10) === DREKKANA_BALA[name] ? 15 : 0;
+
+    return {
+        uchcha,
+        saptavargaja,
+        ojayugmarasyamsa,
+        kendradi,
+        drekkana,
+        total: uchcha + saptavargaja + ojayugmarasyamsa + kendradi + drekkana,
+    };
+}
+
+/**
+ * Ayana bala from the planet's declination (before doubling for the Sun)
+ * @internal
+ */
+function calculateAyanaBala(planet: Planet, ayanamsa: number): number {
+    const tropical = normalizeLongitude(planet.longitude + ayanamsa) * DEG;
+    const latitude = (planet.latitude ?? 0) * DEG;
+    const declination = Math.asin(
+        Math.sin(latitude) * Math.cos(OBLIQUITY * DEG) +
+        Math.cos(latitude) * Math.sin(OBLIQUITY * DEG) * Math.sin(tropical)
+    ) / DEG;
+
+    let value: number;
+    if (planet.name === 'Mercury') {
+        value = MAX_DECLINATION + Math.abs(declination);
+    } else if (planet.name === 'Moon' || planet.name === 'Saturn') {
+        value = MAX_DECLINATION - declination;
+    } else {
+        value = MAX_DECLINATION + declination;
+    }
+
+    return Math.min(60, Math.max(0, value * 60 / (2 * MAX_DECLINATION)));
+}
+
+/**
+ * Chesta bala from the planet's speed relative to its mean motion,
+ * using the eight BPHS states of motion
+ * @internal
+ */
+function calculateChestaBala(planet: Planet): number {
+    const mean = MEAN_SPEED[planet.name as Graha]!;
+    const ratio = planet.speed / mean;
+
+    if (ratio < 0) return 60;        // Vakra (retrograde)
+    if (ratio < 0.1) return 15;      // Vikala (stationary)
+    if (ratio < 0.5) return 15;      // Mandatara (slower)
+    if (ratio < 0.9) return 30;      // Manda (slow)
+    if (ratio <= 1.1) return 7.5;    // Sama (mean)
+    if (ratio <= 1.5) return 45;     // Chara (fast)
+    return 30;                       // Atichara (faster)
+}
+
+/**
+ * Sign class of a bhava cusp for bhava dig bala, returned as the house (1, 4, 7, 10)
+ * in which that class is strongest
+ * @internal
+ */
+function getBhavaStrongHouse(longitude: number): number {
+    const rasi = getRashi(longitude);
+    const firstHalf = normalizeLongitude(longitude) % 30 < 15;
+
+    if (rasi === 8) return 7;                                           // Keeta (insect)
+    if ([4, 12].includes(rasi) || (rasi === 10 && !firstHalf)) return 4; // Jalachara (water)
+    if ([3, 6, 7, 11].includes(rasi) || (rasi === 9 && firstHalf)) return 1; // Nara (human)
+    return 10;                                                           // Chatushpada (quadruped)
+}
+
+/**
+ * Calculate shadbala (six-fold strength) of the seven planets and bhava bala of the twelve houses
+ * @param planets - Planet positions from calculatePlanets() (speeds and latitudes are used)
+ * @param lagna - Lagna from calculateLagna(); its house cusps are taken as bhava madhyas
+ * @param date - Moment of the chart, in the same clock as `times`
+ * @param times - Sunrise, sunset and next sunrise bracketing the moment
+ * @returns Strength of each planet with the minimum-required ratio, and of each house
+ * @throws Error if one of the seven planets is missing from `planets`
+ * @example
+ * ```typescript
+ * const { planets: strengths } = calculateShadbala(planets, lagna, birthDate, {
+ *     sunrise, sunset, nextSunrise
+ * });
+ * const weak = strengths.filter(s => s.ratio < 1).map(s => s.planet);
+ * ```
+ */
+export function calculateShadbala(
+    planets: Planet[],
+    lagna: LagnaInfo,
+    date: Date,
+    times: ShadbalaTimes
+): Shadbala {
+    const positions = new Map<string, Planet>();
+    for (const name of SHADBALA_GRAHAS) {
+        const planet = planets.find(p => p.name === name);
+        if (!planet) {
+            throw new Error(`Shadbala requires the position of ${name}`);
+        }
+        positions.set(name, planet);
+    }
+
+    const ayanamsa = lagna.ayanamsaValue ?? 0;
+    const lagnaRasi = getRashi(lagna.longitude);
+    const cusps = lagna.houses.length === 12
+        ? lagna.houses
+        : Array.from({ length: 12 }, (_, i) => normalizeLongitude(lagna.longitude + i * 30));
+
+    const sun = positions.get('Sun')!;
+    const moon = positions.get('Moon')!;
+    const elongation = normalizeLongitude(moon.longitude - sun.longitude);
+    const moonSunDistance = arcDistance(moon.longitude, sun.longitude);
+
+    // Day/night parts of the vara
+    const time = date.getTime();
+    const sunrise = times.sunrise.getTime();
+    const sunset = times.sunset.getTime();
+    const nextSunrise = times.nextSunrise.getTime();
+    const isDay = time < sunset;
+    const noon = (sunrise + sunset) / 2;
+    const dayStrength = Math.max(0, 60 * (1 - Math.abs(time - noon) / (12 * MS_PER_HOUR)));
+    const tribhagaLord = isDay
+        ? ['Mercury', 'Sun', 'Saturn'][Math.min(2, Math.floor(3 * (time - sunrise) / (sunset - sunrise)))]
+        : ['Moon', 'Venus', 'Mars'][Math.min(2, Math.floor(3 * (time - sunset) / (nextSunrise - sunset)))];
+
+    // Lords of the year, month, weekday and hour, counted in civil days from the Kali epoch
+    const dayNumber = Math.floor(sunrise / MS_PER_DAY) + 2440588;
+    const ahargana = dayNumber - KALI_EPOCH_DAY;
+    const varshaLord = weekdayLord(dayNumber - (ahargana % 360));
+    const masaLord = weekdayLord(dayNumber - (ahargana % 30));
+    const varaLord = weekdayLord(dayNumber);
+    const hora = Math.max(0, Math.floor((time - sunrise) / MS_PER_HOUR));
+    const horaLord = CHALDEAN_ORDER[(CHALDEAN_ORDER.indexOf(varaLord as Graha) + hora) % 7];
+
+    const results = SHADBALA_GRAHAS.map(name => {
+        const planet = positions.get(name)!;
+        const constants = SHADBALA_PLANETS.find(p => p.planet.name === name)!;
+
+        const sthana = calculateSthanaBala(planet, positions, lagnaRasi);
+        const dig = arcDistance(planet.longitude, cusps[DIG_BALA_ZERO_CUSP[name]]!) / 3;
+
+        // For paksha bala the Moon always counts as a benefic
+        const paksha = name === 'Moon' || isBenefic(name, elongation)
+            ? moonSunDistance / 3
+            : (180 - moonSunDistance) / 3;
+        const ayana = calculateAyanaBala(planet, ayanamsa) * (name === 'Sun' ? 2 : 1);
+        const kala: KalaBala = {
+            nathonnata: name === 'Mercury' ? 60 : DAY_STRONG.includes(name) ? dayStrength : 60 - dayStrength,
+            paksha,
+            tribhaga: name === 'Jupiter' || name === tribhagaLord ? 60 : 0,
+            varsha: name === varshaLord ? 15 : 0,
+            masa: name === masaLord ? 30 : 0,
+            vara: name === varaLord ? 45 : 0,
+            hora: name === horaLord ? 60 : 0,
+            ayana,
+            yuddha: 0,
+            total: 0,
+        };
+
+        // The Sun's chesta bala is its ayana bala and the Moon's is its paksha bala
+        const chesta = name === 'Sun' ? ayana / 2 : name === 'Moon' ? paksha : calculateChestaBala(planet);
+
+        let drik = 0;
+        for (const other of SHADBALA_GRAHAS) {
+            if (other === name) continue;
+            const value = getDrishtiValue(other, positions.get(other)!.longitude, planet.longitude);
+            drik += isBenefic(other, elongation) ? value : -value;
+        }
+
+        return {
+            planet: name,
+            sthana,
+            dig,
+            kala,
+            chesta,
+            naisargika: constants.naisargika,
+            drik: drik / 4,
+            total: 0,
+            rupas: 0,
+            required: constants.required,
+            ratio: 0,
+        } as PlanetShadbala;
+    });
+
+    // Graha yuddha: star planets within a degree of each other; the northernmost wins
+    const warriors = results.filter(r => r.planet !== 'Sun' && r.planet !== 'Moon');
+    const baseStrength = (r: PlanetShadbala) =>
+        r.sthana.total + r.dig + kalaBeforeYuddha(r.kala);
+    for (let i = 0; i < warriors.length; i++) {
+        for (let j = i + 1; j < warriors.length; j++) {
+            const a = warriors[i]!;
+            const b = warriors[j]!;
+            const planetA = positions.get(a.planet)!;
+            const planetB = positions.get(b.planet)!;
+            if (arcDistance(planetA.longitude, planetB.longitude) >= 1) continue;
+
+            const [winner, loser] = planetA.latitude >= planetB.latitude ? [a, b] : [b, a];
+            const difference = Math.abs(baseStrength(winner) - baseStrength(loser));
+            winner.kala.yuddha += difference;
+            loser.kala.yuddha -= difference;
+        }
+    }
+
+    for (const result of results) {
+        const { kala } = result;
+        kala.total = kalaBeforeYuddha(kala) + kala.yuddha;
+        result.total = result.sthana.total + result.dig + kala.total + result.chesta +
+            result.naisargika + result.drik;
+        result.rupas = result.total / 60;
+        result.ratio = result.rupas / result.required;
+    }
+
+    const bhavas: BhavaBala[] = cusps.map((cusp, index) => {
+        const house = index + 1;
+        const lord = RASHIS[getRashi(cusp) - 1]!.lord.name;
+        const adhipati = results.find(r => r.planet === lord)!.total;
+
+        const distance = Math.abs(house - getBhavaStrongHouse(cusp));
+        const dig = (6 - Math.min(distance, 12 - distance)) * 10;
+
+        // Jupiter and Mercury aspects count in full, others a quarter
+        let drishti = 0;
+        for (const name of SHADBALA_GRAHAS) {
+            const value = getDrishtiValue(name, positions.get(name)!.longitude, cusp);
+            if (name === 'Jupiter' || name === 'Mercury') {
+                drishti += value;
+            } else {
+                drishti += (isBenefic(name, elongation) ? value : -value) / 4;
+            }
+        }
+
+        const total = adhipati + dig + drishti;
+        return { house, cusp, lord, adhipati, dig, drishti, total, rupas: total / 60 };
+    });
+
+    return { planets: results, bhavas };
+}
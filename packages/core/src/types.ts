@@ -40,6 +40,87 @@ export interface AzAltResult {
     error?: string;
 }
 
+/**
+ * Result of swe_sol_eclipse_when_glob calculation (Julian days UT, 0 if the phase does not occur)
+ */
+export interface SolarEclipseWhenResult {
+    /** Eclipse type flags (SE_ECL_*) */
+    rflag: number;
+    maximum: number;
+    /** Time the eclipse is at local apparent noon */
+    noon: number;
+    begin: number;
+    end: number;
+    totalBegin: number;
+    totalEnd: number;
+    centerBegin: number;
+    centerEnd: number;
+    error?: string;
+}
+
+/**
+ * Result of swe_sol_eclipse_where calculation
+ */
+export interface SolarEclipseWhereResult {
+    /** Eclipse type flags (SE_ECL_*) */
+    rflag: number;
+    /** Geographic longitude of the greatest eclipse */
+    longitude: number;
+    /** Geographic latitude of the greatest eclipse */
+    latitude: number;
+    /** Fraction of the solar diameter covered by the Moon */
+    eclipseMagnitude: number;
+    error?: string;
+}
+
+/**
+ * Result of swe_lun_eclipse_when calculation (Julian days UT, 0 if the phase does not occur)
+ */
+export interface LunarEclipseWhenResult {
+    /** Eclipse type flags (SE_ECL_*) */
+    rflag: number;
+    maximum: number;
+    partialBegin: number;
+    partialEnd: number;
+    totalBegin: number;
+    totalEnd: number;
+    penumbralBegin: number;
+    penumbralEnd: number;
+    error?: string;
+}
+
+/**
+ * Result of swe_lun_eclipse_how calculation
+ */
+export interface LunarEclipseHowResult {
+    /** Eclipse type flags (SE_ECL_*) */
+    rflag: number;
+    umbralMagnitude: number;
+    penumbralMagnitude: number;
+    error?: string;
+}
+
+/**
+ * Result of swe_fixstar_ut / swe_fixstar2_ut calculation
+ */
+export interface FixstarResult extends CalcResult {
+    /** Star name as found in the catalog, "traditional name,nomenclature" */
+    name: string;
+    /** Calculation flags actually used */
+    rflag: number;
+}
+
+/**
+ * Result of swe_fixstar2_mag calculation
+ */
+export interface FixstarMagResult {
+    /** Star name as found in the catalog, "traditional name,nomenclature" */
+    name: string;
+    /** Visual magnitude */
+    magnitude: number;
+    error?: string;
+}
+
 // ============================================================================
 // High-Level Domain Types
 // ============================================================================
@@ -74,16 +155,204 @@ export interface Planet {
     isCombust?: boolean;
 }
 
+/**
+ * Lagna (Ascendant) information
+ */
+export interface LagnaInfo {
+    longitude: number;
+    rasi: number;
+    rasiDegree?: number;
+    degree?: number; // Legacy alias
+    nakshatra?: number;
+    nakshatraPada?: number;
+    houses: number[];
+    ayanamsaValue?: number;
+    lagna?: number; // Legacy alias
+    lagnaRasi?: number; // Legacy alias
+    lagnaDegree?: number; // Legacy alias
+    julianDay?: number;
+    /** House system of the cusps (HouseSystem letter) */
+    houseSystem?: string;
+    /**
+     * Why the cusps use another house system than the default, e.g. 'within polar circle,
+     * switched to Porphyry'
+     */
+    houseSystemFallback?: string;
+    /** Daily speed of the 12 house cusps, in degrees per day (0 for whole-sign houses) */
+    houseSpeeds?: number[];
+    /** Daily speed of the ascendant, in degrees per day */
+    ascendantSpeed?: number;
+    /** Midheaven (MC) longitude */
+    mc?: number;
+    /** Daily speed of the MC, in degrees per day */
+    mcSpeed?: number;
+    /** Right ascension of the MC (sidereal time in degrees); not affected by the zodiac */
+    armc?: number;
+    /** Vertex longitude */
+    vertex?: number;
+    /** Equatorial ascendant (East Point) longitude */
+    equatorialAscendant?: number;
+    /** Co-ascendant of Walter Koch */
+    coAscendantKoch?: number;
+    /** Co-ascendant of Michael Munkasey */
+    coAscendantMunkasey?: number;
+    /** Polar ascendant of Michael Munkasey */
+    polarAscendant?: number;
+}
+
+/**
+ * A house of the Bhava Chalit chart: Sripati bhavas between the midpoints of the
+ * Porphyry (bhava madhya) cusps
+ */
+export interface Bhava {
+    /** House number (1-12) */
+    house: number;
+    /** Bhava sandhi where the house begins */
+    start: number;
+    /** Bhava madhya (Porphyry cusp) */
+    madhya: number;
+    /** Bhava sandhi where the next house begins */
+    end: number;
+    /** Names of the planets in the bhava */
+    planets: string[];
+}
+
+/**
+ * Zodiac used for longitudes: sidereal (ayanamsa-corrected) or tropical
+ */
+export type Zodiac = 'sidereal' | 'tropical';
+
+/**
+ * User-defined ayanamsa: its value at a reference epoch, moving with precession from there
+ */
+export interface CustomAyanamsa {
+    custom: {
+        /** Reference epoch (Julian day) */
+        t0: number;
+        /** Ayanamsa at the reference epoch, in degrees */
+        ayanT0: number;
+    };
+}
+
+/**
+ * Ayanamsa for sidereal calculations: an AyanamsaType or a user-defined ayanamsa
+ */
+export type AyanamsaOption = AyanamsaType | number | CustomAyanamsa;
+
 /**
  * Options for planet calculations
  */
 export interface CalculationOptions {
     location?: GeoLocation;
-    ayanamsa?: number;
+    ayanamsa?: AyanamsaOption;
+    /**
+     * Use the true ayanamsa, including nutation, where the ayanamsa value is applied
+     * directly (lagna, houses and reported ayanamsa values); default: mean ayanamsa
+     */
+    trueAyanamsa?: boolean;
+    /** Zodiac for longitudes (default: 'sidereal'); ayanamsa is ignored when tropical */
+    zodiac?: Zodiac;
+    /** House system letter, see HouseSystem (default: PLACIDUS, or PORPHYRIUS inside the polar circles) */
     houseSystem?: string;
     includeOuterPlanets?: boolean;
+    /**
+     * Minor planets to add: names from MINOR_PLANETS ('Ceres', 'Eris') or Swiss
+     * Ephemeris body ids (PlanetId.CHIRON, AST_OFFSET + catalog number)
+     */
+    extraBodies?: Array<number | string>;
 }
 
+/**
+ * Coordinate system of a calculated position
+ */
+export type CoordinateSystem = 'ecliptic' | 'equatorial' | 'cartesian';
+
+/**
+ * Origin of a calculated position
+ */
+export type CoordinateCenter = 'geocentric' | 'heliocentric' | 'barycentric' | 'topocentric';
+
+/**
+ * Options for positions in other coordinate systems and centers
+ */
+export interface PositionOptions<C extends CoordinateSystem = CoordinateSystem> {
+    /** Coordinate system (default: 'ecliptic') */
+    coordinates?: C;
+    /** Origin (default: 'geocentric') */
+    center?: CoordinateCenter;
+    /** Observer for topocentric positions (altitude in meters) */
+    location?: GeoLocation;
+    /** Zodiac for ecliptic longitudes (default: 'sidereal'); equatorial and cartesian positions are not affected */
+    zodiac?: Zodiac;
+    /** Ayanamsa for the sidereal zodiac (default: LAHIRI = 1) */
+    ayanamsa?: AyanamsaOption;
+    /**
+     * Bodies to calculate, as body ids or minor planet names (default: Sun to Pluto;
+     * heliocentric positions use the Earth instead of the Sun)
+     */
+    bodies?: Array<number | string>;
+}
+
+/**
+ * Fields shared by positions in every coordinate system
+ */
+interface BodyPositionBase {
+    /** Swiss Ephemeris body id */
+    id: number;
+    name: string;
+    center: CoordinateCenter;
+}
+
+/**
+ * Ecliptic position in degrees and AU, with daily speeds
+ */
+export interface EclipticPosition extends BodyPositionBase {
+    coordinates: 'ecliptic';
+    longitude: number;
+    latitude: number;
+    distance: number;
+    longitudeSpeed: number;
+    latitudeSpeed: number;
+    distanceSpeed: number;
+}
+
+/**
+ * Equatorial position (right ascension and declination in degrees, distance in AU), with daily speeds
+ */
+export interface EquatorialPosition extends BodyPositionBase {
+    coordinates: 'equatorial';
+    rightAscension: number;
+    declination: number;
+    distance: number;
+    rightAscensionSpeed: number;
+    declinationSpeed: number;
+    distanceSpeed: number;
+}
+
+/**
+ * Rectangular ecliptic position in AU (x towards the vernal point, z towards the
+ * ecliptic north pole), with daily speeds
+ */
+export interface CartesianPosition extends BodyPositionBase {
+    coordinates: 'cartesian';
+    x: number;
+    y: number;
+    z: number;
+    xSpeed: number;
+    ySpeed: number;
+    zSpeed: number;
+}
+
+/**
+ * Position of a body in any coordinate system
+ */
+export type BodyPosition = EclipticPosition | EquatorialPosition | CartesianPosition;
+
+/**
+ * Position type returned for a coordinate system
+ */
+export type PositionFor<C extends CoordinateSystem> = Extract<BodyPosition, { coordinates: C }>;
+
 /**
  * Sun times calculation result
  */
@@ -135,6 +404,870 @@ export interface PlanetRiseSetTimes {
     transitDistance: number;
 }
 
+// ============================================================================
+// Dasha Types
+// ============================================================================
+
+/**
+ * A single dasha period, optionally subdivided into the next level
+ * (mahadasha → antardasha → pratyantardasha → sookshma → prana)
+ */
+export interface DashaPeriod {
+    /** Ruling planet name (e.g. 'Venus'); the sign lord in sign-based dashas */
+    planet: string;
+    /** Name of the period when it is not the planet, e.g. the yogini or the sign */
+    name?: string;
+    /** Sign of the period in sign-based dashas (1-12) */
+    rasi?: number;
+    /** Nesting level: 1 = mahadasha, 2 = antardasha, 3 = pratyantardasha, ... */
+    level: number;
+    start: Date;
+    end: Date;
+    /** Length of the period in dasha years */
+    years: number;
+    subPeriods?: DashaPeriod[];
+}
+
+/**
+ * Options for dasha calculation
+ */
+export interface DashaOptions {
+    /** Days per dasha year (default: 365.25; use 360 for the savana year) */
+    yearLength?: number;
+    /** Number of levels to compute, 1-5 (default: 3 = down to pratyantardasha) */
+    depth?: number;
+}
+
+/**
+ * Vimshottari dasha result
+ */
+export interface VimshottariDasha {
+    /** Sidereal Moon longitude the dasha was seeded from */
+    moonLongitude: number;
+    /** Birth nakshatra number (1-27) */
+    nakshatra: number;
+    /** Dasha balance remaining at birth */
+    balance: {
+        planet: string;
+        years: number;
+        /** Fraction of the first mahadasha still to run (0-1) */
+        fraction: number;
+    };
+    /** Mahadashas covering the full 120-year cycle, starting before birth */
+    periods: DashaPeriod[];
+}
+
+/**
+ * Natal chart a dasha system is seeded from
+ */
+export interface DashaChart {
+    /** Sidereal planet positions, including the Sun and Moon */
+    planets: Planet[];
+    lagna: LagnaInfo;
+    /** Birth date and time */
+    birthDate: Date;
+}
+
+/**
+ * A dasha period before it is placed in time
+ */
+export interface DashaSpan {
+    /** Ruling planet; the sign lord in sign-based dashas */
+    planet: string;
+    /** Name of the period when it is not the planet, e.g. the yogini or the sign */
+    name?: string;
+    /** Sign of the period in sign-based dashas (1-12) */
+    rasi?: number;
+    /** Length in dasha years */
+    years: number;
+    /** Position in the system's own sequence, for systems whose sub-periods depend on it (Kalachakra) */
+    sequence?: number;
+}
+
+/**
+ * Mahadashas of a chart and how far into them the native was born
+ */
+export interface DashaSeed {
+    /** Mahadashas in order, from the one running at birth */
+    periods: DashaSpan[];
+    /** Years of the first mahadasha already elapsed at birth */
+    elapsedYears: number;
+}
+
+/**
+ * Whether a chart meets the conditions of a dasha system
+ */
+export interface DashaApplicability {
+    applicable: boolean;
+    /** Conditions met, or the ones that failed when none is */
+    reasons: string[];
+}
+
+/**
+ * A dasha system. `seed` gives the mahadashas of a chart and `subdivide` the
+ * periods inside any period; calculateDasha() places them in time and nests them.
+ */
+export interface DashaSystem {
+    /** Unique identifier, e.g. 'yogini' */
+    id: string;
+    name: string;
+    description?: string;
+    seed(chart: DashaChart): DashaSeed;
+    /** Sub-periods of a period in order; their years are scaled to fill the period */
+    subdivide(period: DashaSpan): DashaSpan[];
+    /** Conditions for using the system; omitted when it applies to every chart */
+    isApplicable?(chart: DashaChart): DashaApplicability;
+}
+
+/**
+ * Dasha calculated by a registered system
+ */
+export interface DashaResult {
+    /** Identifier of the system */
+    system: string;
+    name: string;
+    /** Period running at birth and the part of it still to run */
+    balance: {
+        planet: string;
+        name?: string;
+        years: number;
+        /** Fraction of the period still to run (0-1) */
+        fraction: number;
+    };
+    /** Mahadashas, starting before birth */
+    periods: DashaPeriod[];
+    applicability: DashaApplicability;
+}
+
+// ============================================================================
+// Divisional Chart (Varga) Types
+// ============================================================================
+
+/**
+ * Parashari shodasavarga divisions
+ */
+export type VargaDivision = 1 | 2 | 3 | 4 | 7 | 9 | 10 | 12 | 16 | 20 | 24 | 27 | 30 | 40 | 45 | 60;
+
+/**
+ * Divisional chart code (e.g. 'D9' for Navamsa)
+ */
+export type VargaChartType = `D${VargaDivision}`;
+
+/**
+ * Varga calculation scheme
+ * - 'parashara': sign rules from BPHS (odd/even and movable/fixed/dual starts, unequal D30)
+ * - 'parivritti': cyclic division where each part maps to the next sign in zodiacal order
+ */
+export type VargaVariant = 'parashara' | 'parivritti';
+
+/**
+ * Options for divisional chart calculations
+ */
+export interface VargaOptions {
+    /** Calculation scheme (default: 'parashara') */
+    variant?: VargaVariant;
+}
+
+/**
+ * Position of a point in a divisional chart
+ */
+export interface VargaPosition {
+    /** Varga sign number (1-12) */
+    rasi: number;
+    /** Degree within the varga sign (0-30), scaled from the position within the division */
+    rasiDegree: number;
+    /** Varga longitude (0-360) */
+    longitude: number;
+}
+
+/**
+ * Planet placement in a divisional chart
+ */
+export interface VargaPlanet extends VargaPosition {
+    id: string;
+    name: string;
+    /** Whole-sign house counted from the varga lagna (1-12) */
+    house: number;
+}
+
+/**
+ * A complete divisional chart
+ */
+export interface DivisionalChart {
+    division: VargaDivision;
+    /** Chart name (e.g. 'Navamsa') */
+    name: string;
+    lagna: VargaPosition;
+    planets: VargaPlanet[];
+}
+
+// ============================================================================
+// Ashtakavarga Types
+// ============================================================================
+
+/**
+ * Options for ashtakavarga calculation
+ */
+export interface AshtakavargaOptions {
+    /** Apply trikona shodhana (trine reduction) to each bhinnashtakavarga */
+    trikonaShodhana?: boolean;
+    /** Apply ekadhipatya shodhana (reduction for signs with the same lord), after trikona shodhana */
+    ekadhipatyaShodhana?: boolean;
+}
+
+/**
+ * Bhinnashtakavarga (individual bindu table) of one planet or the lagna
+ */
+export interface BhinnashtakavargaTable {
+    /** Planet name, or 'Lagna' */
+    planet: string;
+    /** Bindus per sign (index 0 = Aries) */
+    bindus: number[];
+    /** Bindus per sign after the requested shodhana reductions */
+    reducedBindus?: number[];
+    /** Per-contributor bindus per sign (1 = bindu, 0 = rekha), keyed by contributor name */
+    contributions: Record<string, number[]>;
+    total: number;
+}
+
+/**
+ * Ashtakavarga result
+ */
+export interface Ashtakavarga {
+    /** Bhinnashtakavarga of Sun through Saturn followed by the Lagna */
+    bhinna: BhinnashtakavargaTable[];
+    /** Sarvashtakavarga bindus per sign (sum of the seven planetary tables, index 0 = Aries) */
+    sarva: number[];
+    /** Sarvashtakavarga total (337) */
+    sarvaTotal: number;
+    /** Sarvashtakavarga of the reduced tables, when a shodhana option is enabled */
+    reducedSarva?: number[];
+}
+
+// ============================================================================
+// Shadbala Types
+// ============================================================================
+
+/**
+ * Sunrise and sunset bracketing a moment, for the day/night parts of kala bala
+ */
+export interface ShadbalaTimes {
+    /** Sunrise starting the vara (weekday) of the moment */
+    sunrise: Date;
+    sunset: Date;
+    /** Sunrise ending the vara */
+    nextSunrise: Date;
+}
+
+/**
+ * Positional strength components, in virupas
+ */
+export interface SthanaBala {
+    /** Exaltation strength (0-60) */
+    uchcha: number;
+    /** Dignity in the seven vargas D1, D2, D3, D7, D9, D12, D30 */
+    saptavargaja: number;
+    /** Odd/even rasi and navamsa strength (0-30) */
+    ojayugmarasyamsa: number;
+    /** Kendra 60, panaphara 30, apoklima 15 */
+    kendradi: number;
+    /** Drekkana strength by planet gender (0 or 15) */
+    drekkana: number;
+    total: number;
+}
+
+/**
+ * Temporal strength components, in virupas
+ */
+export interface KalaBala {
+    /** Day/night strength (Mercury always 60) */
+    nathonnata: number;
+    /** Lunar fortnight strength */
+    paksha: number;
+    /** Strength of the ruler of the third of the day or night (Jupiter always 60) */
+    tribhaga: number;
+    /** Lord of the year (15) */
+    varsha: number;
+    /** Lord of the month (30) */
+    masa: number;
+    /** Lord of the weekday (45) */
+    vara: number;
+    /** Lord of the planetary hour (60) */
+    hora: number;
+    /** Declination strength (doubled for the Sun) */
+    ayana: number;
+    /** Gain or loss from a planetary war */
+    yuddha: number;
+    total: number;
+}
+
+/**
+ * Six-fold strength of one planet
+ */
+export interface PlanetShadbala {
+    planet: string;
+    sthana: SthanaBala;
+    /** Directional strength (0-60) */
+    dig: number;
+    kala: KalaBala;
+    /** Motional strength (0-60) */
+    chesta: number;
+    /** Natural strength */
+    naisargika: number;
+    /** Aspectual strength (may be negative) */
+    drik: number;
+    /** Total strength in virupas */
+    total: number;
+    /** Total strength in rupas (60 virupas = 1 rupa) */
+    rupas: number;
+    /** Minimum required strength in rupas */
+    required: number;
+    /** rupas / required; 1 or more means the planet is strong enough */
+    ratio: number;
+}
+
+/**
+ * Strength of one house (bhava), in virupas
+ */
+export interface BhavaBala {
+    /** House number (1-12) */
+    house: number;
+    /** Sidereal longitude of the house cusp (bhava madhya) */
+    cusp: number;
+    /** Lord of the sign on the cusp */
+    lord: string;
+    /** Shadbala of the house lord */
+    adhipati: number;
+    /** Directional strength from the sign on the cusp (0-60) */
+    dig: number;
+    /** Aspects of the planets on the cusp (may be negative) */
+    drishti: number;
+    total: number;
+    rupas: number;
+}
+
+/**
+ * Shadbala result for the seven planets and the twelve houses
+ */
+export interface Shadbala {
+    planets: PlanetShadbala[];
+    bhavas: BhavaBala[];
+}
+
+// ============================================================================
+// Yoga Types
+// ============================================================================
+
+/**
+ * Built-in yoga categories; custom rules may use any other string
+ */
+export type YogaCategory =
+    | 'mahapurusha'
+    | 'lunar'
+    | 'solar'
+    | 'raja'
+    | 'dhana'
+    | 'viparita-raja'
+    | 'neecha-bhanga'
+    | (string & {});
+
+/**
+ * Chart queries available to yoga rules. Houses are whole-sign houses counted
+ * from the lagna (1-12) and signs are rasi numbers (1-12).
+ */
+export interface YogaContext {
+    readonly planets: Planet[];
+    readonly lagna: LagnaInfo;
+    /** Planet by name, or undefined if it was not calculated */
+    planet(name: string): Planet | undefined;
+    /** Rasi occupied by a planet */
+    signOf(name: string): number;
+    /** House occupied by a planet, counted from the lagna */
+    houseOf(name: string): number;
+    /** House occupied by a planet, counted from another planet's sign (1 = same sign) */
+    houseFrom(name: string, reference: string): number;
+    /** Names of the planets in a house */
+    planetsInHouse(house: number): string[];
+    /** Lord of the sign on a house */
+    lordOf(house: number): string;
+    /** Houses (1-12) whose signs are ruled by a planet */
+    housesRuledBy(name: string): number[];
+    isKendra(house: number): boolean;
+    isTrikona(house: number): boolean;
+    isDusthana(house: number): boolean;
+    isExalted(name: string): boolean;
+    isDebilitated(name: string): boolean;
+    isOwnSign(name: string): boolean;
+    /** Whether two planets occupy the same sign */
+    isConjunct(a: string, b: string): boolean;
+    /** Whether a planet casts a graha drishti (sign aspect) on a house */
+    aspectsHouse(name: string, house: number): boolean;
+    /** Whether two planets aspect each other */
+    mutualAspect(a: string, b: string): boolean;
+    /** Whether two planets occupy each other's signs (parivartana) */
+    isExchange(a: string, b: string): boolean;
+}
+
+/**
+ * One occurrence of a yoga with the factors that formed it
+ */
+export interface YogaMatch {
+    /** Planets that trigger the yoga */
+    planets: string[];
+    /** Houses involved, counted from the lagna */
+    houses: number[];
+    /** Extra detail, e.g. the association type */
+    note?: string;
+}
+
+/**
+ * A yoga definition. `detect` receives the chart queries and returns every
+ * occurrence of the yoga, or an empty array / null if it is absent.
+ */
+export interface YogaRule {
+    /** Unique identifier, e.g. 'gaja-kesari' */
+    id: string;
+    name: string;
+    category: YogaCategory;
+    description?: string;
+    detect(context: YogaContext): YogaMatch[] | YogaMatch | null;
+}
+
+/**
+ * A yoga present in a chart
+ */
+export interface YogaResult extends YogaMatch {
+    id: string;
+    name: string;
+    category: YogaCategory;
+    description?: string;
+}
+
+/**
+ * Options for yoga detection
+ */
+export interface YogaOptions {
+    /** Only evaluate rules in these categories */
+    categories?: YogaCategory[];
+    /** Evaluate these rules instead of the registered catalog */
+    rules?: YogaRule[];
+}
+
+// ============================================================================
+// Aspect Types
+// ============================================================================
+
+/**
+ * Western aspect names
+ */
+export type AspectName =
+    | 'conjunction'
+    | 'opposition'
+    | 'trine'
+    | 'square'
+    | 'sextile'
+    | 'quincunx'
+    | 'semi-sextile'
+    | 'semi-square'
+    | 'sesquiquadrate'
+    | 'quintile'
+    | 'biquintile';
+
+/**
+ * Options for aspect calculation
+ */
+export interface AspectOptions {
+    /** Ascendant longitude, included as the point 'Ascendant' */
+    ascendant?: number;
+    /** Midheaven longitude, included as the point 'MC' */
+    mc?: number;
+    /** Western aspects to look for (default: the five major aspects) */
+    aspects?: AspectName[];
+    /** Orb per aspect in degrees, overriding the defaults in WESTERN_ASPECTS */
+    orbs?: Partial<Record<AspectName, number>>;
+    /** Include the 1/4, 1/2 and 3/4 partial graha drishti (default: true) */
+    partialDrishti?: boolean;
+}
+
+/**
+ * Western aspect between two points
+ */
+export interface WesternAspect {
+    /** Earlier point in chart order */
+    from: string;
+    to: string;
+    aspect: AspectName;
+    /** Exact angle of the aspect in degrees */
+    angle: number;
+    /** Angular separation of the points (0-180°) */
+    separation: number;
+    /** Distance from exact in degrees */
+    orb: number;
+    /** 1 when exact, falling to 0 at the edge of the orb */
+    exactness: number;
+    /** Whether the orb is narrowing, from the points' speeds; points without speed are treated as fixed */
+    applying: boolean;
+    /** Whether the aspect is one of the five major (Ptolemaic) aspects */
+    major: boolean;
+}
+
+/**
+ * Graha drishti (Vedic planetary aspect) cast by a planet on a point, by sign
+ */
+export interface GrahaDrishti {
+    from: string;
+    to: string;
+    /** Sign of the aspected point counted from the aspecting planet (1 = same sign) */
+    house: number;
+    /** Strength of the aspect: 1 (full), 0.75, 0.5 or 0.25 */
+    strength: number;
+    /** Whether this is a special full aspect of Mars, Jupiter or Saturn */
+    special: boolean;
+}
+
+/**
+ * Jaimini rashi drishti between points in mutually aspecting signs
+ */
+export interface RashiDrishti {
+    from: string;
+    to: string;
+    fromSign: number;
+    toSign: number;
+}
+
+/**
+ * Aspects between the planets (and angles) of a chart
+ */
+export interface AspectResult {
+    /** Western aspects, one per pair of points within orb */
+    western: WesternAspect[];
+    /** Graha drishti of each planet, in planet order */
+    grahaDrishti: GrahaDrishti[];
+    /** Rashi drishti; being mutual, each pair of points is listed once */
+    rashiDrishti: RashiDrishti[];
+}
+
+// ============================================================================
+// Compatibility Types
+// ============================================================================
+
+/**
+ * The eight kootas of Ashtakoota (Guna Milan) matching
+ */
+export type KootaName = 'varna' | 'vashya' | 'tara' | 'yoni' | 'graha-maitri' | 'gana' | 'bhakoot' | 'nadi';
+
+/**
+ * Moon position of one partner, as used for matching
+ */
+export interface MoonProfile {
+    longitude: number;
+    rasi: number;
+    nakshatra: number;
+    pada: number;
+}
+
+/**
+ * Score of one koota
+ */
+export interface KootaScore {
+    name: KootaName;
+    score: number;
+    maximum: number;
+    /** Classification of the bride's Moon for this koota, e.g. 'Brahmin' or 'Horse' */
+    bride: string;
+    /** Classification of the groom's Moon for this koota */
+    groom: string;
+}
+
+/**
+ * A matching dosha found in the kootas, with the rules that cancel it
+ */
+export interface CompatibilityDosha {
+    name: 'nadi' | 'bhakoot';
+    /** Whether at least one standard cancellation applies */
+    cancelled: boolean;
+    /** Descriptions of the cancellations that apply */
+    cancellations: string[];
+}
+
+/**
+ * One of the ten South Indian poruthams
+ */
+export interface Porutham {
+    name: string;
+    matched: boolean;
+    /** Rajju and Vedha are essential: a mismatch is generally not accepted */
+    essential: boolean;
+}
+
+/**
+ * Options for compatibility matching
+ */
+export interface CompatibilityOptions {
+    /** Also evaluate the South Indian 10 porutham system (default: false) */
+    porutham?: boolean;
+}
+
+/**
+ * Ashtakoota compatibility result
+ */
+export interface Compatibility {
+    bride: MoonProfile;
+    groom: MoonProfile;
+    /** Scores of the eight kootas, Varna through Nadi */
+    kootas: KootaScore[];
+    /** Sum of the koota scores, out of 36 */
+    total: number;
+    maximum: number;
+    /** Nadi and Bhakoot doshas present, whether or not cancelled */
+    doshas: CompatibilityDosha[];
+    /** The ten poruthams, when requested */
+    porutham?: Porutham[];
+}
+
+// ============================================================================
+// Dosha Types
+// ============================================================================
+
+/**
+ * Doshas evaluated by analyzeDoshas()
+ */
+export type DoshaName = 'manglik' | 'kaal-sarp' | 'pitra' | 'grahan' | 'guru-chandal';
+
+/**
+ * Severity of a dosha; 'none' when it is absent
+ */
+export type DoshaSeverity = 'none' | 'low' | 'medium' | 'high';
+
+/**
+ * Manglik dosha cancellation rules:
+ * - 'own-or-exalted': Mars in Aries, Scorpio or Capricorn
+ * - 'jupiter': Mars conjunct or aspected by Jupiter
+ * - 'moon': Mars conjunct the Moon
+ * - 'sign-exception': Mars in a Manglik house from the lagna in the sign excepted for that house
+ */
+export type ManglikCancellation = 'own-or-exalted' | 'jupiter' | 'moon' | 'sign-exception';
+
+/**
+ * Options for dosha analysis
+ */
+export interface DoshaOptions {
+    /** Doshas to evaluate (default: all) */
+    doshas?: DoshaName[];
+    /** Houses of Mars that give Manglik dosha (default: [1, 2, 4, 7, 8, 12]) */
+    manglikHouses?: number[];
+    /** Points the Manglik houses are counted from (default: lagna, Moon and Venus) */
+    manglikFrom?: Array<'lagna' | 'moon' | 'venus'>;
+    /** Manglik cancellation rules to apply (default: all) */
+    manglikCancellations?: ManglikCancellation[];
+}
+
+/**
+ * A dosha evaluated in a chart
+ */
+export interface DoshaResult {
+    id: DoshaName;
+    name: string;
+    present: boolean;
+    severity: DoshaSeverity;
+    /** Placements that form the dosha */
+    factors: string[];
+    /** Whether a cancellation rule applies (Manglik dosha only) */
+    cancelled: boolean;
+    /** Descriptions of the cancellation rules that apply */
+    cancellations: string[];
+    /** Named variant, e.g. the Kaal Sarp variant from Rahu's house */
+    variant?: string;
+}
+
+// ============================================================================
+// KP (Krishnamurti Paddhati) Types
+// ============================================================================
+
+/**
+ * One of the 249 KP sub divisions: the subs of the nakshatras in Vimshottari
+ * proportion, split where they cross a sign boundary
+ */
+export interface KPSub {
+    /** Sub number (1-249) */
+    number: number;
+    /** Sidereal longitude where the sub begins */
+    start: number;
+    /** Sidereal longitude where the sub ends */
+    end: number;
+    /** Sign number (1-12) */
+    rasi: number;
+    /** Nakshatra number (1-27) */
+    nakshatra: number;
+    signLord: string;
+    starLord: string;
+    subLord: string;
+}
+
+/**
+ * Sign, star, sub and sub-sub lords of a longitude
+ */
+export interface KPLords {
+    /** Sub number (1-249) */
+    sub: number;
+    signLord: string;
+    starLord: string;
+    subLord: string;
+    subSubLord: string;
+}
+
+/**
+ * A planet in the KP chart
+ */
+export interface KPPlanet extends KPLords {
+    name: string;
+    longitude: number;
+    rasi: number;
+    nakshatra: number;
+    /** House occupied, counted between the Placidus cusps */
+    house: number;
+}
+
+/**
+ * A house cusp in the KP chart
+ */
+export interface KPCusp extends KPLords {
+    /** House number (1-12) */
+    house: number;
+    longitude: number;
+    rasi: number;
+    nakshatra: number;
+}
+
+/**
+ * KP significators of a house, from the strongest level to the weakest
+ */
+export interface KPSignificators {
+    /** House number (1-12) */
+    house: number;
+    /** Level 1: planets in the star of the occupants */
+    starOfOccupants: string[];
+    /** Level 2: planets occupying the house */
+    occupants: string[];
+    /** Level 3: planets in the star of the house lord */
+    starOfLord: string[];
+    /** Level 4: lord of the sign on the cusp */
+    lord: string;
+    /** All significators in level order, without repeats */
+    all: string[];
+}
+
+/**
+ * KP ruling planets of a moment
+ */
+export interface KPRulingPlanets {
+    /** Lord of the weekday, counted from sunrise */
+    dayLord: string;
+    lagnaSignLord: string;
+    lagnaStarLord: string;
+    lagnaSubLord: string;
+    moonSignLord: string;
+    moonStarLord: string;
+    moonSubLord: string;
+    /**
+     * Distinct ruling planets from the strongest: lagna star lord, lagna sign lord,
+     * Moon star lord, Moon sign lord and day lord
+     */
+    planets: string[];
+}
+
+/**
+ * KP chart: lords of the cusps and planets, house significators and ruling planets
+ */
+export interface KPChart {
+    cusps: KPCusp[];
+    planets: KPPlanet[];
+    significators: KPSignificators[];
+    rulingPlanets: KPRulingPlanets;
+}
+
+// ============================================================================
+// Jaimini Types
+// ============================================================================
+
+/**
+ * Chara karakas from the highest degree to the lowest; Pitrikaraka only in the
+ * eight-karaka scheme
+ */
+export type CharaKarakaName =
+    | 'Atmakaraka'
+    | 'Amatyakaraka'
+    | 'Bhratrikaraka'
+    | 'Matrikaraka'
+    | 'Pitrikaraka'
+    | 'Putrakaraka'
+    | 'Gnatikaraka'
+    | 'Darakaraka';
+
+/**
+ * A chara karaka and the planet holding it
+ */
+export interface CharaKaraka {
+    karaka: CharaKarakaName;
+    /** Short name, e.g. 'AK' */
+    abbreviation: string;
+    planet: string;
+    /** Degree in the sign used for the ranking; 30 minus the degree for Rahu */
+    degree: number;
+}
+
+/**
+ * Arudha pada of a house
+ */
+export interface ArudhaPada {
+    /** House number (1-12) */
+    house: number;
+    /** 'AL' (arudha lagna), 'A2' to 'A11', or 'UL' (upapada) */
+    label: string;
+    /** Sign of the pada (1-12) */
+    rasi: number;
+    /** Lord of the house used for the count */
+    lord: string;
+    /** Whether the pada was moved to the 10th from its place (1st or 7th from the house) */
+    exception: boolean;
+}
+
+/**
+ * Jaimini rashi drishti cast by a planet from its sign
+ */
+export interface JaiminiDrishti {
+    planet: string;
+    rasi: number;
+    /** Signs aspected (1-12) */
+    signs: number[];
+    /** Planets in the aspected signs */
+    planets: string[];
+}
+
+/**
+ * Options for Jaimini calculations
+ */
+export interface JaiminiOptions {
+    /** Number of chara karakas: 8 including Rahu, or 7 without (default: 8) */
+    karakas?: 7 | 8;
+}
+
+/**
+ * Jaimini chart: chara karakas, arudha padas, special lagnas and rashi drishti
+ */
+export interface JaiminiChart {
+    charaKarakas: CharaKaraka[];
+    /** Arudha padas of houses 1-12 */
+    arudhaPadas: ArudhaPada[];
+    /** Sign of the arudha lagna (AL) */
+    arudhaLagna: number;
+    /** Sign of the upapada (UL), the arudha of the 12th house */
+    upapada: number;
+    /** Navamsa sign of the Atmakaraka */
+    karakamsa: number;
+    rashiDrishti: JaiminiDrishti[];
+}
+
 // ============================================================================
 // Platform Adapter Interface
 // ============================================================================
@@ -180,6 +1313,27 @@ export interface ISwephAdapter {
         xin: number[]
     ): AzAltResult;
 
+    // Eclipses
+    swe_sol_eclipse_when_glob(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): SolarEclipseWhenResult | { error: string };
+    swe_sol_eclipse_where(tjd_ut: number, ifl: number): SolarEclipseWhereResult | { error: string };
+    swe_lun_eclipse_when(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): LunarEclipseWhenResult | { error: string };
+    swe_lun_eclipse_how(tjd_ut: number, ifl: number, geopos: number[]): LunarEclipseHowResult | { error: string };
+
+    // Fixed stars (star is a traditional name, ",nomenclature" or catalog line number)
+    swe_fixstar_ut(star: string, tjd_ut: number, iflag: number): FixstarResult | { error: string };
+    swe_fixstar2_ut(star: string, tjd_ut: number, iflag: number): FixstarResult | { error: string };
+    swe_fixstar2_mag(star: string): FixstarMagResult | { error: string };
+
     // Version info
     swe_version?(): string;
 
@@ -210,7 +1364,7 @@ export interface ISwephInstance {
     calculatePlanetRiseSetTimes(planetId: number, date: Date, location: GeoLocation): PlanetRiseSetTimes;
 
     // Utility methods
-    getAyanamsa(date: Date, ayanamsaType?: number): number;
+    getAyanamsa(date: Date, ayanamsa?: AyanamsaOption, trueAyanamsa?: boolean): number;
     dateToJulian(date: Date): number;
     julianToDate(jd: number, timezoneOffset?: number): Date;
 }
@@ -239,6 +1393,12 @@ export enum PlanetId {
     OSCU_APOGEE = 13,
     EARTH = 14,
     CHIRON = 15,
+    PHOLUS = 16,
+    CERES = 17,
+    PALLAS = 18,
+    JUNO = 19,
+    VESTA = 20,
+    ECL_NUT = -1,      // Obliquity and nutation (SE_ECL_NUT)
 }
 
 /**
@@ -266,6 +1426,34 @@ export enum AyanamsaType {
     J2000 = 18,
     J1900 = 19,
     B1950 = 20,
+    SURYASIDDHANTA = 21,
+    SURYASIDDHANTA_MSUN = 22,
+    ARYABHATA = 23,
+    ARYABHATA_MSUN = 24,
+    SS_REVATI = 25,
+    SS_CITRA = 26,
+    TRUE_CITRA = 27,
+    TRUE_REVATI = 28,
+    TRUE_PUSHYA = 29,
+    GALCENT_RGILBRAND = 30,
+    GALEQU_IAU1958 = 31,
+    GALEQU_TRUE = 32,
+    GALEQU_MULA = 33,
+    GALALIGN_MARDYKS = 34,
+    TRUE_MULA = 35,
+    GALCENT_MULA_WILHELM = 36,
+    ARYABHATA_522 = 37,
+    BABYL_BRITTON = 38,
+    TRUE_SHEORAN = 39,
+    GALCENT_COCHRANE = 40,
+    GALEQU_FIORENZA = 41,
+    VALENS_MOON = 42,
+    LAHIRI_1940 = 43,
+    LAHIRI_VP285 = 44,
+    KRISHNAMURTI_VP291 = 45,
+    LAHIRI_ICRC = 46,
+    /** User-defined ayanamsa, see CustomAyanamsa */
+    USER = 255,
 }
 
 /**
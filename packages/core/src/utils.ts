@@ -6,6 +6,8 @@
  */
 
 import { JULIAN_UNIX_EPOCH } from './constants';
+import { AyanamsaType } from './types';
+import type { AyanamsaOption } from './types';
 
 /**
  * Normalize ecliptic longitude to 0-360° range
@@ -102,3 +104,29 @@ export function formatLongitude(longitude: number): string {
     const rashi = rashiNames[getRashi(longitude) - 1];
     return `${dms.degrees}°${dms.minutes}'${dms.seconds}" ${rashi}`;
 }
+
+/**
+ * Arguments for swe_set_sid_mode from an ayanamsa option
+ * @param ayanamsa - AyanamsaType, or `{ custom: { t0, ayanT0 } }` for a user-defined ayanamsa
+ * @returns Sidereal mode with the reference epoch and value (0 for predefined ayanamsas)
+ * @throws Error if the ayanamsa is not a known AyanamsaType or the custom values are not finite
+ * @example
+ * ```typescript
+ * const { mode, t0, ayanT0 } = getSiderealMode({ custom: { t0: 2451545, ayanT0: 23.85 } });
+ * sweph.swe_set_sid_mode(mode, t0, ayanT0);
+ * ```
+ */
+export function getSiderealMode(ayanamsa: AyanamsaOption = AyanamsaType.LAHIRI): { mode: number; t0: number; ayanT0: number } {
+    if (typeof ayanamsa === 'object') {
+        const { t0, ayanT0 } = ayanamsa.custom;
+        if (!Number.isFinite(t0) || !Number.isFinite(ayanT0)) {
+            throw new Error('Custom ayanamsa requires a finite t0 and ayanT0');
+        }
+        return { mode: AyanamsaType.USER, t0, ayanT0 };
+    }
+
+    if (ayanamsa === AyanamsaType.USER || AyanamsaType[ayanamsa] === undefined) {
+        throw new Error(`Unknown ayanamsa: ${ayanamsa}`);
+    }
+    return { mode: ayanamsa, t0: 0, ayanT0: 0 };
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { calculateVarga, calculateVargaChart } from './varga';
+import { planetsAt } from './__fixtures__/chart';
+
+describe('calculateVarga', () => {
+    it('should return the D1 sign unchanged', () => {
+        expect(calculateVarga(45, 1)).toEqual({ rasi: 2, rasiDegree: 15, longitude: 45 });
+    });
+
+    it('should follow movable/fixed/dual starts for Navamsa', () => {
+        expect(calculateVarga(1, 9).rasi).toBe(1);    // Aries -> Aries
+        expect(calculateVarga(31, 9).rasi).toBe(10);  // Taurus -> Capricorn
+        expect(calculateVarga(61, 9).rasi).toBe(7);   // Gemini -> Libra
+        expect(calculateVarga(359, 9).rasi).toBe(12); // Last navamsa of Pisces
+    });
+
+    it('should assign Parashari hora to Leo and Cancer', () => {
+        expect(calculateVarga(10, 2).rasi).toBe(5);  // Aries 1st half -> Sun
+        expect(calculateVarga(20, 2).rasi).toBe(4);  // Aries 2nd half -> Moon
+        expect(calculateVarga(40, 2).rasi).toBe(4);  // Taurus 1st half -> Moon
+        expect(calculateVarga(50, 2).rasi).toBe(5);  // Taurus 2nd half -> Sun
+    });
+
+    it('should support the parivritti variant', () => {
+        expect(calculateVarga(20, 2, { variant: 'parivritti' }).rasi).toBe(2);
+        expect(calculateVarga(40, 2, { variant: 'parivritti' }).rasi).toBe(3);
+        expect(calculateVarga(25, 3, { variant: 'parivritti' }).rasi).toBe(3);
+    });
+
+    it('should step through trines for Drekkana', () => {
+        expect(calculateVarga(5, 3).rasi).toBe(1);
+        expect(calculateVarga(15, 3).rasi).toBe(5);
+        expect(calculateVarga(25, 3).rasi).toBe(9);
+    });
+
+    it('should use unequal Trimsamsa segments for odd and even signs', () => {
+        expect(calculateVarga(4, 30).rasi).toBe(1);    // Aries 0-5 -> Mars (Aries)
+        expect(calculateVarga(12, 30).rasi).toBe(9);   // Aries 10-18 -> Jupiter (Sagittarius)
+        expect(calculateVarga(32, 30).rasi).toBe(2);   // Taurus 0-5 -> Venus (Taurus)
+        expect(calculateVarga(58, 30).rasi).toBe(8);   // Taurus 25-30 -> Mars (Scorpio)
+    });
+
+    it('should scale the degree within the division', () => {
+        const navamsa = calculateVarga(1 + 2 / 3, 9);
+        expect(navamsa.rasiDegree).toBeCloseTo(15);
+    });
+});
+
+describe('calculateVargaChart', () => {
+    it('should place planets in whole-sign houses from the varga lagna', () => {
+        const planets = planetsAt({ Sun: 31, Moon: 1 });
+
+        const chart = calculateVargaChart(planets, 61, 9);
+
+        expect(chart.name).toBe('Navamsa');
+        expect(chart.lagna.rasi).toBe(7);
+        expect(chart.planets[0]!.rasi).toBe(10);
+        expect(chart.planets[0]!.house).toBe(4);
+        expect(chart.planets[1]!.house).toBe(7);
+    });
+});
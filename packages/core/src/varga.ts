@@ -0,0 +1,166 @@
+/**
+ * @af/sweph-core - Divisional Charts (Vargas)
+ *
+ * Platform-agnostic shodasavarga calculations following BPHS.
+ */
+
+import { VARGAS } from './constants';
+import type {
+    Planet,
+    VargaDivision,
+    VargaOptions,
+    VargaPosition,
+    VargaPlanet,
+    DivisionalChart,
+} from './types';
+import { normalizeLongitude } from './utils';
+
+/**
+ * Trimsamsa segments for odd and even signs: [end degree, sign index (0 = Aries)]
+ * Odd: Mars 5°, Saturn 5°, Jupiter 8°, Mercury 7°, Venus 5°; even signs reverse the order
+ */
+const TRIMSAMSA_ODD: ReadonlyArray<[number, number]> = [[5, 0], [10, 10], [18, 8], [25, 2], [30, 6]];
+const TRIMSAMSA_EVEN: ReadonlyArray<[number, number]> = [[5, 1], [12, 5], [20, 11], [25, 9], [30, 7]];
+
+/**
+ * Starting sign (0-based) of the first division for a given D1 sign under BPHS rules
+ * @internal
+ */
+function getParashariStart(division: VargaDivision, signIndex: number): number {
+    const isOdd = signIndex % 2 === 0;
+    // 0 = movable (chara), 1 = fixed (sthira), 2 = dual (dwiswabhava)
+    const modality = signIndex % 3;
+
+    switch (division) {
+        case 1:
+        case 3:
+        case 4:
+        case 12:
+        case 60:
+            return signIndex;
+        case 7:
+            return isOdd ? signIndex : signIndex + 6;
+        case 9:
+            return [signIndex, signIndex + 8, signIndex + 4][modality]!;
+        case 10:
+            return isOdd ? signIndex : signIndex + 8;
+        case 16:
+        case 45:
+            return [0, 4, 8][modality]!;
+        case 20:
+            return [0, 8, 4][modality]!;
+        case 24:
+            return isOdd ? 4 : 3;
+        case 27:
+            return [0, 3, 6, 9][signIndex % 4]!;
+        case 40:
+            return isOdd ? 0 : 6;
+        default:
+            return signIndex;
+    }
+}
+
+/**
+ * Build a varga position from a sign index and the fraction traversed within the division
+ * @internal
+ */
+function toPosition(signIndex: number, fraction: number): VargaPosition {
+    const sign = ((signIndex % 12) + 12) % 12;
+    const rasiDegree = fraction * 30;
+    return {
+        rasi: sign + 1,
+        rasiDegree,
+        longitude: sign * 30 + rasiDegree,
+    };
+}
+
+/**
+ * Calculate the position of a longitude in a divisional chart
+ * @param longitude - Sidereal ecliptic longitude in degrees
+ * @param division - Varga division (1, 2, 3, 4, 7, 9, 10, 12, 16, 20, 24, 27, 30, 40, 45, 60)
+ * @param options - Calculation scheme (BPHS or parivritti)
+ * @returns Varga sign, degree within the sign and varga longitude
+ * @example
+ * ```typescript
+ * const navamsa = calculateVarga(moon.longitude, 9);
+ * console.log(`Moon navamsa: ${RASHIS[navamsa.rasi - 1].name}`);
+ * ```
+ */
+export function calculateVarga(
+    longitude: number,
+    division: VargaDivision,
+    options: VargaOptions = {}
+): VargaPosition {
+    const { variant = 'parashara' } = options;
+    const norm = normalizeLongitude(longitude);
+    const signIndex = Math.floor(norm / 30);
+    const degree = norm % 30;
+
+    if (variant === 'parivritti') {
+        const part = Math.floor(norm * division / 30);
+        return toPosition(part, (norm * division / 30) - part);
+    }
+
+    if (division === 2) {
+        // Odd signs: Sun's hora (Leo) then Moon's hora (Cancer); even signs the reverse
+        const firstHalf = degree < 15;
+        const isOdd = signIndex % 2 === 0;
+        const sign = firstHalf === isOdd ? 4 : 3;
+        return toPosition(sign, (degree % 15) / 15);
+    }
+
+    if (division === 30) {
+        const segments = signIndex % 2 === 0 ? TRIMSAMSA_ODD : TRIMSAMSA_EVEN;
+        let segmentStart = 0;
+        for (const [segmentEnd, sign] of segments) {
+            if (degree < segmentEnd) {
+                return toPosition(sign, (degree - segmentStart) / (segmentEnd - segmentStart));
+            }
+            segmentStart = segmentEnd;
+        }
+    }
+
+    const partSize = 30 / division;
+    const part = Math.min(Math.floor(degree / partSize), division - 1);
+    const fraction = (degree - part * partSize) / partSize;
+
+    // Drekkana and Chaturthamsa step through trines and kendras rather than consecutive signs
+    const step = division === 3 ? 4 : division === 4 ? 3 : 1;
+
+    return toPosition(getParashariStart(division, signIndex) + part * step, fraction);
+}
+
+/**
+ * Calculate a complete divisional chart from D1 planets and lagna
+ * @param planets - Planet positions from calculatePlanets()
+ * @param lagnaLongitude - Sidereal ascendant longitude
+ * @param division - Varga division
+ * @param options - Calculation scheme (BPHS or parivritti)
+ * @returns Divisional chart with varga lagna and whole-sign houses for each planet
+ */
+export function calculateVargaChart(
+    planets: Planet[],
+    lagnaLongitude: number,
+    division: VargaDivision,
+    options: VargaOptions = {}
+): DivisionalChart {
+    const lagna = calculateVarga(lagnaLongitude, division, options);
+    const info = VARGAS.find(v => v.division === division);
+
+    const vargaPlanets: VargaPlanet[] = planets.map(planet => {
+        const position = calculateVarga(planet.longitude, division, options);
+        return {
+            id: planet.id,
+            name: planet.name,
+            ...position,
+            house: ((position.rasi - lagna.rasi + 12) % 12) + 1,
+        };
+    });
+
+    return {
+        division,
+        name: info?.name ?? `D${division}`,
+        lagna,
+        planets: vargaPlanets,
+    };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { detectYogas, registerYoga, unregisterYoga, getYogaRules, createYogaContext, CLASSICAL_YOGAS } from './yoga';
+import { planetsAt, lagnaAt } from './__fixtures__/chart';
+
+// Aries lagna
+const lagna = lagnaAt(5);
+const planets = planetsAt({
+    Sun: 200,      // Libra, 7th, debilitated
+    Moon: 100,     // Cancer, 4th
+    Mars: 280,     // Capricorn, 10th, exalted
+    Mercury: 170,  // Virgo, 6th (6th lord in the 6th)
+    Jupiter: 95,   // Cancer, 4th, exalted
+    Venus: 330,    // Pisces, 12th
+    Saturn: 10,    // Aries, 1st, debilitated
+    Rahu: 50,
+    Ketu: 230,
+});
+
+describe('createYogaContext', () => {
+    const ctx = createYogaContext(planets, lagna);
+
+    it('should count whole-sign houses and lordships from the lagna', () => {
+        expect(ctx.houseOf('Mars')).toBe(10);
+        expect(ctx.houseFrom('Jupiter', 'Moon')).toBe(1);
+        expect(ctx.lordOf(9)).toBe('Jupiter');
+        expect(ctx.housesRuledBy('Mars')).toEqual([1, 8]);
+        expect(ctx.planetsInHouse(4)).toEqual(['Moon', 'Jupiter']);
+    });
+
+    it('should report dignities and aspects', () => {
+        expect(ctx.isExalted('Jupiter')).toBe(true);
+        expect(ctx.isDebilitated('Saturn')).toBe(true);
+        expect(ctx.isOwnSign('Mars')).toBe(false);
+        // Mars in Capricorn aspects the 1st (4th from it), 4th (7th) and 5th (8th)
+        expect(ctx.aspectsHouse('Mars', 1)).toBe(true);
+        expect(ctx.aspectsHouse('Mars', 4)).toBe(true);
+        expect(ctx.aspectsHouse('Mars', 2)).toBe(false);
+        expect(ctx.mutualAspect('Mars', 'Moon')).toBe(true);
+    });
+});
+
+describe('detectYogas', () => {
+    afterEach(() => {
+        unregisterYoga('sun-in-seventh');
+    });
+
+    it('should detect classical yogas with their triggering factors', () => {
+        const yogas = detectYogas(planets, lagna);
+        const ids = yogas.map(y => y.id);
+
+        expect(ids).toContain('hamsa');
+        expect(ids).toContain('ruchaka');
+        expect(ids).not.toContain('malavya');
+
+        const gajaKesari = yogas.find(y => y.id === 'gaja-kesari')!;
+        expect(gajaKesari.planets).toEqual(['Jupiter', 'Moon']);
+        expect(gajaKesari.houses).toEqual([4, 4]);
+
+        const harsha = yogas.find(y => y.id === 'harsha')!;
+        expect(harsha.planets).toEqual(['Mercury']);
+        expect(harsha.houses).toEqual([6, 6]);
+    });
+
+    it('should detect raja yogas from kendra and trikona lords', () => {
+        const raja = detectYogas(planets, lagna, { categories: ['raja'] });
+
+        // 4th lord Moon with 9th lord Jupiter
+        expect(raja).toContainEqual(expect.objectContaining({
+            id: 'raja',
+            planets: ['Moon', 'Jupiter'],
+            houses: [4, 9],
+            note: 'conjunction',
+        }));
+        expect(raja.every(y => y.category === 'raja')).toBe(true);
+    });
+
+    it('should cancel debilitation from a kendra', () => {
+        const neechaBhanga = detectYogas(planets, lagna, { categories: ['neecha-bhanga'] });
+
+        // Saturn in Aries: its lord Mars is in the 10th
+        expect(neechaBhanga).toContainEqual(expect.objectContaining({ planets: ['Saturn', 'Mars'] }));
+        // Sun in Libra: Mars (lord of its exaltation sign) and Saturn (exalted in Libra) in kendras,
+        // but not Venus in the 12th
+        expect(neechaBhanga).toContainEqual(expect.objectContaining({ planets: ['Sun', 'Mars'] }));
+        expect(neechaBhanga).toContainEqual(expect.objectContaining({ planets: ['Sun', 'Saturn'] }));
+        expect(neechaBhanga).not.toContainEqual(expect.objectContaining({ planets: ['Sun', 'Venus'] }));
+    });
+
+    it('should evaluate registered custom rules', () => {
+        registerYoga({
+            id: 'sun-in-seventh',
+            name: 'Sun in the 7th',
+            category: 'custom',
+            detect: ctx => ctx.houseOf('Sun') === 7 ? { planets: ['Sun'], houses: [7] } : null,
+        });
+
+        expect(getYogaRules().map(r => r.id)).toContain('sun-in-seventh');
+        expect(detectYogas(planets, lagna, { categories: ['custom'] })).toEqual([{
+            id: 'sun-in-seventh',
+            name: 'Sun in the 7th',
+            category: 'custom',
+            description: undefined,
+            planets: ['Sun'],
+            houses: [7],
+        }]);
+
+        unregisterYoga('sun-in-seventh');
+        expect(getYogaRules()).toHaveLength(CLASSICAL_YOGAS.length);
+    });
+
+    it('should accept an explicit rule set', () => {
+        const yogas = detectYogas(planets, lagna, { rules: CLASSICAL_YOGAS.filter(r => r.id === 'hamsa') });
+        expect(yogas.map(y => y.id)).toEqual(['hamsa']);
+    });
+});
@@ -0,0 +1,368 @@
+/**
+ * @af/sweph-core - Yoga Detection
+ *
+ * Rule-based detection of classical yogas. The catalog is a registry of
+ * YogaRule objects, so applications can add their own rules at runtime.
+ */
+
+import { PLANET_DIGNITIES, RASHIS } from './constants';
+import type {
+    Planet,
+    LagnaInfo,
+    YogaContext,
+    YogaMatch,
+    YogaRule,
+    YogaResult,
+    YogaOptions,
+} from './types';
+import { getRashi } from './utils';
+
+const KENDRAS = [1, 4, 7, 10];
+const TRIKONAS = [1, 5, 9];
+const DUSTHANAS = [6, 8, 12];
+
+/**
+ * Houses aspected by each planet in addition to the 7th
+ */
+const SPECIAL_ASPECTS: Record<string, number[]> = {
+    Mars: [4, 8],
+    Jupiter: [5, 9],
+    Saturn: [3, 10],
+};
+
+/**
+ * Count of signs from one rasi to another (1 = same sign)
+ * @internal
+ */
+function signDistance(from: number, to: number): number {
+    return ((to - from + 12) % 12) + 1;
+}
+
+/**
+ * Build the chart queries passed to yoga rules
+ * @param planets - Planet positions from calculatePlanets()
+ * @param lagna - Lagna from calculateLagna()
+ * @returns Context with house, lordship, dignity and aspect helpers
+ */
+export function createYogaContext(planets: Planet[], lagna: LagnaInfo): YogaContext {
+    const lagnaRasi = getRashi(lagna.longitude);
+    const byName = new Map(planets.map(p => [p.name, p]));
+
+    const signOf = (name: string): number => {
+        const planet = byName.get(name);
+        if (!planet) {
+            throw new Error(`Yoga detection requires the position of ${name}`);
+        }
+        return getRashi(planet.longitude);
+    };
+    const houseOf = (name: string) => signDistance(lagnaRasi, signOf(name));
+    const houseSign = (house: number) => ((lagnaRasi - 1 + house - 1) % 12) + 1;
+    const dignity = (name: string) => PLANET_DIGNITIES.find(d => d.planet.name === name);
+    const exaltationSign = (name: string) => {
+        const entry = dignity(name);
+        return entry ? Math.floor(entry.exaltation / 30) + 1 : 0;
+    };
+    const aspectsSign = (name: string, sign: number) => {
+        const distance = signDistance(signOf(name), sign);
+        return distance === 7 || (SPECIAL_ASPECTS[name] ?? []).includes(distance);
+    };
+
+    return {
+        planets,
+        lagna,
+        planet: name => byName.get(name),
+        signOf,
+        houseOf,
+        houseFrom: (name, reference) => signDistance(signOf(reference), signOf(name)),
+        planetsInHouse: house => planets
+            .filter(p => signDistance(lagnaRasi, getRashi(p.longitude)) === house)
+            .map(p => p.name),
+        lordOf: house => RASHIS[houseSign(house) - 1]!.lord.name,
+        housesRuledBy: name => Array.from({ length: 12 }, (_, i) => i + 1)
+            .filter(house => RASHIS[houseSign(house) - 1]!.lord.name === name),
+        isKendra: house => KENDRAS.includes(house),
+        isTrikona: house => TRIKONAS.includes(house),
+        isDusthana: house => DUSTHANAS.includes(house),
+        isExalted: name => exaltationSign(name) === signOf(name),
+        isDebilitated: name => {
+            const sign = exaltationSign(name);
+            return sign > 0 && ((sign + 5) % 12) + 1 === signOf(name);
+        },
+        isOwnSign: name => ((dignity(name)?.ownSigns ?? []) as readonly number[]).includes(signOf(name)),
+        isConjunct: (a, b) => signOf(a) === signOf(b),
+        aspectsHouse: (name, house) => aspectsSign(name, houseSign(house)),
+        mutualAspect: (a, b) => aspectsSign(a, signOf(b)) && aspectsSign(b, signOf(a)),
+        isExchange: (a, b) =>
+            RASHIS[signOf(a) - 1]!.lord.name === b && RASHIS[signOf(b) - 1]!.lord.name === a,
+    };
+}
+
+/**
+ * Conjunction, mutual aspect or exchange between two planets, or null if unrelated
+ * @internal
+ */
+function association(ctx: YogaContext, a: string, b: string): string | null {
+    if (ctx.isConjunct(a, b)) return 'conjunction';
+    if (ctx.isExchange(a, b)) return 'exchange';
+    if (ctx.mutualAspect(a, b)) return 'mutual aspect';
+    return null;
+}
+
+/**
+ * Matches for every associated pair of distinct lords drawn from two sets of houses
+ * @internal
+ */
+function lordCombinations(ctx: YogaContext, housesA: number[], housesB: number[]): YogaMatch[] {
+    const matches: YogaMatch[] = [];
+    const seen = new Set<string>();
+
+    for (const houseA of housesA) {
+        for (const houseB of housesB) {
+            const lordA = ctx.lordOf(houseA);
+            const lordB = ctx.lordOf(houseB);
+            if (houseA === houseB || lordA === lordB) continue;
+
+            const key = [lordA, lordB].sort().join('-');
+            if (seen.has(key)) continue;
+
+            const note = association(ctx, lordA, lordB);
+            if (note) {
+                seen.add(key);
+                matches.push({ planets: [lordA, lordB], houses: [houseA, houseB], note });
+            }
+        }
+    }
+
+    return matches;
+}
+
+/**
+ * Pancha Mahapurusha rule for one planet
+ * @internal
+ */
+function mahapurusha(id: string, name: string, planet: string, description: string): YogaRule {
+    return {
+        id,
+        name,
+        category: 'mahapurusha',
+        description,
+        detect: ctx => {
+            const house = ctx.houseOf(planet);
+            if (!ctx.isKendra(house) || !(ctx.isOwnSign(planet) || ctx.isExalted(planet))) return null;
+            return {
+                planets: [planet],
+                houses: [house],
+                note: ctx.isExalted(planet) ? 'exalted' : 'own sign',
+            };
+        },
+    };
+}
+
+/**
+ * Viparita Raja rule for the lord of one dusthana
+ * @internal
+ */
+function viparita(id: string, name: string, house: number): YogaRule {
+    return {
+        id,
+        name,
+        category: 'viparita-raja',
+        description: `Lord of the ${house}th house placed in the 6th, 8th or 12th house`,
+        detect: ctx => {
+            const lord = ctx.lordOf(house);
+            const placed = ctx.houseOf(lord);
+            return ctx.isDusthana(placed) ? { planets: [lord], houses: [house, placed] } : null;
+        },
+    };
+}
+
+/**
+ * Classical yogas registered by default
+ */
+export const CLASSICAL_YOGAS: readonly YogaRule[] = [
+    mahapurusha('ruchaka', 'Ruchaka Yoga', 'Mars', 'Mars in a kendra in its own or exaltation sign'),
+    mahapurusha('bhadra', 'Bhadra Yoga', 'Mercury', 'Mercury in a kendra in its own or exaltation sign'),
+    mahapurusha('hamsa', 'Hamsa Yoga', 'Jupiter', 'Jupiter in a kendra in its own or exaltation sign'),
+    mahapurusha('malavya', 'Malavya Yoga', 'Venus', 'Venus in a kendra in its own or exaltation sign'),
+    mahapurusha('sasa', 'Sasa Yoga', 'Saturn', 'Saturn in a kendra in its own or exaltation sign'),
+    {
+        id: 'gaja-kesari',
+        name: 'Gaja Kesari Yoga',
+        category: 'lunar',
+        description: 'Jupiter in a kendra from the Moon',
+        detect: ctx => KENDRAS.includes(ctx.houseFrom('Jupiter', 'Moon'))
+            ? { planets: ['Jupiter', 'Moon'], houses: [ctx.houseOf('Jupiter'), ctx.houseOf('Moon')] }
+            : null,
+    },
+    {
+        id: 'chandra-mangala',
+        name: 'Chandra Mangala Yoga',
+        category: 'lunar',
+        description: 'Moon and Mars in the same sign',
+        detect: ctx => ctx.isConjunct('Moon', 'Mars')
+            ? { planets: ['Moon', 'Mars'], houses: [ctx.houseOf('Moon')] }
+            : null,
+    },
+    {
+        id: 'kemadruma',
+        name: 'Kemadruma Yoga',
+        category: 'lunar',
+        description: 'No planet other than the Sun and the nodes in the 2nd or 12th from the Moon',
+        detect: ctx => {
+            const flanking = ['Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn']
+                .filter(name => ctx.planet(name) && [2, 12].includes(ctx.houseFrom(name, 'Moon')));
+            return flanking.length === 0 ? { planets: ['Moon'], houses: [ctx.houseOf('Moon')] } : null;
+        },
+    },
+    {
+        id: 'budha-aditya',
+        name: 'Budha Aditya Yoga',
+        category: 'solar',
+        description: 'Sun and Mercury in the same sign',
+        detect: ctx => ctx.isConjunct('Sun', 'Mercury')
+            ? { planets: ['Sun', 'Mercury'], houses: [ctx.houseOf('Sun')] }
+            : null,
+    },
+    {
+        id: 'raja',
+        name: 'Raja Yoga',
+        category: 'raja',
+        description: 'Lords of a kendra and a trikona associated by conjunction, exchange or mutual aspect',
+        detect: ctx => lordCombinations(ctx, KENDRAS, TRIKONAS),
+    },
+    {
+        id: 'yogakaraka',
+        name: 'Yogakaraka',
+        category: 'raja',
+        description: 'One planet ruling both a kendra and a trikona other than the lagna',
+        detect: ctx => {
+            const matches: YogaMatch[] = [];
+            for (const planet of ['Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn']) {
+                const ruled = ctx.housesRuledBy(planet);
+                const kendra = ruled.find(h => h !== 1 && ctx.isKendra(h));
+                const trikona = ruled.find(h => h !== 1 && ctx.isTrikona(h));
+                if (kendra && trikona) {
+                    matches.push({ planets: [planet], houses: [kendra, trikona] });
+                }
+            }
+            return matches;
+        },
+    },
+    {
+        id: 'dhana',
+        name: 'Dhana Yoga',
+        category: 'dhana',
+        description: 'Lords of the 1st, 2nd, 5th, 9th and 11th houses associated by conjunction, exchange or mutual aspect',
+        detect: ctx => lordCombinations(ctx, [1, 2, 5, 9, 11], [1, 2, 5, 9, 11]),
+    },
+    viparita('harsha', 'Harsha Yoga', 6),
+    viparita('sarala', 'Sarala Yoga', 8),
+    viparita('vimala', 'Vimala Yoga', 12),
+    {
+        id: 'neecha-bhanga',
+        name: 'Neecha Bhanga Raja Yoga',
+        category: 'neecha-bhanga',
+        description: 'Debilitation cancelled by the lord of the debilitation or exaltation sign, ' +
+            'or the planet exalted there, occupying a kendra from the lagna or the Moon',
+        detect: ctx => {
+            const matches: YogaMatch[] = [];
+            for (const { planet, exaltation } of PLANET_DIGNITIES) {
+                if (!ctx.planet(planet.name) || !ctx.isDebilitated(planet.name)) continue;
+
+                const debilitationSign = ctx.signOf(planet.name);
+                const exaltationSign = Math.floor(exaltation / 30) + 1;
+                const cancellers = new Set([
+                    RASHIS[debilitationSign - 1]!.lord.name,
+                    RASHIS[exaltationSign - 1]!.lord.name,
+                    ...PLANET_DIGNITIES
+                        .filter(d => Math.floor(d.exaltation / 30) + 1 === debilitationSign)
+                        .map(d => d.planet.name),
+                ]);
+
+                for (const canceller of cancellers) {
+                    if (canceller === planet.name || !ctx.planet(canceller)) continue;
+                    const fromLagna = ctx.houseOf(canceller);
+                    if (KENDRAS.includes(fromLagna) || KENDRAS.includes(ctx.houseFrom(canceller, 'Moon'))) {
+                        matches.push({
+                            planets: [planet.name, canceller],
+                            houses: [ctx.houseOf(planet.name), fromLagna],
+                        });
+                    }
+                }
+            }
+            return matches;
+        },
+    },
+];
+
+const registry = new Map<string, YogaRule>(CLASSICAL_YOGAS.map(rule => [rule.id, rule]));
+
+/**
+ * Register a yoga rule, replacing any rule with the same id
+ * @param rule - Yoga definition with a detect predicate
+ * @example
+ * ```typescript
+ * registerYoga({
+ *     id: 'sun-in-tenth',
+ *     name: 'Sun in the 10th',
+ *     category: 'custom',
+ *     detect: ctx => ctx.houseOf('Sun') === 10 ? { planets: ['Sun'], houses: [10] } : null,
+ * });
+ * ```
+ */
+export function registerYoga(rule: YogaRule): void {
+    registry.set(rule.id, rule);
+}
+
+/**
+ * Remove a registered yoga rule
+ * @param id - Rule identifier
+ * @returns true if a rule was removed
+ */
+export function unregisterYoga(id: string): boolean {
+    return registry.delete(id);
+}
+
+/**
+ * Get all registered yoga rules, classical ones first
+ */
+export function getYogaRules(): YogaRule[] {
+    return [...registry.values()];
+}
+
+/**
+ * Detect yogas in a chart
+ * @param planets - Planet positions from calculatePlanets()
+ * @param lagna - Lagna from calculateLagna()
+ * @param options - Restrict to categories or evaluate a custom rule set
+ * @returns One result per occurrence, with the planets and houses that formed it
+ * @example
+ * ```typescript
+ * const yogas = detectYogas(planets, lagna, { categories: ['mahapurusha', 'raja'] });
+ * for (const yoga of yogas) {
+ *     console.log(`${yoga.name}: ${yoga.planets.join(', ')} in houses ${yoga.houses.join(', ')}`);
+ * }
+ * ```
+ */
+export function detectYogas(planets: Planet[], lagna: LagnaInfo, options: YogaOptions = {}): YogaResult[] {
+    const context = createYogaContext(planets, lagna);
+    const rules = (options.rules ?? getYogaRules())
+        .filter(rule => !options.categories || options.categories.includes(rule.category));
+
+    const results: YogaResult[] = [];
+    for (const rule of rules) {
+        const detected = rule.detect(context);
+        const matches = detected === null ? [] : Array.isArray(detected) ? detected : [detected];
+        for (const match of matches) {
+            results.push({
+                id: rule.id,
+                name: rule.name,
+                category: rule.category,
+                description: rule.description,
+                ...match,
+            });
+        }
+    }
+
+    return results;
+}
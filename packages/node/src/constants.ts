@@ -7,14 +7,36 @@ export {
   PLANETS,
   VEDIC_PLANET_ORDER,
   OUTER_PLANETS,
+  AST_OFFSET,
+  MINOR_PLANETS,
   RASHIS,
   AYANAMSA,
+  AYANAMSA_INFO,
   HOUSE_SYSTEMS,
   CALC_FLAGS,
+  ECLIPSE_FLAGS,
   MOON_PHASES,
   NAKSHATRAS,
   JULIAN_UNIX_EPOCH,
   LUNAR_MONTH_DAYS,
   DEFAULT_MOON_DISTANCE_KM,
-  AU_IN_KM
+  AU_IN_KM,
+  VIMSHOTTARI_DASHA,
+  VIMSHOTTARI_TOTAL_YEARS,
+  YOGINI_DASHA,
+  YOGINI_TOTAL_YEARS,
+  ASHTOTTARI_DASHA,
+  ASHTOTTARI_TOTAL_YEARS,
+  KALACHAKRA_YEARS,
+  VARGAS,
+  TITHIS,
+  YOGAS,
+  KARANAS,
+  VARAS,
+  TITHI_GROUPS,
+  NAKSHATRA_GROUPS,
+  RASI_GROUPS,
+  PLANET_DIGNITIES,
+  SHADBALA_PLANETS,
+  WESTERN_ASPECTS
 } from '@af/sweph-core';
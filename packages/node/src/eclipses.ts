@@ -0,0 +1,185 @@
+/**
+ * Eclipse Search for @AstroFusion/sweph
+ */
+
+import type {
+  Eclipse,
+  EclipseOptions,
+  EclipseType,
+  SolarEclipseWhenResult,
+  SolarEclipseWhereResult,
+  LunarEclipseWhenResult,
+  LunarEclipseHowResult
+} from './types';
+import { PlanetId } from './types';
+import { CALC_FLAGS, ECLIPSE_FLAGS, NAKSHATRAS } from './constants';
+import {
+  initializeSweph,
+  getNativeModule,
+  setSiderealMode,
+  dateToJulian,
+  julianToDate,
+  getRashi,
+  getNakshatra,
+  callCalcUt
+} from './utils';
+
+/**
+ * Throw if an eclipse function reported an error
+ * @internal
+ */
+function checkEclipseResult<T>(result: T | { error: string } | undefined, fn: string): T {
+  if (!result || typeof result !== 'object') {
+    throw new Error(`${fn} returned no result`);
+  }
+  if ('error' in result && typeof result.error === 'string' && result.error) {
+    throw new Error(result.error);
+  }
+  return result as T;
+}
+
+/**
+ * Map eclipse type flags to an eclipse classification
+ * @internal
+ */
+function getEclipseType(rflag: number): EclipseType {
+  if (rflag & ECLIPSE_FLAGS.ANNULAR_TOTAL) return 'hybrid';
+  if (rflag & ECLIPSE_FLAGS.TOTAL) return 'total';
+  if (rflag & ECLIPSE_FLAGS.ANNULAR) return 'annular';
+  if (rflag & ECLIPSE_FLAGS.PARTIAL) return 'partial';
+  return 'penumbral';
+}
+
+/**
+ * Convert a contact time to a Date; the eclipse functions report 0 for phases that do not occur
+ * @internal
+ */
+function toContact(jd: number): Date | null {
+  return jd > 0 ? julianToDate(jd) : null;
+}
+
+/**
+ * Find solar and lunar eclipses in a date range
+ * @param start - Start of the search range
+ * @param end - End of the search range
+ * @param options - Eclipse kind, plus zodiac and ayanamsa for the eclipse longitude
+ * @returns Eclipses in order of maximum, with global contact times (UTC), magnitude
+ *   and the longitude, rasi and nakshatra of the Sun (solar) or Moon (lunar)
+ * @throws Error if the range is reversed or Swiss Ephemeris reports an error
+ * @example
+ * ```typescript
+ * const eclipses = findEclipses(new Date('2024-01-01'), new Date('2025-01-01'), { type: 'solar' });
+ * for (const e of eclipses) {
+ *   console.log(e.type, e.maximum.toISOString(), e.magnitude.toFixed(3), e.nakshatraName);
+ * }
+ * ```
+ */
+export function findEclipses(
+  start: Date,
+  end: Date,
+  options: EclipseOptions = {}
+): Eclipse[] {
+  initializeSweph();
+  const sweph = getNativeModule();
+
+  const { type = 'all', zodiac = 'sidereal', ayanamsa = 1 } = options;
+
+  const startJd = dateToJulian(start);
+  const endJd = dateToJulian(end);
+  if (endJd < startJd) {
+    throw new Error('Eclipse search end must not be before start');
+  }
+
+  let flags = CALC_FLAGS.SWIEPH;
+  if (zodiac === 'sidereal') {
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
+  }
+
+  const position = (jd: number, bodyId: number) => {
+    const longitude = callCalcUt(jd, bodyId, flags).longitude;
+    const nakshatra = getNakshatra(longitude).number;
+    return {
+      longitude,
+      rasi: getRashi(longitude),
+      nakshatra,
+      nakshatraName: NAKSHATRAS[nakshatra - 1]!.name,
+    };
+  };
+
+  const eclipses: Eclipse[] = [];
+
+  if (type === 'solar' || type === 'all') {
+    for (let jd = startJd; ;) {
+      const when = checkEclipseResult<SolarEclipseWhenResult>(
+        sweph.swe_sol_eclipse_when_glob(jd, CALC_FLAGS.SWIEPH, 0, 0),
+        'swe_sol_eclipse_when_glob'
+      );
+      if (when.maximum > endJd) break;
+
+      const where = checkEclipseResult<SolarEclipseWhereResult>(
+        sweph.swe_sol_eclipse_where(when.maximum, CALC_FLAGS.SWIEPH),
+        'swe_sol_eclipse_where'
+      );
+
+      eclipses.push({
+        kind: 'solar',
+        type: getEclipseType(when.rflag),
+        maximum: julianToDate(when.maximum),
+        julianDay: when.maximum,
+        magnitude: where.eclipseMagnitude,
+        contacts: {
+          begin: julianToDate(when.begin),
+          partialBegin: null,
+          totalBegin: toContact(when.totalBegin),
+          totalEnd: toContact(when.totalEnd),
+          partialEnd: null,
+          end: julianToDate(when.end),
+        },
+        ...position(when.maximum, PlanetId.SUN),
+      });
+
+      // Eclipses are at least two weeks apart
+      jd = when.maximum + 1;
+    }
+  }
+
+  if (type === 'lunar' || type === 'all') {
+    for (let jd = startJd; ;) {
+      const when = checkEclipseResult<LunarEclipseWhenResult>(
+        sweph.swe_lun_eclipse_when(jd, CALC_FLAGS.SWIEPH, 0, 0),
+        'swe_lun_eclipse_when'
+      );
+      if (when.maximum > endJd) break;
+
+      // Magnitudes do not depend on the observer
+      const how = checkEclipseResult<LunarEclipseHowResult>(
+        sweph.swe_lun_eclipse_how(when.maximum, CALC_FLAGS.SWIEPH, 0, 0, 0),
+        'swe_lun_eclipse_how'
+      );
+      const eclipseType = getEclipseType(when.rflag);
+
+      eclipses.push({
+        kind: 'lunar',
+        type: eclipseType,
+        maximum: julianToDate(when.maximum),
+        julianDay: when.maximum,
+        magnitude: eclipseType === 'penumbral' ? how.penumbralMagnitude : how.umbralMagnitude,
+        penumbralMagnitude: how.penumbralMagnitude,
+        contacts: {
+          begin: julianToDate(when.penumbralBegin),
+          partialBegin: toContact(when.partialBegin),
+          totalBegin: toContact(when.totalBegin),
+          totalEnd: toContact(when.totalEnd),
+          partialEnd: toContact(when.partialEnd),
+          end: julianToDate(when.penumbralEnd),
+        },
+        ...position(when.maximum, PlanetId.MOON),
+      });
+
+      jd = when.maximum + 1;
+    }
+  }
+
+  return eclipses.sort((a, b) => a.julianDay - b.julianDay);
+}
@@ -0,0 +1,152 @@
+/**
+ * Fixed Star Calculations for @AstroFusion/sweph
+ */
+
+import type { FixedStar, FixedStarConjunction, FixedStarInfo, FixedStarOptions, FixstarResult } from './types';
+import { CALC_FLAGS, NAKSHATRAS } from './constants';
+import {
+  initializeSweph,
+  getNativeModule,
+  setSiderealMode,
+  dateToJulian,
+  normalizeLongitude,
+  getRashi,
+  getRashiDegree,
+  getNakshatra,
+  readEphemerisFile
+} from './utils';
+
+/**
+ * Fixed star catalog file searched for in the ephemeris path
+ */
+const CATALOG_FILE = 'sefstars.txt';
+
+/**
+ * Magnitude the catalog gives to objects without one, e.g. the Galactic Center
+ */
+const NO_MAGNITUDE = 999;
+
+/**
+ * Split a catalog name such as "Spica,alVir" into its traditional name and nomenclature
+ * @internal
+ */
+function splitStarName(catalogName: string): { name: string; nomenclature: string } {
+  const [name = '', nomenclature = ''] = catalogName.split(',').map(part => part.trim());
+  return { name: name || nomenclature, nomenclature };
+}
+
+/**
+ * Calculate the position of a fixed star and its conjunctions with planets
+ * @param name - Traditional name ('Regulus'), nomenclature with a leading comma
+ *   (',alLeo') or catalog line number; names are matched case-insensitively by prefix
+ * @param date - Date/time (UTC)
+ * @param options - Zodiac, ayanamsa, planets to check for conjunctions and orb
+ * @returns Star position with rasi, nakshatra, magnitude and the planets within the orb
+ * @remarks Spica is built into Swiss Ephemeris; every other star needs the sefstars.txt
+ *   catalog in the ephemeris path.
+ * @throws Error if the star is not found or the catalog is missing
+ * @example
+ * ```typescript
+ * const planets = calculatePlanets(birth);
+ * const regulus = calculateFixedStar('Regulus', birth, { planets, orb: 1.5 });
+ * console.log(regulus.longitude.toFixed(2), regulus.magnitude, regulus.conjunctions);
+ * ```
+ */
+export function calculateFixedStar(name: string, date: Date, options: FixedStarOptions = {}): FixedStar {
+  initializeSweph();
+  const sweph = getNativeModule();
+
+  const { zodiac = 'sidereal', ayanamsa = 1, planets = [], orb = 1 } = options;
+
+  let flags = CALC_FLAGS.SWIEPH | CALC_FLAGS.SPEED;
+  if (zodiac === 'sidereal') {
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
+  }
+
+  const result: FixstarResult | { error: string } = sweph.swe_fixstar2_ut(name, dateToJulian(date), flags);
+  if (!result || typeof result !== 'object') {
+    throw new Error(`swe_fixstar2_ut returned no result for star ${name}`);
+  }
+  if ('error' in result && typeof result.error === 'string' && result.error) {
+    const hint = readEphemerisFile(CATALOG_FILE) === null
+      ? ` (${CATALOG_FILE} was not found; place it in the ephemeris path)`
+      : '';
+    throw new Error(`${result.error}${hint}`);
+  }
+
+  const star = result as FixstarResult;
+  const longitude = normalizeLongitude(star.longitude);
+  const nakshatra = getNakshatra(longitude);
+
+  const mag = sweph.swe_fixstar2_mag(star.name);
+  const magnitude = typeof mag?.magnitude === 'number' && mag.magnitude < NO_MAGNITUDE ? mag.magnitude : null;
+
+  const conjunctions: FixedStarConjunction[] = planets
+    .map(planet => {
+      const d = normalizeLongitude(planet.longitude - longitude);
+      return { planet: planet.name, orb: Math.min(d, 360 - d) };
+    })
+    .filter(c => c.orb <= orb)
+    .sort((a, b) => a.orb - b.orb);
+
+  return {
+    ...splitStarName(star.name),
+    longitude,
+    latitude: star.latitude,
+    distance: star.distance,
+    speed: star.longitudeSpeed,
+    rasi: getRashi(longitude),
+    rasiDegree: getRashiDegree(longitude),
+    nakshatra: nakshatra.number,
+    nakshatraName: NAKSHATRAS[nakshatra.number - 1]!.name,
+    nakshatraPada: nakshatra.pada,
+    magnitude,
+    conjunctions,
+  };
+}
+
+/**
+ * List the stars in the sefstars.txt catalog of the ephemeris path
+ * @returns Catalog stars in file order, without duplicate entries; alternative
+ *   names of the same star (e.g. Aldebaran and Rohini) are listed separately
+ * @throws Error if sefstars.txt is not found in the ephemeris path
+ * @example
+ * ```typescript
+ * setEphemerisPath('/path/to/ephe');
+ * const bright = listFixedStars().filter(s => s.magnitude !== null && s.magnitude < 1.5);
+ * ```
+ */
+export function listFixedStars(): FixedStarInfo[] {
+  initializeSweph();
+
+  const catalog = readEphemerisFile(CATALOG_FILE);
+  if (catalog === null) {
+    throw new Error(`Fixed star catalog ${CATALOG_FILE} not found; place it in the ephemeris path`);
+  }
+
+  const stars: FixedStarInfo[] = [];
+  const seen = new Set<string>();
+
+  for (const line of catalog.split(/\r?\n/)) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    const fields = line.split(',');
+    // Traditional name, nomenclature, frame, RA (3), declination (3), proper motion (2),
+    // radial velocity, parallax, magnitude
+    if (fields.length < 14) continue;
+
+    const star = splitStarName(`${fields[0]},${fields[1]}`);
+    const key = `${star.name},${star.nomenclature}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const magnitude = parseFloat(fields[13]!);
+    stars.push({
+      ...star,
+      magnitude: Number.isFinite(magnitude) && magnitude < NO_MAGNITUDE ? magnitude : null,
+    });
+  }
+
+  return stars;
+}
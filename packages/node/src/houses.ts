@@ -2,7 +2,7 @@
  * House and Lagna Calculations for @AstroFusion/sweph
  */
 
-import type { LagnaInfo, GeoLocation, CalculationOptions } from './types';
+import type { LagnaInfo, GeoLocation, CalculationOptions, Bhava, Planet } from './types';
 import { HouseSystem } from './types';
 import { 
   initializeSweph, 
@@ -18,9 +18,14 @@ import {
  * Calculate Lagna (Ascendant) and house cusps for Vedic astrology
  * @param date - Birth date and time (local time)
  * @param location - Birth location coordinates
- * @param options - Calculation options (ayanamsa, house system)
- * @returns LagnaInfo object with ascendant and all 12 house cusps
- * @throws Error if Swiss Ephemeris calculation fails
+ * @param options - Calculation options (zodiac, ayanamsa, house system)
+ * @returns LagnaInfo object with ascendant, all 12 house cusps and their daily speeds, MC,
+ *   ARMC, Vertex, equatorial ascendant and co-ascendants; ayanamsaValue is 0 for the
+ *   tropical zodiac. Whole-sign houses begin at the sign of the ascendant in the chosen zodiac.
+ *   Inside the polar circles the default Placidus houses fall back to Porphyry, as in
+ *   swe_houses(), and houseSystemFallback gives the reason.
+ * @throws Error if Swiss Ephemeris calculation fails, e.g. an explicitly requested Placidus
+ *   or Koch house system inside the polar circles
  * @example
  * ```typescript
  * const lagna = calculateLagna(new Date('1990-01-15T14:30:00'), {
@@ -44,26 +49,40 @@ export function calculateLagna(
   initializeSweph();
   const sweph = getNativeModule();
   
-  const { ayanamsa = 1, houseSystem = HouseSystem.PLACIDUS } = options;
+  const { ayanamsa = 1, zodiac = 'sidereal', trueAyanamsa = false } = options;
+  let houseSystem = options.houseSystem ?? HouseSystem.PLACIDUS;
   const timezone = location.timezone ?? 0;
   
   // Convert to UTC
   const utcTime = new Date(date.getTime() - timezone * 60 * 60 * 1000);
   const jd = dateToJulian(utcTime);
   
-  // Set sidereal mode
-  sweph.swe_set_sid_mode(ayanamsa, 0, 0);
-  
-  // Calculate houses
-  const houseResult = sweph.swe_houses(
-    jd,
-    location.latitude,
-    location.longitude,
-    houseSystem
-  );
+  // Calculate tropical houses, angles and their speeds
+  const calculateHouseCusps = () => {
+    const result = sweph.swe_houses_ex2(jd, 0, location.latitude, location.longitude, houseSystem);
+    if (!result || typeof result !== 'object') {
+      throw new Error('swe_houses_ex2 returned no result');
+    }
+    return result;
+  };
+  let houseResult = calculateHouseCusps();
+  let houseSystemFallback: string | undefined;
+  if (houseResult.error && options.houseSystem === undefined) {
+    // The default Placidus houses fail inside the polar circles; like swe_houses(),
+    // fall back to Porphyry unless the caller asked for a house system
+    houseSystemFallback = houseResult.message || houseResult.error;
+    houseSystem = HouseSystem.PORPHYRIUS;
+    houseResult = calculateHouseCusps();
+  }
+  if (houseResult.error) {
+    // e.g. Placidus and Koch inside the polar circles
+    const detail = houseResult.message ? ` (${houseResult.message})` : '';
+    throw new Error(`House system ${houseSystem}: ${houseResult.error}${detail}`);
+  }
   
   let ascendant = 0;
   let houses: number[] = [];
+  let houseSpeeds: number[] = [];
   
   // Extract ascendant from result
   if ('ascendant' in houseResult && typeof houseResult.ascendant === 'number') {
@@ -78,13 +97,25 @@ export function calculateLagna(
   } else if (Array.isArray(houseResult.cusp)) {
     houses = houseResult.cusp.slice(1, 13);
   }
+  if (Array.isArray(houseResult.houseSpeed)) {
+    houseSpeeds = houseResult.houseSpeed.slice(0, 12);
+  }
   
-  // Get ayanamsa value and convert to sidereal
-  const ayanamsaValue = getAyanamsa(date, ayanamsa);
+  // Get ayanamsa value and convert to sidereal; tropical cusps are used as-is
+  const ayanamsaValue = zodiac === 'sidereal' ? getAyanamsa(utcTime, ayanamsa, trueAyanamsa) : 0;
+  const toZodiac = (longitude: number) => normalizeLongitude(longitude - ayanamsaValue);
   
   // Convert to sidereal longitude
-  ascendant = normalizeLongitude(ascendant - ayanamsaValue);
-  houses = houses.map(cusp => normalizeLongitude(cusp - ayanamsaValue));
+  ascendant = toZodiac(ascendant);
+  houses = houses.map(toZodiac);
+  
+  // Whole-sign houses start at the sign of the ascendant in the chosen zodiac,
+  // not at the tropical signs shifted by the ayanamsa
+  if (houseSystem === HouseSystem.WHOLE_SIGN) {
+    const firstSign = Math.floor(ascendant / 30) * 30;
+    houses = Array.from({ length: 12 }, (_, i) => normalizeLongitude(firstSign + i * 30));
+    houseSpeeds = houses.map(() => 0);
+  }
   
   return {
     longitude: ascendant,
@@ -97,6 +128,18 @@ export function calculateLagna(
     lagnaRasi: getRashi(ascendant),
     lagnaDegree: getRashiDegree(ascendant),
     julianDay: jd,
+    houseSystem,
+    houseSystemFallback,
+    houseSpeeds,
+    ascendantSpeed: houseResult.ascendantSpeed,
+    mc: toZodiac(houseResult.mc),
+    mcSpeed: houseResult.mcSpeed,
+    armc: houseResult.armc,
+    vertex: toZodiac(houseResult.vertex),
+    equatorialAscendant: toZodiac(houseResult.equatorialAscendant),
+    coAscendantKoch: toZodiac(houseResult.kochCoAscendant),
+    coAscendantMunkasey: toZodiac(houseResult.munkaseyCoAscendant),
+    polarAscendant: toZodiac(houseResult.munkaseyPolarAscendant),
   };
 }
 
@@ -104,7 +147,7 @@ export function calculateLagna(
  * Calculate house cusps only (without ascendant details)
  * @param date - Birth date and time (local time)
  * @param location - Birth location coordinates
- * @param options - Calculation options (ayanamsa, house system)
+ * @param options - Calculation options (zodiac, ayanamsa, house system)
  * @returns Array of 12 house cusp longitudes in degrees (0°-360°)
  * @example
  * ```typescript
@@ -165,3 +208,43 @@ export function getHousePosition(planetLongitude: number, houses: number[]): num
   // Default to house 1 if not found
   return 1;
 }
+
+/**
+ * Calculate the Bhava Chalit chart: Sripati bhavas whose sandhis lie midway between
+ * the Porphyry cusps, which are taken as the bhava madhyas
+ * @param date - Birth date and time (local time)
+ * @param location - Birth location coordinates
+ * @param options - Calculation options (zodiac, ayanamsa); the house system is ignored
+ * @param planets - Planets to place in the bhavas, e.g. from calculatePlanets()
+ * @returns The 12 bhavas with their sandhis, madhya and planets; the 1st madhya is the lagna
+ * @example
+ * ```typescript
+ * const planets = calculatePlanets(utcBirth);
+ * const bhavas = calculateBhavaChalit(birth, location, {}, planets);
+ * console.log(bhavas.map(b => `${b.house}: ${b.planets.join(', ')}`));
+ * ```
+ */
+export function calculateBhavaChalit(
+  date: Date,
+  location: GeoLocation,
+  options: CalculationOptions = {},
+  planets: Planet[] = []
+): Bhava[] {
+  const { houses: madhyas } = calculateLagna(date, location, { ...options, houseSystem: HouseSystem.PORPHYRIUS });
+
+  // Sandhi between the madhya of the previous bhava and this one
+  const sandhis = madhyas.map((madhya, i) => {
+    const previous = madhyas[(i + 11) % 12]!;
+    return normalizeLongitude(previous + normalizeLongitude(madhya - previous) / 2);
+  });
+
+  return madhyas.map((madhya, i) => ({
+    house: i + 1,
+    start: sandhis[i]!,
+    madhya,
+    end: sandhis[(i + 1) % 12]!,
+    planets: planets
+      .filter(planet => getHousePosition(planet.longitude, sandhis) === i + 1)
+      .map(planet => planet.name),
+  }));
+}
@@ -47,9 +47,15 @@ export {
   calculatePlanetRiseSetTimes,
 } from './planets';
 
+export {
+  calculatePosition,
+  calculatePositions,
+} from './positions';
+
 export {
   calculateLagna,
   calculateHouses,
+  calculateBhavaChalit,
 } from './houses';
 
 export {
@@ -62,15 +68,84 @@ export {
   calculateMoonData,
   calculateMoonPhase,
   calculateNextMoonPhases,
+  findMoonPhases,
 } from './moon';
 
+export {
+  calculatePanchanga,
+} from './panchanga';
+
+export {
+  calculateDayPeriods,
+  calculateChoghadiya,
+  calculateHoras,
+} from './periods';
+
+export {
+  findMuhurtas,
+} from './muhurta';
+
+export {
+  findIngresses,
+  findSankrantis,
+} from './ingress';
+
+export {
+  findStations,
+} from './stations';
+
+export {
+  findEclipses,
+} from './eclipses';
+
+export {
+  calculateFixedStar,
+  listFixedStars,
+} from './fixedstars';
+
+// Vedic calculations (pure, platform-agnostic)
+export {
+  calculateVimshottariDasha,
+  getCurrentDasha,
+  calculateDasha,
+  registerDashaSystem,
+  unregisterDashaSystem,
+  getDashaSystems,
+  calculateVarga,
+  calculateVargaChart,
+  calculateAshtakavarga,
+  calculateShadbala,
+  detectYogas,
+  registerYoga,
+  unregisterYoga,
+  getYogaRules,
+  createYogaContext,
+  CLASSICAL_YOGAS,
+  calculateAspects,
+  getRashiDrishti,
+  calculateCompatibility,
+  analyzeDoshas,
+  getKPSubs,
+  getKPLords,
+  calculateKPSignificators,
+  getKPRulingPlanets,
+  calculateKPChart,
+  getCharaKarakas,
+  getArudhaPadas,
+  getCharaDashaYears,
+  getJaiminiDrishti,
+  calculateJaimini,
+} from '@af/sweph-core';
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
 
 export {
   getAyanamsa,
+  setSiderealMode,
   setEphemerisPath,
+  getEphemerisPath,
   getJulianDay,
   dateToJulian,
   julianToDate,
@@ -92,10 +167,28 @@ export {
 export {
   PLANETS,
   AYANAMSA,
+  AYANAMSA_INFO,
   HOUSE_SYSTEMS,
   RASHIS,
   NAKSHATRAS,
   VEDIC_PLANET_ORDER,
+  AST_OFFSET,
+  MINOR_PLANETS,
+  VIMSHOTTARI_DASHA,
+  YOGINI_DASHA,
+  ASHTOTTARI_DASHA,
+  KALACHAKRA_YEARS,
+  VARGAS,
+  TITHIS,
+  YOGAS,
+  KARANAS,
+  VARAS,
+  TITHI_GROUPS,
+  NAKSHATRA_GROUPS,
+  RASI_GROUPS,
+  PLANET_DIGNITIES,
+  SHADBALA_PLANETS,
+  WESTERN_ASPECTS,
 } from './constants';
 
 // =============================================================================
@@ -109,8 +202,110 @@ export type {
   MoonData,
   MoonPhase,
   LagnaInfo,
+  Bhava,
   NextMoonPhases,
+  MoonPhaseEvent,
   CalculationOptions,
+  CoordinateSystem,
+  CoordinateCenter,
+  PositionOptions,
+  EclipticPosition,
+  EquatorialPosition,
+  CartesianPosition,
+  BodyPosition,
+  PositionFor,
+  DashaPeriod,
+  DashaOptions,
+  VimshottariDasha,
+  DashaChart,
+  DashaSpan,
+  DashaSeed,
+  DashaApplicability,
+  DashaSystem,
+  DashaResult,
+  VargaDivision,
+  VargaChartType,
+  VargaVariant,
+  VargaOptions,
+  VargaPosition,
+  VargaPlanet,
+  DivisionalChart,
+  AshtakavargaOptions,
+  BhinnashtakavargaTable,
+  Ashtakavarga,
+  ShadbalaTimes,
+  SthanaBala,
+  KalaBala,
+  PlanetShadbala,
+  BhavaBala,
+  Shadbala,
+  YogaCategory,
+  YogaContext,
+  YogaMatch,
+  YogaRule,
+  YogaResult,
+  YogaOptions,
+  AspectName,
+  AspectOptions,
+  WesternAspect,
+  GrahaDrishti,
+  RashiDrishti,
+  AspectResult,
+  KootaName,
+  MoonProfile,
+  KootaScore,
+  CompatibilityDosha,
+  Porutham,
+  CompatibilityOptions,
+  Compatibility,
+  DoshaName,
+  DoshaSeverity,
+  ManglikCancellation,
+  DoshaOptions,
+  DoshaResult,
+  KPSub,
+  KPLords,
+  KPPlanet,
+  KPCusp,
+  KPSignificators,
+  KPRulingPlanets,
+  KPChart,
+  CharaKarakaName,
+  CharaKaraka,
+  ArudhaPada,
+  JaiminiDrishti,
+  JaiminiOptions,
+  JaiminiChart,
+  Panchanga,
+  DayPeriods,
+  TimePeriod,
+  Choghadiya,
+  ChoghadiyaName,
+  Hora,
+  InauspiciousPeriod,
+  MuhurtaMoment,
+  MuhurtaConstraints,
+  MuhurtaOptions,
+  MuhurtaWindow,
+  PanchangaElement,
+  TithiInfo,
+  NakshatraInfo,
+  VaraInfo,
+  Ingress,
+  IngressOptions,
+  Station,
+  StationOptions,
+  Eclipse,
+  EclipseType,
+  EclipseOptions,
+  EclipseContacts,
+  FixedStarOptions,
+  FixedStarConjunction,
+  FixedStar,
+  FixedStarInfo,
+  Zodiac,
+  CustomAyanamsa,
+  AyanamsaOption,
 } from './types';
 
 export {
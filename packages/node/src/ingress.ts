@@ -0,0 +1,188 @@
+/**
+ * Ingress Search for @AstroFusion/sweph
+ */
+
+import type { AyanamsaOption, Ingress, IngressOptions } from './types';
+import { PlanetId } from './types';
+import { CALC_FLAGS, PLANETS, RASHIS, NAKSHATRAS } from './constants';
+import {
+  initializeSweph,
+  setSiderealMode,
+  dateToJulian,
+  julianToDate,
+  normalizeLongitude,
+  callCalcUt
+} from './utils';
+import { signedAngle, bisect } from './search';
+
+/**
+ * Upper bound of each body's daily motion in degrees, used to pick a scan step
+ * that cannot jump over a division
+ */
+const MAX_DAILY_MOTION: Record<number, number> = {
+  [PlanetId.SUN]: 1.1,
+  [PlanetId.MOON]: 15.5,
+  [PlanetId.MERCURY]: 2.3,
+  [PlanetId.VENUS]: 1.3,
+  [PlanetId.MARS]: 0.8,
+  [PlanetId.JUPITER]: 0.25,
+  [PlanetId.SATURN]: 0.14,
+  [PlanetId.URANUS]: 0.07,
+  [PlanetId.NEPTUNE]: 0.04,
+  [PlanetId.PLUTO]: 0.05,
+  [PlanetId.MEAN_NODE]: 0.06,
+  [PlanetId.TRUE_NODE]: 0.25,
+};
+
+/**
+ * Longest scan step in days, so that retrograde re-entries are not skipped
+ */
+const MAX_STEP_DAYS = 1;
+
+/**
+ * Width in degrees of a boundary division
+ * @internal
+ */
+function getDivisionSize(boundary: IngressOptions['boundary']): number {
+  if (typeof boundary === 'number') {
+    if (!(boundary > 0) || boundary >= 360) {
+      throw new Error(`Invalid ingress boundary: ${boundary}° (expected more than 0° and less than 360°)`);
+    }
+    return boundary;
+  }
+  switch (boundary) {
+    case 'nakshatra':
+      return 360 / 27;
+    case 'pada':
+      return 360 / 108;
+    case 'sign':
+    case undefined:
+      return 30;
+    default:
+      throw new Error(`Invalid ingress boundary: ${boundary}`);
+  }
+}
+
+/**
+ * Name of a division (1-based) for sign, nakshatra and pada boundaries
+ * @internal
+ */
+function getDivisionName(boundary: IngressOptions['boundary'], division: number): string | undefined {
+  switch (boundary) {
+    case 'nakshatra':
+      return NAKSHATRAS[division - 1]?.name;
+    case 'pada':
+      return `${NAKSHATRAS[Math.floor((division - 1) / 4)]?.name} pada ${((division - 1) % 4) + 1}`;
+    case 'sign':
+    case undefined:
+      return RASHIS[division - 1]?.name;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find the times a body crosses sign, nakshatra, pada or custom degree boundaries
+ * @param bodyId - Swiss Ephemeris body id (PLANETS.KETU.id for Ketu)
+ * @param start - Start of the search range
+ * @param end - End of the search range
+ * @param options - Zodiac, ayanamsa and boundary type ('sign', 'nakshatra', 'pada' or a width in degrees)
+ * @returns Ingresses in time order, with exact UTC times; retrograde re-entries are included
+ * @throws Error if the boundary is invalid or the range is reversed
+ * @example
+ * ```typescript
+ * // When does Saturn enter Pisces?
+ * const ingresses = findIngresses(PLANETS.SATURN.id, new Date('2024-01-01'), new Date('2026-01-01'));
+ * const pisces = ingresses.find(i => i.name === 'Pisces');
+ *
+ * // When does the Moon leave Rohini?
+ * const moon = findIngresses(PLANETS.MOON.id, start, end, { boundary: 'nakshatra' });
+ * const leavesRohini = moon.find(i => i.from === 4)?.date;
+ * ```
+ */
+export function findIngresses(
+  bodyId: number,
+  start: Date,
+  end: Date,
+  options: IngressOptions = {}
+): Ingress[] {
+  initializeSweph();
+
+  const { zodiac = 'sidereal', ayanamsa = 1, boundary = 'sign' } = options;
+  const size = getDivisionSize(boundary);
+  // The last division is narrower when the width does not divide 360°
+  const divisions = Math.ceil(360 / size - 1e-9);
+
+  const startJd = dateToJulian(start);
+  const endJd = dateToJulian(end);
+  if (endJd < startJd) {
+    throw new Error('Ingress search end must not be before start');
+  }
+
+  let flags = CALC_FLAGS.SWIEPH;
+  if (zodiac === 'sidereal') {
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
+  }
+
+  const isKetu = bodyId === PLANETS.KETU.id;
+  const calcId = isKetu ? PLANETS.RAHU.id : bodyId;
+  const longitudeAt = (jd: number) => {
+    const longitude = callCalcUt(jd, calcId, flags).longitude;
+    return normalizeLongitude(isKetu ? longitude + 180 : longitude);
+  };
+  const divisionAt = (longitude: number) => Math.min(divisions - 1, Math.floor(longitude / size));
+
+  const maxMotion = MAX_DAILY_MOTION[calcId] ?? 1;
+  const step = Math.min(MAX_STEP_DAYS, size / (2 * maxMotion));
+
+  const ingresses: Ingress[] = [];
+  let prevJd = startJd;
+  let prevDivision = divisionAt(longitudeAt(prevJd));
+
+  while (prevJd < endJd) {
+    const nextJd = Math.min(prevJd + step, endJd);
+    const nextDivision = divisionAt(longitudeAt(nextJd));
+
+    if (nextDivision !== prevDivision) {
+      // Moving forward into the next division or back into the previous one
+      const retrograde = nextDivision === (prevDivision - 1 + divisions) % divisions;
+      const boundaryLongitude = normalizeLongitude((retrograde ? prevDivision : nextDivision) * size);
+      const jd = bisect(jd => signedAngle(longitudeAt(jd), boundaryLongitude), prevJd, nextJd);
+
+      if (jd >= startJd && jd <= endJd) {
+        ingresses.push({
+          bodyId,
+          date: julianToDate(jd),
+          julianDay: jd,
+          longitude: boundaryLongitude,
+          from: prevDivision + 1,
+          to: nextDivision + 1,
+          name: getDivisionName(boundary, nextDivision + 1),
+          retrograde,
+        });
+      }
+    }
+
+    prevJd = nextJd;
+    prevDivision = nextDivision;
+  }
+
+  return ingresses;
+}
+
+/**
+ * Find Sankrantis: the Sun's ingresses into the sidereal signs
+ * @param start - Start of the search range
+ * @param end - End of the search range
+ * @param ayanamsa - Ayanamsa type (default: LAHIRI = 1)
+ * @returns Sun sign ingresses with exact UTC times
+ * @example
+ * ```typescript
+ * const [makara] = findSankrantis(new Date('2024-01-01'), new Date('2024-02-01'));
+ * console.log(`${makara.name} Sankranti at ${makara.date.toISOString()}`);
+ * ```
+ */
+export function findSankrantis(start: Date, end: Date, ayanamsa: AyanamsaOption = 1): Ingress[] {
+  return findIngresses(PlanetId.SUN, start, end, { zodiac: 'sidereal', ayanamsa, boundary: 'sign' });
+}
@@ -210,12 +210,10 @@ export function createSwephCalculator(): PlanetaryCalculationProvider {
     ): Promise<Planet> {
       // Calculate Moon (id 1) using implementation that supports Az/Alt
       const utcDate = new Date(date.getTime() - timeZoneOffset * 60 * 60 * 1000);
-      const result = await calculateSinglePlanet(1, utcDate, { 
+      return calculateSinglePlanet(1, utcDate, { 
         ayanamsa: 1, // Default ayanamsa
         location: { latitude, longitude, timezone: timeZoneOffset }
       });
-      if (!result) throw new Error('Failed to calculate Moon position');
-      return result;
     },
 
     async calculateMoonTransit(
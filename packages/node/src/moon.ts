@@ -2,16 +2,19 @@
  * Moon Calculations for @AstroFusion/sweph
  */
 
-import type { MoonData, NextMoonPhases, GeoLocation } from './types';
+import type { MoonData, NextMoonPhases, MoonPhaseEvent, GeoLocation } from './types';
 import { PlanetId } from './types';
-import { MOON_PHASES, LUNAR_MONTH_DAYS, DEFAULT_MOON_DISTANCE_KM, AU_IN_KM } from './constants';
+import { MOON_PHASES, LUNAR_MONTH_DAYS, DEFAULT_MOON_DISTANCE_KM, AU_IN_KM, CALC_FLAGS } from './constants';
 import {
   initializeSweph,
   getNativeModule,
   dateToJulian,
   julianToDate,
+  normalizeLongitude,
+  callCalcUt,
   callRiseTrans
 } from './utils';
+import { findAngleCrossing } from './search';
 
 /**
  * Calculate comprehensive moon data including rise/set times and phase
@@ -161,44 +164,103 @@ export function calculateMoonPhase(
 }
 
 /**
- * Calculate dates of next moon phases
+ * Principal phases and the Sun-Moon elongation at which each occurs
+ */
+const PHASE_ANGLES: ReadonlyArray<{ type: MoonPhaseEvent['type']; angle: number }> = [
+  { type: 'newMoon', angle: 0 },
+  { type: 'firstQuarter', angle: 90 },
+  { type: 'fullMoon', angle: 180 },
+  { type: 'lastQuarter', angle: 270 },
+];
+
+/**
+ * Scan step in days; the elongation grows 10-15° per day
+ */
+const PHASE_STEP_DAYS = 1;
+
+/**
+ * Tropical Sun-Moon elongation (0-360°); identical in any zodiac
+ * @internal
+ */
+function getPhaseAngle(jd: number): number {
+  const sun = callCalcUt(jd, PlanetId.SUN, CALC_FLAGS.SWIEPH).longitude;
+  const moon = callCalcUt(jd, PlanetId.MOON, CALC_FLAGS.SWIEPH).longitude;
+  return normalizeLongitude(moon - sun);
+}
+
+/**
+ * First instant after jd at which the elongation reaches the given angle
+ * @internal
+ */
+function findNextPhase(angle: number, jd: number): number | null {
+  return findAngleCrossing(getPhaseAngle, angle, jd, 1, PHASE_STEP_DAYS, LUNAR_MONTH_DAYS + PHASE_STEP_DAYS);
+}
+
+/**
+ * Calculate exact dates of the next moon phases
  * @param date - Starting date
- * @returns Dates of upcoming moon phases
+ * @returns First new moon, first quarter, full moon and last quarter after the date,
+ *   plus the new moon that follows `newMoon` (one synodic month later)
+ * @example
+ * ```typescript
+ * const phases = calculateNextMoonPhases(new Date('2024-01-01T00:00:00Z'));
+ * console.log(phases.newMoon?.toISOString()); // 2024-01-11T11:57Z
+ * ```
  */
 export function calculateNextMoonPhases(date: Date): NextMoonPhases {
   initializeSweph();
-  
-  // Get current phase
-  const { phase: currentPhase } = calculateMoonPhase(date);
-  
-  // Calculate days until each phase
-  // New Moon = 0°, First Quarter = 90°, Full Moon = 180°, Last Quarter = 270°
-  const phases = [
-    { name: 'newMoon', angle: 0 },
-    { name: 'firstQuarter', angle: 90 },
-    { name: 'fullMoon', angle: 180 },
-    { name: 'lastQuarter', angle: 270 },
-  ];
-  
-  const result: Record<string, Date> = {};
-  
-  for (const phase of phases) {
-    // Calculate degrees until this phase
-    let degreesUntil = phase.angle - currentPhase;
-    if (degreesUntil <= 0) degreesUntil += 360;
-    
-    // Convert to days (360° = ~29.53 days)
-    const daysUntil = degreesUntil / (360 / LUNAR_MONTH_DAYS);
-    
-    // Calculate the date
-    const phaseDate = new Date(date.getTime() + daysUntil * 24 * 60 * 60 * 1000);
-    result[phase.name] = phaseDate;
-  }
-  
+
+  const jd = dateToJulian(date);
+  const [newMoon, firstQuarter, fullMoon, lastQuarter] = PHASE_ANGLES.map(({ angle }) => findNextPhase(angle, jd));
+  const nextNewMoon = newMoon != null ? findNextPhase(0, newMoon + PHASE_STEP_DAYS) : null;
+
+  const toDate = (phaseJd: number | null | undefined) => phaseJd != null ? julianToDate(phaseJd) : null;
+
   return {
-    newMoon: result.newMoon!,
-    firstQuarter: result.firstQuarter!,
-    fullMoon: result.fullMoon!,
-    lastQuarter: result.lastQuarter!,
+    newMoon: toDate(newMoon),
+    firstQuarter: toDate(firstQuarter),
+    fullMoon: toDate(fullMoon),
+    lastQuarter: toDate(lastQuarter),
+    nextNewMoon: toDate(nextNewMoon),
   };
 }
+
+/**
+ * Find all principal moon phases in a date range
+ * @param start - Start of the search range
+ * @param end - End of the search range
+ * @returns New moons, quarters and full moons in time order, with exact UTC times
+ * @throws Error if the range is reversed
+ * @example
+ * ```typescript
+ * const phases = findMoonPhases(new Date('2024-01-01'), new Date('2025-01-01'));
+ * const fullMoons = phases.filter(p => p.type === 'fullMoon');
+ * ```
+ */
+export function findMoonPhases(start: Date, end: Date): MoonPhaseEvent[] {
+  initializeSweph();
+
+  const startJd = dateToJulian(start);
+  const endJd = dateToJulian(end);
+  if (endJd < startJd) {
+    throw new Error('Moon phase search end must not be before start');
+  }
+
+  const events: MoonPhaseEvent[] = [];
+  // The next phase to occur is the one after the current quarter of the lunation
+  let index = (Math.floor(getPhaseAngle(startJd) / 90) + 1) % PHASE_ANGLES.length;
+  let jd = startJd;
+
+  for (;;) {
+    const { type, angle } = PHASE_ANGLES[index]!;
+    const found = findNextPhase(angle, jd);
+    if (found === null || found > endJd) break;
+
+    events.push({ type, angle, date: julianToDate(found), julianDay: found });
+
+    index = (index + 1) % PHASE_ANGLES.length;
+    jd = found;
+  }
+
+  return events;
+}
@@ -0,0 +1,317 @@
+/**
+ * Muhurta Search for @AstroFusion/sweph
+ */
+
+import type {
+  GeoLocation,
+  InauspiciousPeriod,
+  MuhurtaConstraints,
+  MuhurtaMoment,
+  MuhurtaOptions,
+  MuhurtaWindow
+} from './types';
+import { HouseSystem } from './types';
+import {
+  initializeSweph,
+  getNativeModule,
+  setSiderealMode,
+  dateToJulian,
+  julianToDate,
+  normalizeLongitude,
+  getRashi
+} from './utils';
+import { getElongation, getMoonLongitude, getYogaAngle, getKaranaName } from './panchanga';
+import { calculateDayPeriods } from './periods';
+import { signedAngle, bisect } from './search';
+
+const MINUTE = 1 / 1440;
+const NAKSHATRA_SPAN = 360 / 27;
+
+/**
+ * Scan step bounds in days. Custom predicates cannot be root-found ahead of time,
+ * so they are sampled at a fixed step.
+ */
+const MIN_STEP_DAYS = MINUTE;
+const MAX_STEP_DAYS = 0.25;
+const CUSTOM_STEP_DAYS = 10 * MINUTE;
+
+/**
+ * Upper bounds of the daily motion (°/day) of the panchanga angles
+ */
+const MAX_ELONGATION_RATE = 15.5;
+const MAX_MOON_RATE = 15.5;
+const MAX_YOGA_RATE = 16.5;
+
+/**
+ * Sampat, Kshema, Sadhana, Mitra and Parama Mitra
+ */
+const DEFAULT_TARAS = [2, 4, 6, 8, 9];
+const DEFAULT_CHANDRA_BALA_HOUSES = [1, 3, 6, 7, 10, 11];
+
+const DAY_PERIODS = ['rahuKalam', 'yamaganda', 'gulikaKalam'] as const;
+
+/**
+ * Sunrise, weekday and inauspicious periods of one local day (Julian days UT)
+ */
+interface SolarDay {
+  midnight: number;
+  sunrise: number | null;
+  vara: number;
+  periods: Array<{ name: InauspiciousPeriod; start: number; end: number }>;
+}
+
+/**
+ * Day periods of every local day overlapping a range, starting the day before
+ * (whose night periods may run past midnight)
+ * @internal
+ */
+function getSolarDays(startJd: number, endJd: number, location: GeoLocation): SolarDay[] {
+  const timezone = location.timezone ?? 0;
+  const toJd = (date: Date) => dateToJulian(date) - timezone / 24;
+
+  const day = julianToDate(startJd, timezone);
+  day.setUTCHours(0, 0, 0, 0);
+  day.setUTCDate(day.getUTCDate() - 1);
+
+  const days: SolarDay[] = [];
+  for (; toJd(day) <= endJd; day.setUTCDate(day.getUTCDate() + 1)) {
+    const result = calculateDayPeriods(day, location);
+    const periods: SolarDay['periods'] = [];
+
+    for (const name of DAY_PERIODS) {
+      const period = result[name];
+      if (period) periods.push({ name, start: toJd(period.start), end: toJd(period.end) });
+    }
+    for (const period of result.durmuhurta) {
+      periods.push({ name: 'durmuhurta', start: toJd(period.start), end: toJd(period.end) });
+    }
+
+    days.push({
+      midnight: toJd(day),
+      sunrise: result.sunrise ? toJd(result.sunrise) : null,
+      vara: result.vara,
+      periods,
+    });
+  }
+
+  return days;
+}
+
+/**
+ * Tara (1-9) of a nakshatra counted from the birth nakshatra
+ * @internal
+ */
+function getTara(birthNakshatra: number, nakshatra: number): number {
+  return ((nakshatra - birthNakshatra + 27) % 27) % 9 + 1;
+}
+
+/**
+ * Turn constraints into a list of predicates that must all hold
+ * @internal
+ */
+function buildChecks(constraints: MuhurtaConstraints): Array<(moment: MuhurtaMoment) => boolean> {
+  const checks: Array<(moment: MuhurtaMoment) => boolean> = [];
+
+  const allow = <T>(values: readonly T[] | undefined, valueOf: (moment: MuhurtaMoment) => T) => {
+    if (values) checks.push(moment => values.includes(valueOf(moment)));
+  };
+  const deny = <T>(values: readonly T[] | undefined, valueOf: (moment: MuhurtaMoment) => T) => {
+    if (values) checks.push(moment => !values.includes(valueOf(moment)));
+  };
+
+  allow(constraints.tithis, m => m.tithi);
+  deny(constraints.excludeTithis, m => m.tithi);
+  allow(constraints.nakshatras, m => m.nakshatra);
+  deny(constraints.excludeNakshatras, m => m.nakshatra);
+  allow(constraints.yogas, m => m.yoga);
+  deny(constraints.excludeYogas, m => m.yoga);
+  allow(constraints.karanas, m => m.karana);
+  deny(constraints.excludeKaranas, m => m.karana);
+  allow(constraints.varas, m => m.vara);
+  allow(constraints.lagnaRasis, m => m.lagnaRasi);
+
+  if (constraints.taraBala) {
+    const { birthNakshatra, taras = DEFAULT_TARAS } = constraints.taraBala;
+    checks.push(m => taras.includes(getTara(birthNakshatra, m.nakshatra)));
+  }
+  if (constraints.chandraBala) {
+    const { birthRasi, houses = DEFAULT_CHANDRA_BALA_HOUSES } = constraints.chandraBala;
+    checks.push(m => houses.includes(((m.moonRasi - birthRasi + 12) % 12) + 1));
+  }
+  if (constraints.excludePeriods) {
+    const excluded = constraints.excludePeriods;
+    checks.push(m => !m.periods.some(period => excluded.includes(period)));
+  }
+  if (constraints.custom) {
+    checks.push(constraints.custom);
+  }
+
+  return checks;
+}
+
+/**
+ * Find time windows that satisfy a set of muhurta constraints
+ * @param start - Start of the search range (UTC)
+ * @param end - End of the search range (UTC)
+ * @param location - Geographic location (for lagna, sunrise and day periods; its timezone
+ *   only decides where the local days begin)
+ * @param constraints - Conditions on tithi, nakshatra, yoga, karana, weekday, lagna,
+ *   Tara bala, Chandra bala and day periods; all must hold
+ * @param options - Ayanamsa, minimum duration, ranking preferences and result limit
+ * @returns Windows ranked by the share of preferences met (then by length), with UTC
+ *   start and end times and the panchanga at their middle
+ * @throws Error if the range is reversed
+ * @remarks Time is scanned in steps no longer than the time the constrained angles
+ *   need to reach their next boundary at their fastest motion, and every change is
+ *   then refined by bisection to about a second.
+ * @example
+ * ```typescript
+ * // Moon in a fixed nakshatra, no Rikta tithi, fixed lagna, outside Rahu Kalam
+ * const windows = findMuhurtas(start, end, location, {
+ *   nakshatras: NAKSHATRA_GROUPS.FIXED,
+ *   excludeTithis: TITHI_GROUPS.RIKTA,
+ *   lagnaRasis: RASI_GROUPS.FIXED,
+ *   excludePeriods: ['rahuKalam'],
+ * }, { minDuration: 30 });
+ * ```
+ */
+export function findMuhurtas(
+  start: Date,
+  end: Date,
+  location: GeoLocation,
+  constraints: MuhurtaConstraints,
+  options: MuhurtaOptions = {}
+): MuhurtaWindow[] {
+  initializeSweph();
+  const sweph = getNativeModule();
+
+  const { ayanamsa = 1, minDuration = 0, preferences, limit } = options;
+
+  const startJd = dateToJulian(start);
+  const endJd = dateToJulian(end);
+  if (endJd < startJd) {
+    throw new Error('Muhurta search end must not be before start');
+  }
+
+  const days = getSolarDays(startJd, endJd, location);
+  const breakpoints = days
+    .flatMap(day => [day.midnight, day.sunrise ?? day.midnight, ...day.periods.flatMap(p => [p.start, p.end])])
+    .sort((a, b) => a - b);
+
+  setSiderealMode(ayanamsa);
+
+  const lagnaAt = (jd: number): number => {
+    const result = sweph.swe_houses(jd, location.latitude, location.longitude, HouseSystem.PLACIDUS);
+    const ascendant = typeof result.ascendant === 'number' ? result.ascendant : result.cusp?.[0] ?? 0;
+    return normalizeLongitude(ascendant - sweph.swe_get_ayanamsa_ut(jd));
+  };
+
+  const momentAt = (jd: number): MuhurtaMoment => {
+    const elongation = getElongation(jd);
+    const moon = getMoonLongitude(jd);
+
+    const index = Math.min(days.length - 1, Math.max(0, Math.floor(jd - days[0]!.midnight)));
+    const day = days[index]!;
+    // Before sunrise it is still the previous weekday
+    const vara = day.sunrise === null || jd >= day.sunrise ? day.vara : ((day.vara + 5) % 7) + 1;
+
+    const periods = [days[index - 1], day]
+      .flatMap(d => d?.periods ?? [])
+      .filter(p => jd >= p.start && jd < p.end)
+      .map(p => p.name);
+
+    return {
+      julianDay: jd,
+      tithi: Math.min(30, Math.floor(elongation / 12) + 1),
+      nakshatra: Math.min(27, Math.floor(moon / NAKSHATRA_SPAN) + 1),
+      yoga: Math.min(27, Math.floor(getYogaAngle(jd) / NAKSHATRA_SPAN) + 1),
+      karana: getKaranaName(Math.min(59, Math.floor(elongation / 6))),
+      vara,
+      lagnaRasi: getRashi(lagnaAt(jd)),
+      moonRasi: getRashi(moon),
+      periods: [...new Set(periods)],
+    };
+  };
+
+  const checks = buildChecks(constraints);
+  const satisfied = (jd: number) => {
+    const moment = momentAt(jd);
+    return checks.every(check => check(moment));
+  };
+
+  // Longest step that cannot carry a constrained angle past its next boundary
+  const usesKarana = Boolean(constraints.karanas || constraints.excludeKaranas);
+  const usesElongation = usesKarana || Boolean(constraints.tithis || constraints.excludeTithis);
+  const usesNakshatra = Boolean(constraints.nakshatras || constraints.excludeNakshatras || constraints.taraBala);
+  const usesYoga = Boolean(constraints.yogas || constraints.excludeYogas);
+
+  const stepAt = (jd: number): number => {
+    let step = constraints.custom ? CUSTOM_STEP_DAYS : MAX_STEP_DAYS;
+
+    if (usesElongation) {
+      const span = usesKarana ? 6 : 12;
+      step = Math.min(step, (span - getElongation(jd) % span) / MAX_ELONGATION_RATE);
+    }
+    if (usesNakshatra || constraints.chandraBala) {
+      const moon = getMoonLongitude(jd);
+      if (usesNakshatra) step = Math.min(step, (NAKSHATRA_SPAN - moon % NAKSHATRA_SPAN) / MAX_MOON_RATE);
+      if (constraints.chandraBala) step = Math.min(step, (30 - moon % 30) / MAX_MOON_RATE);
+    }
+    if (usesYoga) {
+      step = Math.min(step, (NAKSHATRA_SPAN - getYogaAngle(jd) % NAKSHATRA_SPAN) / MAX_YOGA_RATE);
+    }
+    if (constraints.lagnaRasis) {
+      // The ascendant's speed varies through the day; allow it to double within a step
+      const lagna = lagnaAt(jd);
+      const rate = signedAngle(lagnaAt(jd + MINUTE), lagna) / MINUTE;
+      step = Math.min(step, rate > 0 ? (30 - lagna % 30) / (2 * rate) : MIN_STEP_DAYS);
+    }
+
+    return Math.max(MIN_STEP_DAYS, step);
+  };
+
+  const spans: Array<[number, number]> = [];
+  let jd = startJd;
+  let inside = satisfied(jd);
+  let windowStart = jd;
+  let breakpoint = 0;
+
+  while (jd < endJd) {
+    while (breakpoint < breakpoints.length && breakpoints[breakpoint]! <= jd) breakpoint++;
+    const next = Math.min(jd + stepAt(jd), endJd, breakpoints[breakpoint] ?? Infinity);
+    const nextInside = satisfied(next);
+
+    if (nextInside !== inside) {
+      const current = inside;
+      const edge = bisect(t => satisfied(t) === current ? -1 : 1, jd, next, 1e-5);
+      if (current) {
+        spans.push([windowStart, edge]);
+      } else {
+        windowStart = edge;
+      }
+      inside = nextInside;
+    }
+
+    jd = next;
+  }
+  if (inside) spans.push([windowStart, endJd]);
+
+  const preferenceChecks = preferences ? buildChecks(preferences) : [];
+
+  const windows: MuhurtaWindow[] = spans
+    .filter(([from, to]) => (to - from) * 1440 >= minDuration)
+    .map(([from, to]) => {
+      const moment = momentAt((from + to) / 2);
+      const met = preferenceChecks.filter(check => check(moment)).length;
+      return {
+        start: julianToDate(from),
+        end: julianToDate(to),
+        duration: (to - from) * 1440,
+        score: preferenceChecks.length > 0 ? met / preferenceChecks.length : 1,
+        moment,
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.duration - a.duration || a.start.getTime() - b.start.getTime());
+
+  return limit !== undefined ? windows.slice(0, limit) : windows;
+}
@@ -41,8 +41,9 @@ const shouldCacheModule = (): boolean => {
 /**
  * Dynamic require that webpack cannot detect at build time
  * Uses module.createRequire for ESM compatibility
+ * @internal
  */
-const dynamicRequire = (moduleName: string): any => {
+export const dynamicRequire = (moduleName: string): any => {
   // Use createRequire for ESM compatibility (Node.js 12+)
   // This is wrapped in a try-catch to handle different module systems
   try {
@@ -0,0 +1,265 @@
+/**
+ * Panchanga Calculations for @AstroFusion/sweph
+ */
+
+import type {
+  GeoLocation,
+  CalculationOptions,
+  Panchanga,
+  PanchangaElement,
+  TithiInfo,
+  NakshatraInfo,
+  VaraInfo,
+} from './types';
+import { PlanetId } from './types';
+import { CALC_FLAGS, NAKSHATRAS, TITHIS, YOGAS, KARANAS, VARAS } from './constants';
+import {
+  initializeSweph,
+  getNativeModule,
+  setSiderealMode,
+  dateToJulian,
+  julianToDate,
+  normalizeLongitude,
+  getAyanamsa,
+  callCalcUt,
+  callRiseTrans
+} from './utils';
+import { findAngleCrossing } from './search';
+
+const TITHI_SPAN = 12;
+const KARANA_SPAN = 6;
+const NAKSHATRA_SPAN = 360 / 27;
+
+/**
+ * Sidereal Sun and Moon longitudes (sidereal mode must already be set)
+ * @internal
+ */
+function getSunMoon(jd: number): { sun: number; moon: number } {
+  const flags = CALC_FLAGS.SIDEREAL | CALC_FLAGS.SWIEPH;
+  return {
+    sun: callCalcUt(jd, PlanetId.SUN, flags).longitude,
+    moon: callCalcUt(jd, PlanetId.MOON, flags).longitude,
+  };
+}
+
+/**
+ * Sun-Moon elongation (0-360°), the basis of tithi and karana
+ * @internal
+ */
+export function getElongation(jd: number): number {
+  const { sun, moon } = getSunMoon(jd);
+  return normalizeLongitude(moon - sun);
+}
+
+/**
+ * Sidereal Moon longitude, the basis of nakshatra
+ * @internal
+ */
+export function getMoonLongitude(jd: number): number {
+  return callCalcUt(jd, PlanetId.MOON, CALC_FLAGS.SIDEREAL | CALC_FLAGS.SWIEPH).longitude;
+}
+
+/**
+ * Sum of sidereal Sun and Moon longitudes (0-360°), the basis of nitya yoga
+ * @internal
+ */
+export function getYogaAngle(jd: number): number {
+  const { sun, moon } = getSunMoon(jd);
+  return normalizeLongitude(sun + moon);
+}
+
+/**
+ * Locate the division an angle is in and root-find its start and end
+ * @internal
+ */
+function findDivision(
+  angleAt: (jd: number) => number,
+  span: number,
+  jd: number
+): { index: number; start: number | null; end: number | null } {
+  const count = Math.round(360 / span);
+  const index = Math.min(Math.floor(angleAt(jd) / span), count - 1);
+
+  return {
+    index,
+    start: findAngleCrossing(angleAt, index * span, jd, -1),
+    end: findAngleCrossing(angleAt, ((index + 1) * span) % 360, jd, 1),
+  };
+}
+
+/**
+ * Get karana name from its index (0-59) within the lunar month
+ * @internal
+ */
+export function getKaranaName(index: number): string {
+  if (index === 0) return KARANAS.FIXED[3];
+  if (index >= 57) return KARANAS.FIXED[index - 57]!;
+  return KARANAS.MOVABLE[(index - 1) % 7]!;
+}
+
+/**
+ * Find the next sunrise after a Julian day
+ * @returns Julian day of sunrise, or null if the Sun does not rise within a day and a half
+ * @internal
+ */
+export function findSunrise(jd: number, location: GeoLocation): number | null {
+  const sweph = getNativeModule();
+  const result = callRiseTrans(jd, PlanetId.SUN, sweph.SE_CALC_RISE || 1, location);
+  const riseJd = result?.transitTime || result?.dret?.[0];
+  return riseJd > jd && riseJd - jd < 1.5 ? riseJd : null;
+}
+
+/**
+ * Find the next sunset after a Julian day
+ * @returns Julian day of sunset, or null if the Sun does not set within a day and a half
+ * @internal
+ */
+export function findSunset(jd: number, location: GeoLocation): number | null {
+  const sweph = getNativeModule();
+  const result = callRiseTrans(jd, PlanetId.SUN, sweph.SE_CALC_SET || 2, location);
+  const setJd = result?.transitTime || result?.dret?.[0];
+  return setJd > jd && setJd - jd < 1.5 ? setJd : null;
+}
+
+/**
+ * Find the sunrise-to-sunrise span containing a Julian day.
+ * Falls back to local midnight-to-midnight where the Sun does not rise.
+ * @internal
+ */
+function findVaraSpan(
+  jd: number,
+  location: GeoLocation
+): { start: number; end: number; fromSunrise: boolean } {
+  const timezone = location.timezone ?? 0;
+
+  let start = findSunrise(jd - 1, location);
+  if (start !== null && start > jd) {
+    start = findSunrise(jd - 2, location);
+  }
+  const end = start !== null ? findSunrise(start + 0.1, location) : null;
+
+  if (start === null || end === null || start > jd || end <= jd) {
+    const midnight = Math.floor(jd + timezone / 24 - 0.5) + 0.5 - timezone / 24;
+    return { start: midnight, end: midnight + 1, fromSunrise: false };
+  }
+
+  return { start, end, fromSunrise: true };
+}
+
+/**
+ * Weekday of the sunrise-to-sunrise day containing a Julian day
+ * @returns Vara number, 1 (Sunday) to 7 (Saturday)
+ * @internal
+ */
+export function getVaraNumber(jd: number, location: GeoLocation): number {
+  const span = findVaraSpan(jd, location);
+  return julianToDate(span.start, location.timezone ?? 0).getUTCDay() + 1;
+}
+
+/**
+ * Calculate the panchanga (tithi, vara, nakshatra, yoga, karana) for a moment,
+ * with the exact start and end time of each limb
+ * @param date - Date and time (local time)
+ * @param location - Geographic location (timezone used for local times)
+ * @param options - Calculation options (ayanamsa)
+ * @returns Panchanga with start/end times in local time
+ * @example
+ * ```typescript
+ * const panchanga = calculatePanchanga(new Date('2024-01-15T06:30:00'), {
+ *   latitude: 27.7172,
+ *   longitude: 85.324,
+ *   timezone: 5.75
+ * });
+ *
+ * console.log(`${panchanga.tithi.paksha} ${panchanga.tithi.name} until ${panchanga.tithi.end}`);
+ * console.log(`${panchanga.nakshatra.name} pada ${panchanga.nakshatra.pada}`);
+ * ```
+ */
+export function calculatePanchanga(
+  date: Date,
+  location: GeoLocation,
+  options: CalculationOptions = {}
+): Panchanga {
+  initializeSweph();
+
+  const { ayanamsa = 1, trueAyanamsa = false } = options;
+  const timezone = location.timezone ?? 0;
+
+  // Convert to UTC
+  const utcTime = new Date(date.getTime() - timezone * 60 * 60 * 1000);
+  const jd = dateToJulian(utcTime);
+
+  setSiderealMode(ayanamsa);
+
+  const toDate = (value: number | null): Date | null =>
+    value !== null ? julianToDate(value, timezone) : null;
+
+  // Tithi
+  const tithiSpan = findDivision(getElongation, TITHI_SPAN, jd);
+  const tithiNumber = tithiSpan.index + 1;
+  const tithi: TithiInfo = {
+    number: tithiNumber,
+    name: tithiNumber === 30 ? TITHIS[15] : TITHIS[(tithiNumber - 1) % 15]!,
+    paksha: tithiNumber <= 15 ? 'Shukla' : 'Krishna',
+    start: toDate(tithiSpan.start),
+    end: toDate(tithiSpan.end),
+  };
+
+  // Nakshatra
+  const nakshatraSpan = findDivision(getMoonLongitude, NAKSHATRA_SPAN, jd);
+  const moonLongitude = getMoonLongitude(jd);
+  const nakshatraDef = NAKSHATRAS[nakshatraSpan.index]!;
+  const nakshatra: NakshatraInfo = {
+    number: nakshatraDef.number,
+    name: nakshatraDef.name,
+    pada: Math.floor((moonLongitude % NAKSHATRA_SPAN) / (NAKSHATRA_SPAN / 4)) + 1,
+    lord: nakshatraDef.lord.name,
+    start: toDate(nakshatraSpan.start),
+    end: toDate(nakshatraSpan.end),
+  };
+
+  // Yoga
+  const yogaSpan = findDivision(getYogaAngle, NAKSHATRA_SPAN, jd);
+  const yoga: PanchangaElement = {
+    number: yogaSpan.index + 1,
+    name: YOGAS[yogaSpan.index]!,
+    start: toDate(yogaSpan.start),
+    end: toDate(yogaSpan.end),
+  };
+
+  // Karana
+  const karanaSpan = findDivision(getElongation, KARANA_SPAN, jd);
+  const karana: PanchangaElement = {
+    number: karanaSpan.index + 1,
+    name: getKaranaName(karanaSpan.index),
+    start: toDate(karanaSpan.start),
+    end: toDate(karanaSpan.end),
+  };
+
+  // Vara (sunrise to sunrise)
+  const varaSpan = findVaraSpan(jd, location);
+  const weekday = julianToDate(varaSpan.start, timezone).getUTCDay();
+  const varaDef = VARAS[weekday]!;
+  const vara: VaraInfo = {
+    number: varaDef.number,
+    name: varaDef.name,
+    english: varaDef.english,
+    lord: varaDef.lord.name,
+    start: toDate(varaSpan.start),
+    end: toDate(varaSpan.end),
+  };
+
+  const sunset = varaSpan.fromSunrise ? findSunset(varaSpan.start, location) : null;
+
+  return {
+    date,
+    tithi,
+    vara,
+    nakshatra,
+    yoga,
+    karana,
+    sunrise: varaSpan.fromSunrise ? toDate(varaSpan.start) : null,
+    sunset: toDate(sunset),
+    ayanamsaValue: getAyanamsa(utcTime, ayanamsa, trueAyanamsa),
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Day Period Calculations for @AstroFusion/sweph
+ */
+
+import type { DayPeriods, Choghadiya, Hora, GeoLocation, TimePeriod } from './types';
+import { PlanetId } from './types';
+import { CALC_FLAGS, VARAS } from './constants';
+import {
+  initializeSweph,
+  dateToJulian,
+  julianToDate,
+  callCalcUt
+} from './utils';
+import { findSunrise, findSunset } from './panchanga';
+
+/**
+ * Eighth of the day (1-8) ruled by Rahu, Sunday through Saturday
+ */
+const RAHU_KALAM_PART = [8, 2, 7, 5, 6, 4, 3];
+
+/**
+ * Durmuhurtas of each weekday (Sunday through Saturday), as 1-based indices
+ * into the 15 day muhurtas (or night muhurtas when `night` is set)
+ */
+const DURMUHURTAS: ReadonlyArray<ReadonlyArray<{ muhurta: number; night?: boolean }>> = [
+  [{ muhurta: 14 }],
+  [{ muhurta: 9 }, { muhurta: 12 }],
+  [{ muhurta: 4 }, { muhurta: 7, night: true }],
+  [{ muhurta: 8 }],
+  [{ muhurta: 6 }, { muhurta: 12 }],
+  [{ muhurta: 4 }, { muhurta: 9 }],
+  [{ muhurta: 1 }, { muhurta: 2 }],
+];
+
+/**
+ * Weekday index (0 = Sunday) of the planets whose portions are Yamaganda and Gulika
+ */
+const JUPITER_WEEKDAY = 4;
+const SATURN_WEEKDAY = 6;
+
+/**
+ * Choghadiyas in day order, with the weekday index (0 = Sunday) of their ruling planet
+ */
+const CHOGHADIYAS: ReadonlyArray<{ name: Choghadiya['name']; weekday: number; quality: Choghadiya['quality'] }> = [
+  { name: 'Udveg', weekday: 0, quality: 'bad' },
+  { name: 'Char', weekday: 5, quality: 'neutral' },
+  { name: 'Labh', weekday: 3, quality: 'good' },
+  { name: 'Amrit', weekday: 1, quality: 'good' },
+  { name: 'Kaal', weekday: 6, quality: 'bad' },
+  { name: 'Shubh', weekday: 4, quality: 'good' },
+  { name: 'Rog', weekday: 2, quality: 'bad' },
+];
+
+/**
+ * Hora lords in descending orbital (Chaldean) order
+ */
+const CHALDEAN_ORDER = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon'];
+
+/**
+ * Sunrise, sunset and next sunrise of the local day containing a date
+ * @internal
+ */
+function getSolarDay(date: Date, location: GeoLocation): {
+  weekday: number;
+  midnight: number;
+  sunrise: number | null;
+  sunset: number | null;
+  nextSunrise: number | null;
+} {
+  const timezone = location.timezone ?? 0;
+
+  const localMidnight = new Date(date.getTime());
+  localMidnight.setUTCHours(0, 0, 0, 0);
+  const midnight = dateToJulian(localMidnight) - timezone / 24;
+
+  let sunrise = findSunrise(midnight, location);
+  if (sunrise !== null && sunrise >= midnight + 1) sunrise = null;
+  const sunset = sunrise !== null ? findSunset(sunrise, location) : null;
+  const nextSunrise = sunset !== null ? findSunrise(sunset, location) : null;
+
+  return { weekday: localMidnight.getUTCDay(), midnight, sunrise, sunset, nextSunrise };
+}
+
+/**
+ * Whether the Sun stays up or down all day, from its altitude at local noon
+ * @internal
+ */
+function getPolarCondition(midnight: number, location: GeoLocation): 'midnight-sun' | 'polar-night' {
+  const noon = midnight + 0.5 - location.longitude / 360 + (location.timezone ?? 0) / 24;
+  const declination = callCalcUt(noon, PlanetId.SUN, CALC_FLAGS.SWIEPH | CALC_FLAGS.EQUATORIAL).latitude;
+  return 90 - Math.abs(location.latitude - declination) > 0 ? 'midnight-sun' : 'polar-night';
+}
+
+/**
+ * The index-th (0-based) of `parts` equal divisions between two Julian days
+ * @internal
+ */
+function getPart(
+  name: string,
+  start: number,
+  end: number,
+  parts: number,
+  index: number,
+  timezone: number
+): TimePeriod {
+  const length = (end - start) / parts;
+  return {
+    name,
+    start: julianToDate(start + index * length, timezone),
+    end: julianToDate(start + (index + 1) * length, timezone),
+  };
+}
+
+/**
+ * Calculate Rahu Kalam, Yamaganda, Gulika Kalam, Abhijit muhurta and Durmuhurta
+ * for a day, from its sunrise and sunset
+ * @param date - Date (local time); only the calendar day is used
+ * @param location - Geographic location (timezone used for local times)
+ * @returns Periods in local time. Where the Sun does not rise or set (polar day or
+ *   night) `polar` is set and the day periods are null.
+ * @remarks Rahu Kalam, Yamaganda and Gulika Kalam are eighths of the day; the
+ *   eighths are ruled in weekday order starting with the lord of the weekday (at
+ *   night, with the lord of the fifth weekday), Yamaganda being Jupiter's and Gulika
+ *   Saturn's. Abhijit on Wednesdays is traditionally not used.
+ * @example
+ * ```typescript
+ * const periods = calculateDayPeriods(new Date('2024-01-15'), {
+ *   latitude: 27.7172,
+ *   longitude: 85.324,
+ *   timezone: 5.75
+ * });
+ *
+ * console.log(`Rahu Kalam: ${periods.rahuKalam?.start} - ${periods.rahuKalam?.end}`);
+ * ```
+ */
+export function calculateDayPeriods(date: Date, location: GeoLocation): DayPeriods {
+  initializeSweph();
+
+  const timezone = location.timezone ?? 0;
+  const { weekday, midnight, sunrise, sunset, nextSunrise } = getSolarDay(date, location);
+
+  const result: DayPeriods = {
+    date,
+    vara: weekday + 1,
+    sunrise: sunrise !== null ? julianToDate(sunrise, timezone) : null,
+    sunset: sunset !== null ? julianToDate(sunset, timezone) : null,
+    nextSunrise: nextSunrise !== null ? julianToDate(nextSunrise, timezone) : null,
+    polar: null,
+    rahuKalam: null,
+    yamaganda: null,
+    gulikaKalam: null,
+    abhijit: null,
+    durmuhurta: [],
+    night: { yamaganda: null, gulikaKalam: null },
+  };
+
+  if (sunrise === null || sunset === null) {
+    result.polar = getPolarCondition(midnight, location);
+    return result;
+  }
+
+  const dayPart = (lordWeekday: number) => (lordWeekday - weekday + 7) % 7;
+  result.rahuKalam = getPart('Rahu Kalam', sunrise, sunset, 8, RAHU_KALAM_PART[weekday]! - 1, timezone);
+  result.yamaganda = getPart('Yamaganda', sunrise, sunset, 8, dayPart(JUPITER_WEEKDAY), timezone);
+  result.gulikaKalam = getPart('Gulika Kalam', sunrise, sunset, 8, dayPart(SATURN_WEEKDAY), timezone);
+  result.abhijit = getPart('Abhijit', sunrise, sunset, 15, 7, timezone);
+
+  for (const { muhurta, night } of DURMUHURTAS[weekday]!) {
+    if (!night) {
+      result.durmuhurta.push(getPart('Durmuhurta', sunrise, sunset, 15, muhurta - 1, timezone));
+    } else if (nextSunrise !== null) {
+      result.durmuhurta.push(getPart('Durmuhurta', sunset, nextSunrise, 15, muhurta - 1, timezone));
+    }
+  }
+
+  if (nextSunrise !== null) {
+    // The night sequence starts with the lord of the fifth weekday
+    const nightPart = (lordWeekday: number) => (lordWeekday - weekday - 4 + 14) % 7;
+    result.night = {
+      yamaganda: getPart('Yamaganda', sunset, nextSunrise, 8, nightPart(JUPITER_WEEKDAY), timezone),
+      gulikaKalam: getPart('Gulika Kalam', sunset, nextSunrise, 8, nightPart(SATURN_WEEKDAY), timezone),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Calculate the eight day and eight night Choghadiya segments
+ * @param date - Date (local time); only the calendar day is used
+ * @param location - Geographic location (timezone used for local times)
+ * @returns Day segments from sunrise, then night segments from sunset, in local time.
+ *   Empty where the Sun does not rise or set; without night segments if it does not
+ *   rise again.
+ * @remarks The day starts with the Choghadiya of the weekday lord and follows the day
+ *   order; the night starts with that of the fifth weekday lord and steps back two.
+ * @example
+ * ```typescript
+ * const choghadiya = calculateChoghadiya(new Date('2024-01-15'), location);
+ * const good = choghadiya.filter(c => c.quality === 'good');
+ * ```
+ */
+export function calculateChoghadiya(date: Date, location: GeoLocation): Choghadiya[] {
+  initializeSweph();
+
+  const timezone = location.timezone ?? 0;
+  const { weekday, sunrise, sunset, nextSunrise } = getSolarDay(date, location);
+  if (sunrise === null || sunset === null) return [];
+
+  const startOf = (lordWeekday: number) => CHOGHADIYAS.findIndex(c => c.weekday === lordWeekday);
+  const segment = (index: number, start: number, end: number, part: number, night: boolean): Choghadiya => {
+    const { name, weekday: lordWeekday, quality } = CHOGHADIYAS[index % 7]!;
+    return {
+      ...getPart(name, start, end, 8, part, timezone),
+      name,
+      planet: VARAS[lordWeekday]!.lord.name,
+      quality,
+      night,
+    };
+  };
+
+  const segments: Choghadiya[] = [];
+  const dayStart = startOf(weekday);
+  for (let part = 0; part < 8; part++) {
+    segments.push(segment(dayStart + part, sunrise, sunset, part, false));
+  }
+
+  if (nextSunrise !== null) {
+    const nightStart = startOf((weekday + 4) % 7);
+    for (let part = 0; part < 8; part++) {
+      segments.push(segment(nightStart + 5 * part, sunset, nextSunrise, part, true));
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Calculate the 24 planetary hours (horas) from sunrise to the next sunrise
+ * @param date - Date (local time); only the calendar day is used
+ * @param location - Geographic location (timezone used for local times)
+ * @returns Twelve day horas from sunrise and twelve night horas from sunset, in local
+ *   time. Empty where the Sun does not rise or set; without night horas if it does not
+ *   rise again.
+ * @remarks The first hora belongs to the weekday lord; the rest follow in descending
+ *   Chaldean order (Saturn, Jupiter, Mars, Sun, Venus, Mercury, Moon).
+ * @example
+ * ```typescript
+ * const horas = calculateHoras(new Date('2024-01-15'), location);
+ * const jupiterHoras = horas.filter(h => h.planet === 'Jupiter');
+ * ```
+ */
+export function calculateHoras(date: Date, location: GeoLocation): Hora[] {
+  initializeSweph();
+
+  const timezone = location.timezone ?? 0;
+  const { weekday, sunrise, sunset, nextSunrise } = getSolarDay(date, location);
+  if (sunrise === null || sunset === null) return [];
+
+  const first = CHALDEAN_ORDER.indexOf(VARAS[weekday]!.lord.name);
+  const hora = (number: number, start: number, end: number, night: boolean): Hora => {
+    const planet = CHALDEAN_ORDER[(first + number - 1) % 7]!;
+    return {
+      ...getPart(planet, start, end, 12, (number - 1) % 12, timezone),
+      planet,
+      number,
+      night,
+    };
+  };
+
+  const horas: Hora[] = [];
+  for (let number = 1; number <= 12; number++) {
+    horas.push(hora(number, sunrise, sunset, false));
+  }
+
+  if (nextSunrise !== null) {
+    for (let number = 13; number <= 24; number++) {
+      horas.push(hora(number, sunset, nextSunrise, true));
+    }
+  }
+
+  return horas;
+}
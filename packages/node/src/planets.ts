@@ -3,16 +3,19 @@
  */
 
 import type { Planet, CalculationOptions, GeoLocation } from './types';
-import { VEDIC_PLANET_ORDER, OUTER_PLANETS, CALC_FLAGS } from './constants';
+import { VEDIC_PLANET_ORDER, OUTER_PLANETS, AST_OFFSET, MINOR_PLANETS, CALC_FLAGS } from './constants';
 import {
   initializeSweph,
   getNativeModule,
+  setSiderealMode,
   dateToJulian,
   julianToDate,
   normalizeLongitude,
   getRashi,
   getRashiDegree,
   isRetrograde,
+  callCalcUt,
+  callCalcUtVector,
   callRiseTrans,
   callAzAlt
 } from './utils';
@@ -68,12 +71,72 @@ function checkCombustion(planetId: string, planetLong: number, sunLong: number):
   return diff <= limit;
 }
 
+/**
+ * Name of a body as reported by Swiss Ephemeris
+ * @internal
+ */
+function getPlanetName(planetId: number): string | null {
+  const sweph = getNativeModule();
+  const result = sweph.swe_get_planet_name(planetId);
+  const name = typeof result === 'object' ? result?.name : result;
+  return typeof name === 'string' && name && !name.includes('not found') ? name : null;
+}
+
+/**
+ * Resolve a body given as a minor planet name or Swiss Ephemeris body id
+ * @param body - Name from MINOR_PLANETS, or body id (AST_OFFSET + catalog number for numbered asteroids)
+ * @returns Body id, display name and whether it is a minor planet
+ * @throws Error if a name is not in MINOR_PLANETS
+ * @internal
+ */
+export function resolveBody(body: number | string): { id: number; name: string; minor: boolean } {
+  if (typeof body === 'string') {
+    const known = MINOR_PLANETS.find(p => p.name.toLowerCase() === body.trim().toLowerCase());
+    if (!known) {
+      throw new Error(`Unknown minor planet: ${body}. Pass AST_OFFSET + its catalog number instead`);
+    }
+    return { id: known.id, name: known.name, minor: true };
+  }
+
+  const number = body > AST_OFFSET ? body - AST_OFFSET : null;
+  const known = MINOR_PLANETS.find(p => p.id === body || p.number === number);
+  if (known) return { id: body, name: known.name, minor: true };
+  if (number !== null) return { id: body, name: getPlanetName(body) ?? `Asteroid ${number}`, minor: true };
+
+  return { id: body, name: getPlanetName(body) ?? `Planet ${body}`, minor: false };
+}
+
+/**
+ * Calculate a body, naming the missing ephemeris file when Swiss Ephemeris cannot find it
+ * @returns The six swe_calc_ut values: position and daily speed
+ * @throws Error if the body's se1 file is not in the ephemeris path or the calculation fails
+ * @internal
+ */
+export function calculateBody(jd: number, body: { id: number; name: string }, flags: number): number[] {
+  try {
+    return callCalcUtVector(jd, body.id, flags);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const file = /file '([^']+\.se1)' not found/.exec(message)?.[1];
+    if (file) {
+      throw new Error(
+        `Ephemeris file ${file} for ${body.name} not found; ` +
+        'place it in the ephemeris path (see setEphemerisPath)'
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Calculate positions for all 9 Vedic planets (Navagraha)
  * @param date - Date and time for calculation (local time)
- * @param options - Calculation options including ayanamsa, house system, and location
- * @returns Array of planet positions with Vedic astrology details
- * @throws Error if Swiss Ephemeris initialization or calculation fails
+ * @param options - Calculation options including zodiac, ayanamsa, house system, location
+ *   and extra minor planets
+ * @returns Array of planet positions with Vedic astrology details; extra bodies follow
+ *   the planets, before Ketu
+ * @throws Error if Swiss Ephemeris initialization or calculation fails, or an extra body's
+ *   se1 file is not in the ephemeris path
  * @example
  * ```typescript
  * // Basic calculation with default Lahiri ayanamsa
@@ -85,6 +148,12 @@ function checkCombustion(planetId: string, planetLong: number, sunLong: number):
  *   location: { latitude: 28.6139, longitude: 77.2090, timezone: 5.5 }
  * });
  *
+ * // Tropical longitudes for Western charts
+ * const tropical = calculatePlanets(new Date(), { zodiac: 'tropical' });
+ *
+ * // With asteroids and a numbered minor planet (Eris)
+ * const withAsteroids = calculatePlanets(new Date(), { extraBodies: ['Ceres', 'Chiron', AST_OFFSET + 136199] });
+ *
  * // Get specific planet data
  * const sun = planets.find(p => p.name === 'Sun');
  * console.log(`${sun?.name}: ${sun?.longitude}° in ${RASHIS[sun!.rasi-1].name}`);
@@ -97,16 +166,18 @@ export function calculatePlanets(
   initializeSweph();
   const sweph = getNativeModule();
   
-  const { ayanamsa = 1, includeSpeed = true, location } = options;
-  
-  // Set sidereal mode with specified ayanamsa
-  sweph.swe_set_sid_mode(ayanamsa, 0, 0);
+  const { ayanamsa = 1, zodiac = 'sidereal', includeSpeed = true, location } = options;
   
   const jd = dateToJulian(date);
   const planets: Planet[] = [];
   
   // Build calculation flags
-  let flags = CALC_FLAGS.SIDEREAL | CALC_FLAGS.SWIEPH;
+  let flags = CALC_FLAGS.SWIEPH;
+  if (zodiac === 'sidereal') {
+    // Set sidereal mode with specified ayanamsa
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
+  }
   if (includeSpeed) flags |= CALC_FLAGS.SPEED;
   
   let rahuLongitude: number | null = null;
@@ -170,6 +241,19 @@ export function calculatePlanets(
        });
     }
   }
+
+  for (const body of options.extraBodies ?? []) {
+    const def = resolveBody(body);
+    const [longitude = 0, latitude = 0, distance = 0, speed = 0] = calculateBody(jd, def, flags);
+
+    calculatedPlanets.push({
+      def,
+      longitude: normalizeLongitude(longitude),
+      latitude,
+      distance,
+      speed
+    });
+  }
   
   // Process results including Ketu
   for (const p of calculatedPlanets) {
@@ -182,12 +266,12 @@ export function calculatePlanets(
       });
     }
     
-    const isCombust = sunLongitude !== null 
+    const isCombust = sunLongitude !== null && !p.def.minor
       ? checkCombustion(p.def.name, p.longitude, sunLongitude) 
       : false;
       
     planets.push({
-      id: p.def.name.toLowerCase(),
+      id: p.def.name.toLowerCase().replace(/ /g, '-'),
       name: p.def.name,
       longitude: p.longitude,
       latitude: p.latitude,
@@ -237,11 +321,13 @@ export function calculatePlanets(
 
 /**
  * Calculate position for a single planet or celestial body
- * @param planetId - Swiss Ephemeris planet ID (0=Sun, 1=Moon, 2=Mercury, etc.)
+ * @param planetId - Swiss Ephemeris planet ID (0=Sun, 1=Moon, 2=Mercury, etc.), AST_OFFSET + catalog
+ *   number for a numbered minor planet, or a minor planet name from MINOR_PLANETS ('Ceres', 'Eris')
  * @param date - Date and time for calculation (local time)
- * @param options - Calculation options including ayanamsa and location
- * @returns Planet position object or null if calculation fails
- * @throws Error if Swiss Ephemeris is not initialized
+ * @param options - Calculation options including zodiac, ayanamsa and location
+ * @returns Planet position object
+ * @throws Error if Swiss Ephemeris is not initialized, the calculation fails, the minor planet name is unknown or
+ *   its se1 file (seas_18.se1 for Chiron to Vesta, se#####.se1 otherwise) is not in the ephemeris path
  * @example
  * ```typescript
  * // Calculate Moon position
@@ -250,58 +336,36 @@ export function calculatePlanets(
  *   location: { latitude: 27.7172, longitude: 85.324, timezone: 5.75 }
  * });
  *
- * if (moon) {
- *   console.log(`Moon at ${moon.longitude}° (${moon.azimuth}° azimuth, ${moon.altitude}° altitude)`);
- * }
+ * console.log(`Moon at ${moon.longitude}° (${moon.azimuth}° azimuth, ${moon.altitude}° altitude)`);
+ *
+ * // Minor planets by name or catalog number
+ * const ceres = calculateSinglePlanet('Ceres', new Date());
+ * const eros = calculateSinglePlanet(AST_OFFSET + 433, new Date());
  * ```
  */
 export function calculateSinglePlanet(
-  planetId: number,
+  planetId: number | string,
   date: Date,
   options: CalculationOptions = {}
-): Planet | null {
+): Planet {
   initializeSweph();
-  const sweph = getNativeModule();
-  
-  const { ayanamsa = 1, includeSpeed = true, location } = options;
   
-  sweph.swe_set_sid_mode(ayanamsa, 0, 0);
+  const { ayanamsa = 1, zodiac = 'sidereal', includeSpeed = true, location } = options;
   
   const jd = dateToJulian(date);
   
-  let flags = CALC_FLAGS.SIDEREAL | CALC_FLAGS.SWIEPH;
-  if (includeSpeed) flags |= CALC_FLAGS.SPEED;
-  
-  const result = sweph.swe_calc_ut(jd, planetId, flags);
-  
-  if (!result || typeof result !== 'object') {
-    return null;
+  let flags = CALC_FLAGS.SWIEPH;
+  if (zodiac === 'sidereal') {
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
   }
+  if (includeSpeed) flags |= CALC_FLAGS.SPEED;
   
-  let longitude = 0;
-  let latitude = 0;
-  let distance = 0;
-  let speed = 0;
-  
-  if (Array.isArray(result)) {
-    longitude = result[0] || 0;
-    latitude = result[1] || 0;
-    distance = result[2] || 0;
-    speed = result[3] || 0;
-  } else if (result.xx && Array.isArray(result.xx)) {
-    longitude = result.xx[0] || 0;
-    latitude = result.xx[1] || 0;
-    distance = result.xx[2] || 0;
-    speed = result.xx[3] || 0;
-  }
+  const body = resolveBody(planetId);
+  const [longitude = 0, latitude = 0, distance = 0, speed = 0] = calculateBody(jd, body, flags);
   
   const normalizedLong = normalizeLongitude(longitude);
-  
-  // Get planet name from sweph
-  const planetNameResult = sweph.swe_get_planet_name(planetId);
-  const planetName = (typeof planetNameResult === 'object' && planetNameResult?.name)
-    ? planetNameResult.name
-    : (planetNameResult || `Planet ${planetId}`);
+  const planetName = body.name;
   
   // Az/Alt
   let azAlt = {};
@@ -315,17 +379,14 @@ export function calculateSinglePlanet(
   
   // Check combustion (requires Sun position if we're not Sun)
   let isCombust = false;
-  if (planetId !== 0 && planetName !== 'Rahu' && planetName !== 'Ketu') { // 0 is Sun
+  if (body.id !== 0 && !body.minor && planetName !== 'Rahu' && planetName !== 'Ketu') { // 0 is Sun
      // Calculate Sun position briefly for combustion check
-     const sunResult = sweph.swe_calc_ut(jd, 0, flags);
-     const sunLong = Array.isArray(sunResult) ? sunResult[0] : (sunResult.xx ? sunResult.xx[0] : 0);
-     if (sunLong !== undefined) {
-       isCombust = checkCombustion(planetName, normalizedLong, normalizeLongitude(sunLong));
-     }
+     const sunLong = callCalcUt(jd, 0, flags).longitude;
+     isCombust = checkCombustion(planetName, normalizedLong, normalizeLongitude(sunLong));
   }
   
   return {
-    id: planetId.toString(),
+    id: body.id.toString(),
     name: planetName,
     longitude: normalizedLong,
     latitude,
@@ -0,0 +1,182 @@
+/**
+ * Coordinate Calculations for @AstroFusion/sweph
+ */
+
+import type { BodyPosition, CoordinateCenter, CoordinateSystem, PositionFor, PositionOptions } from './types';
+import { PlanetId } from './types';
+import { CALC_FLAGS } from './constants';
+import { initializeSweph, getNativeModule, setSiderealMode, dateToJulian, normalizeLongitude } from './utils';
+import { resolveBody, calculateBody } from './planets';
+
+/**
+ * Swiss Ephemeris flag for each origin
+ */
+const CENTER_FLAGS: Record<CoordinateCenter, number> = {
+  geocentric: 0,
+  heliocentric: CALC_FLAGS.HELIOCENTRIC,
+  barycentric: CALC_FLAGS.BARYCENTRIC,
+  topocentric: CALC_FLAGS.TOPOCENTRIC,
+};
+
+/**
+ * Swiss Ephemeris flag for each coordinate system
+ */
+const COORDINATE_FLAGS: Record<CoordinateSystem, number> = {
+  ecliptic: 0,
+  equatorial: CALC_FLAGS.EQUATORIAL,
+  cartesian: CALC_FLAGS.XYZ,
+};
+
+/**
+ * Sun to Pluto in Swiss Ephemeris order
+ */
+const DEFAULT_BODIES = [
+  PlanetId.SUN,
+  PlanetId.MOON,
+  PlanetId.MERCURY,
+  PlanetId.VENUS,
+  PlanetId.MARS,
+  PlanetId.JUPITER,
+  PlanetId.SATURN,
+  PlanetId.URANUS,
+  PlanetId.NEPTUNE,
+  PlanetId.PLUTO,
+];
+
+/**
+ * Build the calculation flags for the options, setting the sidereal mode and observer
+ * @throws Error if a topocentric position is requested without a location
+ * @internal
+ */
+function getPositionFlags(options: PositionOptions): number {
+  const sweph = getNativeModule();
+  const { coordinates = 'ecliptic', center = 'geocentric', location, zodiac = 'sidereal', ayanamsa = 1 } = options;
+
+  let flags = CALC_FLAGS.SWIEPH | CALC_FLAGS.SPEED | COORDINATE_FLAGS[coordinates] | CENTER_FLAGS[center];
+
+  // Right ascension and rectangular coordinates have no sidereal variant here
+  if (coordinates === 'ecliptic' && zodiac === 'sidereal') {
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
+  }
+
+  if (center === 'topocentric') {
+    if (!location) {
+      throw new Error('Topocentric positions require a location');
+    }
+    sweph.swe_set_topo(location.longitude, location.latitude, location.altitude ?? 0);
+  }
+
+  return flags;
+}
+
+/**
+ * Map the six swe_calc_ut values to a typed position
+ * @internal
+ */
+function toPosition(
+  body: { id: number; name: string },
+  center: CoordinateCenter,
+  coordinates: CoordinateSystem,
+  values: number[]
+): BodyPosition {
+  const [a = 0, b = 0, c = 0, da = 0, db = 0, dc = 0] = values;
+  const base = { id: body.id, name: body.name, center };
+
+  if (coordinates === 'cartesian') {
+    return { ...base, coordinates, x: a, y: b, z: c, xSpeed: da, ySpeed: db, zSpeed: dc };
+  }
+  if (coordinates === 'equatorial') {
+    return {
+      ...base,
+      coordinates,
+      rightAscension: normalizeLongitude(a),
+      declination: b,
+      distance: c,
+      rightAscensionSpeed: da,
+      declinationSpeed: db,
+      distanceSpeed: dc,
+    };
+  }
+  return {
+    ...base,
+    coordinates,
+    longitude: normalizeLongitude(a),
+    latitude: b,
+    distance: c,
+    longitudeSpeed: da,
+    latitudeSpeed: db,
+    distanceSpeed: dc,
+  };
+}
+
+/**
+ * Calculate the position of a body in a chosen coordinate system and origin
+ * @param body - Swiss Ephemeris body id (PlanetId.EARTH for heliocentric Earth), AST_OFFSET +
+ *   catalog number, or a minor planet name from MINOR_PLANETS
+ * @param date - Date and time for calculation (UTC)
+ * @param options - Coordinate system, origin, observer location and zodiac
+ * @returns Ecliptic longitude/latitude, right ascension/declination or x/y/z, with daily
+ *   speeds; the result type follows the `coordinates` option
+ * @throws Error if a topocentric position has no location, or Swiss Ephemeris reports an error
+ * @example
+ * ```typescript
+ * const mars = calculatePosition(PlanetId.MARS, new Date(), { coordinates: 'equatorial' });
+ * console.log(mars.rightAscension / 15, mars.declination); // RA in hours
+ *
+ * const earth = calculatePosition(PlanetId.EARTH, new Date(), { coordinates: 'cartesian', center: 'heliocentric' });
+ * console.log(earth.x, earth.y, earth.z);
+ * ```
+ */
+export function calculatePosition<C extends CoordinateSystem = 'ecliptic'>(
+  body: number | string,
+  date: Date,
+  options: PositionOptions<C> = {}
+): PositionFor<C> {
+  initializeSweph();
+
+  const flags = getPositionFlags(options);
+  const resolved = resolveBody(body);
+  const values = calculateBody(dateToJulian(date), resolved, flags);
+
+  return toPosition(resolved, options.center ?? 'geocentric', options.coordinates ?? 'ecliptic', values) as PositionFor<C>;
+}
+
+/**
+ * Calculate the positions of several bodies in a chosen coordinate system and origin
+ * @param date - Date and time for calculation (UTC)
+ * @param options - Coordinate system, origin, observer location, zodiac and bodies
+ *   (default: Sun to Pluto, with the Earth instead of the Sun for heliocentric positions)
+ * @returns One position per body, in the order of the bodies
+ * @throws Error if a topocentric position has no location, or Swiss Ephemeris reports an error
+ * @example
+ * ```typescript
+ * // Heliocentric rectangular coordinates for an orrery
+ * const orrery = calculatePositions(new Date(), { coordinates: 'cartesian', center: 'heliocentric' });
+ *
+ * // Apparent RA/Dec for a sky map, seen from Kathmandu
+ * const sky = calculatePositions(new Date(), {
+ *   coordinates: 'equatorial',
+ *   center: 'topocentric',
+ *   location: { latitude: 27.7172, longitude: 85.324, altitude: 1400 }
+ * });
+ * ```
+ */
+export function calculatePositions<C extends CoordinateSystem = 'ecliptic'>(
+  date: Date,
+  options: PositionOptions<C> = {}
+): PositionFor<C>[] {
+  initializeSweph();
+
+  const { center = 'geocentric', coordinates = 'ecliptic' } = options;
+  const bodies = options.bodies
+    ?? DEFAULT_BODIES.map(id => (center === 'heliocentric' && id === PlanetId.SUN ? PlanetId.EARTH : id));
+
+  const flags = getPositionFlags(options);
+  const jd = dateToJulian(date);
+
+  return bodies.map(body => {
+    const resolved = resolveBody(body);
+    return toPosition(resolved, center, coordinates, calculateBody(jd, resolved, flags)) as PositionFor<C>;
+  });
+}
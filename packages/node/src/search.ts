@@ -0,0 +1,91 @@
+/**
+ * Time Search Helpers for @AstroFusion/sweph
+ *
+ * Root-finding primitives shared by the panchanga, ingress, station and
+ * phase calculations. All times are Julian days (UT).
+ * @internal
+ */
+
+/**
+ * Signed difference `a - b` between two angles, normalized to (-180°, 180°]
+ * @internal
+ */
+export function signedAngle(a: number, b: number): number {
+  let diff = (a - b) % 360;
+  if (diff <= -180) diff += 360;
+  if (diff > 180) diff -= 360;
+  return diff;
+}
+
+/**
+ * Bisect a bracketed sign change of `fn` between `lo` and `hi`
+ * @param fn - Function with fn(lo) < 0 and fn(hi) >= 0 (or the reverse)
+ * @param lo - Lower Julian day
+ * @param hi - Upper Julian day
+ * @param tolerance - Convergence tolerance in days (default ~0.1 second)
+ * @returns Julian day of the sign change
+ * @internal
+ */
+export function bisect(
+  fn: (jd: number) => number,
+  lo: number,
+  hi: number,
+  tolerance: number = 1e-6
+): number {
+  const rising = fn(lo) < 0;
+
+  while (hi - lo > tolerance) {
+    const mid = (lo + hi) / 2;
+    if ((fn(mid) < 0) === rising) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+
+  return (lo + hi) / 2;
+}
+
+/**
+ * Find when a steadily increasing angle (e.g. Moon longitude, Sun-Moon
+ * elongation) reaches a target value, searching forward or backward from jd
+ * @param angleAt - Angle in degrees as a function of Julian day
+ * @param target - Target angle in degrees
+ * @param jd - Julian day to search from
+ * @param direction - 1 to search forward, -1 to search backward
+ * @param step - Scan step in days; must be small enough that the angle moves less than 180° per step
+ * @param maxDays - Give up after scanning this many days
+ * @returns Julian day of the crossing, or null if it was not found
+ * @internal
+ */
+export function findAngleCrossing(
+  angleAt: (jd: number) => number,
+  target: number,
+  jd: number,
+  direction: 1 | -1,
+  step: number = 0.25,
+  maxDays: number = 40
+): number | null {
+  const fn = (t: number) => signedAngle(angleAt(t), target);
+
+  let prev = jd;
+  let prevValue = fn(prev);
+
+  for (let travelled = 0; travelled < maxDays; travelled += step) {
+    const next = prev + direction * step;
+    const nextValue = fn(next);
+
+    const crossed = direction === 1
+      ? prevValue < 0 && nextValue >= 0
+      : prevValue >= 0 && nextValue < 0;
+
+    if (crossed && Math.abs(nextValue - prevValue) < 180) {
+      return direction === 1 ? bisect(fn, prev, next) : bisect(fn, next, prev);
+    }
+
+    prev = next;
+    prevValue = nextValue;
+  }
+
+  return null;
+}
@@ -0,0 +1,140 @@
+/**
+ * Retrograde Station Search for @AstroFusion/sweph
+ */
+
+import type { Station, StationOptions } from './types';
+import { CALC_FLAGS } from './constants';
+import {
+  initializeSweph,
+  setSiderealMode,
+  dateToJulian,
+  julianToDate,
+  callCalcUt
+} from './utils';
+import { bisect, findAngleCrossing } from './search';
+
+/**
+ * Scan step in days; retrograde periods of Mercury through Pluto last weeks to months
+ */
+const SCAN_STEP_DAYS = 1;
+
+/**
+ * Longest span searched for the paired station or a shadow boundary
+ */
+const MAX_PAIR_DAYS = 400;
+
+/**
+ * Find the first zero crossing of longitude speed after (or before) jd
+ * @returns Julian day and station type, or null if none was found within maxDays
+ * @internal
+ */
+function findSpeedCrossing(
+  speedAt: (jd: number) => number,
+  jd: number,
+  direction: 1 | -1,
+  maxDays: number
+): { jd: number; type: Station['type'] } | null {
+  let prev = jd;
+  let prevSpeed = speedAt(prev);
+
+  for (let travelled = 0; travelled < maxDays; travelled += SCAN_STEP_DAYS) {
+    const next = prev + direction * SCAN_STEP_DAYS;
+    const nextSpeed = speedAt(next);
+
+    if ((prevSpeed < 0) !== (nextSpeed < 0)) {
+      const [lo, hi] = direction === 1 ? [prev, next] : [next, prev];
+      return {
+        jd: bisect(speedAt, lo, hi),
+        // Speed falling through zero (in forward time) starts a retrograde period
+        type: speedAt(lo) >= 0 ? 'retrograde' : 'direct',
+      };
+    }
+
+    prev = next;
+    prevSpeed = nextSpeed;
+  }
+
+  return null;
+}
+
+/**
+ * Find retrograde and direct stations of a body, with its retrograde shadow
+ * @param bodyId - Swiss Ephemeris body id (Mercury through Pluto)
+ * @param start - Start of the search range
+ * @param end - End of the search range
+ * @param options - Zodiac and ayanamsa for the reported longitudes
+ * @returns Stations in time order with exact UTC times. Retrograde stations carry the
+ *   pre-retrograde shadow entry (when the body first reached the longitude of the
+ *   following direct station); direct stations carry the post-retrograde shadow exit
+ *   (when the body regains the longitude of the preceding retrograde station).
+ * @throws Error if the range is reversed
+ * @example
+ * ```typescript
+ * const stations = findStations(PLANETS.MERCURY.id, new Date('2024-01-01'), new Date('2025-01-01'));
+ * for (const s of stations) {
+ *   console.log(s.type, s.date.toISOString(), s.longitude.toFixed(2));
+ * }
+ * ```
+ */
+export function findStations(
+  bodyId: number,
+  start: Date,
+  end: Date,
+  options: StationOptions = {}
+): Station[] {
+  initializeSweph();
+
+  const { zodiac = 'sidereal', ayanamsa = 1 } = options;
+
+  const startJd = dateToJulian(start);
+  const endJd = dateToJulian(end);
+  if (endJd < startJd) {
+    throw new Error('Station search end must not be before start');
+  }
+
+  let flags = CALC_FLAGS.SWIEPH | CALC_FLAGS.SPEED;
+  if (zodiac === 'sidereal') {
+    setSiderealMode(ayanamsa);
+    flags |= CALC_FLAGS.SIDEREAL;
+  }
+
+  const speedAt = (jd: number) => callCalcUt(jd, bodyId, flags).speed;
+  const longitudeAt = (jd: number) => callCalcUt(jd, bodyId, flags).longitude;
+
+  // Longitude is increasing outside retrograde periods, so the shadow boundaries
+  // are crossings of a steadily increasing angle
+  const shadowCrossing = (target: number, jd: number, direction: 1 | -1) => {
+    const crossing = findAngleCrossing(longitudeAt, target, jd, direction, SCAN_STEP_DAYS, MAX_PAIR_DAYS);
+    return crossing !== null ? julianToDate(crossing) : null;
+  };
+
+  const stations: Station[] = [];
+  let jd = startJd;
+
+  for (;;) {
+    const found = findSpeedCrossing(speedAt, jd, 1, endJd - jd);
+    if (!found || found.jd > endJd) break;
+
+    const longitude = longitudeAt(found.jd);
+    const station: Station = {
+      bodyId,
+      type: found.type,
+      date: julianToDate(found.jd),
+      julianDay: found.jd,
+      longitude,
+    };
+
+    if (found.type === 'retrograde') {
+      const direct = findSpeedCrossing(speedAt, found.jd + SCAN_STEP_DAYS, 1, MAX_PAIR_DAYS);
+      station.shadowEntry = direct ? shadowCrossing(longitudeAt(direct.jd), found.jd, -1) : null;
+    } else {
+      const retrograde = findSpeedCrossing(speedAt, found.jd - SCAN_STEP_DAYS, -1, MAX_PAIR_DAYS);
+      station.shadowExit = retrograde ? shadowCrossing(longitudeAt(retrograde.jd), found.jd, 1) : null;
+    }
+
+    stations.push(station);
+    jd = found.jd + SCAN_STEP_DAYS / 2;
+  }
+
+  return stations;
+}
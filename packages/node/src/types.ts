@@ -3,20 +3,101 @@
  * Re-exported from @af/sweph-core with local extensions
  */
 
-import type { CalculationOptions as CoreCalculationOptions } from '@af/sweph-core';
+import type { AyanamsaOption, CalculationOptions as CoreCalculationOptions, Planet, Zodiac } from '@af/sweph-core';
 
 export type {
   CalcResult,
   RiseTransResult,
   AzAltResult,
+  SolarEclipseWhenResult,
+  SolarEclipseWhereResult,
+  LunarEclipseWhenResult,
+  LunarEclipseHowResult,
+  FixstarResult,
+  FixstarMagResult,
   GeoLocation,
   Planet,
+  CoordinateSystem,
+  CoordinateCenter,
+  PositionOptions,
+  EclipticPosition,
+  EquatorialPosition,
+  CartesianPosition,
+  BodyPosition,
+  PositionFor,
   SunTimes,
   MoonData,
   MoonPhase,
   PlanetRiseSetTimes,
   ISwephAdapter,
-  ISwephInstance
+  ISwephInstance,
+  LagnaInfo,
+  Bhava,
+  DashaPeriod,
+  DashaOptions,
+  VimshottariDasha,
+  DashaChart,
+  DashaSpan,
+  DashaSeed,
+  DashaApplicability,
+  DashaSystem,
+  DashaResult,
+  VargaDivision,
+  VargaChartType,
+  VargaVariant,
+  VargaOptions,
+  VargaPosition,
+  VargaPlanet,
+  DivisionalChart,
+  AshtakavargaOptions,
+  BhinnashtakavargaTable,
+  Ashtakavarga,
+  ShadbalaTimes,
+  SthanaBala,
+  KalaBala,
+  PlanetShadbala,
+  BhavaBala,
+  Shadbala,
+  YogaCategory,
+  YogaContext,
+  YogaMatch,
+  YogaRule,
+  YogaResult,
+  YogaOptions,
+  AspectName,
+  AspectOptions,
+  WesternAspect,
+  GrahaDrishti,
+  RashiDrishti,
+  AspectResult,
+  KootaName,
+  MoonProfile,
+  KootaScore,
+  CompatibilityDosha,
+  Porutham,
+  CompatibilityOptions,
+  Compatibility,
+  DoshaName,
+  DoshaSeverity,
+  ManglikCancellation,
+  DoshaOptions,
+  DoshaResult,
+  KPSub,
+  KPLords,
+  KPPlanet,
+  KPCusp,
+  KPSignificators,
+  KPRulingPlanets,
+  KPChart,
+  CharaKarakaName,
+  CharaKaraka,
+  ArudhaPada,
+  JaiminiDrishti,
+  JaiminiOptions,
+  JaiminiChart,
+  Zodiac,
+  CustomAyanamsa,
+  AyanamsaOption
 } from '@af/sweph-core';
 
 export {
@@ -32,24 +113,6 @@ export interface CalculationOptions extends CoreCalculationOptions {
   includeSpeed?: boolean;
 }
 
-/**
- * Lagna (Ascendant) Information
- */
-export interface LagnaInfo {
-  longitude: number;
-  rasi: number;
-  rasiDegree?: number;
-  degree?: number; // Legacy alias
-  nakshatra?: number;
-  nakshatraPada?: number;
-  houses: number[];
-  ayanamsaValue?: number;
-  lagna?: number; // Legacy alias
-  lagnaRasi?: number; // Legacy alias
-  lagnaDegree?: number; // Legacy alias
-  julianDay?: number;
-}
-
 /**
  * Solar Noon Result
  */
@@ -70,6 +133,407 @@ export interface NextMoonPhases {
   nextNewMoon?: Date | null;
 }
 
+/**
+ * An exact principal moon phase
+ */
+export interface MoonPhaseEvent {
+  type: 'newMoon' | 'firstQuarter' | 'fullMoon' | 'lastQuarter';
+  /** Sun-Moon elongation of the phase: 0, 90, 180 or 270° */
+  angle: number;
+  /** UTC instant of the phase */
+  date: Date;
+  julianDay: number;
+}
+
+/**
+ * A panchanga limb with the times it begins and ends
+ */
+export interface PanchangaElement {
+  number: number;
+  name: string;
+  start: Date | null;
+  end: Date | null;
+}
+
+/**
+ * Tithi (lunar day) information
+ */
+export interface TithiInfo extends PanchangaElement {
+  /** Tithi number 1-30 (1-15 Shukla, 16-30 Krishna) */
+  number: number;
+  paksha: 'Shukla' | 'Krishna';
+}
+
+/**
+ * Nakshatra of the Moon with pada
+ */
+export interface NakshatraInfo extends PanchangaElement {
+  pada: number;
+  lord: string;
+}
+
+/**
+ * Vara (weekday) counted from sunrise to the next sunrise
+ */
+export interface VaraInfo extends PanchangaElement {
+  /** Weekday number 1-7 (1 = Sunday) */
+  number: number;
+  english: string;
+  lord: string;
+}
+
+/**
+ * Five limbs of the Hindu calendar at a given moment
+ */
+export interface Panchanga {
+  date: Date;
+  tithi: TithiInfo;
+  vara: VaraInfo;
+  nakshatra: NakshatraInfo;
+  yoga: PanchangaElement;
+  karana: PanchangaElement;
+  sunrise: Date | null;
+  sunset: Date | null;
+  ayanamsaValue: number;
+}
+
+/**
+ * Options for ingress searches
+ */
+export interface IngressOptions {
+  /** Zodiac for the boundaries (default: 'sidereal') */
+  zodiac?: Zodiac;
+  /** Ayanamsa type for the sidereal zodiac (default: LAHIRI = 1) */
+  ayanamsa?: AyanamsaOption;
+  /** Division to watch: 'sign' (default), 'nakshatra', 'pada' or a width in degrees */
+  boundary?: 'sign' | 'nakshatra' | 'pada' | number;
+}
+
+/**
+ * A body crossing from one division of the zodiac into another
+ */
+export interface Ingress {
+  bodyId: number;
+  /** Exact time of the crossing (UTC) */
+  date: Date;
+  julianDay: number;
+  /** Longitude of the boundary crossed (0-360) */
+  longitude: number;
+  /** Division left (1-based: sign 1-12, nakshatra 1-27, pada 1-108, or n-th degree segment) */
+  from: number;
+  /** Division entered */
+  to: number;
+  /** Name of the division entered (sign, nakshatra or nakshatra pada; omitted for degree boundaries) */
+  name?: string;
+  /** Whether the body crossed backwards while retrograde */
+  retrograde: boolean;
+}
+
+/**
+ * Options for station searches
+ */
+export interface StationOptions {
+  /** Zodiac for the reported longitudes (default: 'sidereal') */
+  zodiac?: Zodiac;
+  /** Ayanamsa type for the sidereal zodiac (default: LAHIRI = 1) */
+  ayanamsa?: AyanamsaOption;
+}
+
+/**
+ * A body turning retrograde or direct
+ */
+export interface Station {
+  bodyId: number;
+  /** 'retrograde' = stationary retrograde, 'direct' = stationary direct */
+  type: 'retrograde' | 'direct';
+  /** Exact time of the station (UTC) */
+  date: Date;
+  julianDay: number;
+  /** Longitude at the station */
+  longitude: number;
+  /** Retrograde stations: when the body first reached the longitude of the following direct station */
+  shadowEntry?: Date | null;
+  /** Direct stations: when the body regains the longitude of the preceding retrograde station */
+  shadowExit?: Date | null;
+}
+
+/**
+ * Eclipse classification
+ */
+export type EclipseType = 'total' | 'annular' | 'hybrid' | 'partial' | 'penumbral';
+
+/**
+ * Options for eclipse searches
+ */
+export interface EclipseOptions {
+  /** Eclipses to find (default: 'all') */
+  type?: 'solar' | 'lunar' | 'all';
+  /** Zodiac for the eclipse longitude (default: 'sidereal') */
+  zodiac?: Zodiac;
+  /** Ayanamsa type for the sidereal zodiac (default: LAHIRI = 1) */
+  ayanamsa?: AyanamsaOption;
+}
+
+/**
+ * Global contact times of an eclipse (UTC); null when the phase does not occur
+ */
+export interface EclipseContacts {
+  /** First contact anywhere on Earth (solar) or with the penumbra (lunar) */
+  begin: Date;
+  /** Moon enters the umbra (lunar only) */
+  partialBegin: Date | null;
+  /** Totality or annularity begins */
+  totalBegin: Date | null;
+  /** Totality or annularity ends */
+  totalEnd: Date | null;
+  /** Moon leaves the umbra (lunar only) */
+  partialEnd: Date | null;
+  /** Last contact anywhere on Earth (solar) or with the penumbra (lunar) */
+  end: Date;
+}
+
+/**
+ * A solar or lunar eclipse
+ */
+export interface Eclipse {
+  kind: 'solar' | 'lunar';
+  type: EclipseType;
+  /** Time of greatest eclipse (UTC) */
+  maximum: Date;
+  julianDay: number;
+  /** Solar: fraction of the Sun's diameter covered at greatest eclipse. Lunar: umbral magnitude (penumbral for penumbral eclipses) */
+  magnitude: number;
+  /** Penumbral magnitude (lunar only) */
+  penumbralMagnitude?: number;
+  contacts: EclipseContacts;
+  /** Longitude of the eclipsed body at maximum: the Sun (solar) or the Moon (lunar) */
+  longitude: number;
+  /** Rasi (1-12) of the eclipse longitude */
+  rasi: number;
+  /** Nakshatra (1-27) of the eclipse longitude */
+  nakshatra: number;
+  nakshatraName: string;
+}
+
+/**
+ * Options for fixed star calculations
+ */
+export interface FixedStarOptions {
+  /** Zodiac for the star longitude (default: 'sidereal') */
+  zodiac?: Zodiac;
+  /** Ayanamsa type for the sidereal zodiac (default: LAHIRI = 1) */
+  ayanamsa?: AyanamsaOption;
+  /** Planets to check for conjunctions with the star, in the same zodiac */
+  planets?: Planet[];
+  /** Maximum difference in longitude for a conjunction, in degrees (default: 1) */
+  orb?: number;
+}
+
+/**
+ * A planet conjunct a fixed star
+ */
+export interface FixedStarConjunction {
+  planet: string;
+  /** Difference in longitude between the planet and the star, in degrees */
+  orb: number;
+}
+
+/**
+ * Position of a fixed star
+ */
+export interface FixedStar {
+  /** Traditional name, e.g. 'Spica' (the nomenclature for unnamed stars) */
+  name: string;
+  /** Bayer or Flamsteed designation, e.g. 'alVir' */
+  nomenclature: string;
+  longitude: number;
+  latitude: number;
+  /** Distance in AU */
+  distance: number;
+  /** Daily motion in longitude (precession and proper motion) */
+  speed: number;
+  /** Rasi (1-12) of the star longitude */
+  rasi: number;
+  rasiDegree: number;
+  /** Nakshatra (1-27) of the star longitude */
+  nakshatra: number;
+  nakshatraName: string;
+  nakshatraPada: number;
+  /** Visual magnitude; null when the catalog has none */
+  magnitude: number | null;
+  /** Planets from the options within the orb, closest first */
+  conjunctions: FixedStarConjunction[];
+}
+
+/**
+ * A fixed star in the sefstars.txt catalog
+ */
+export interface FixedStarInfo {
+  /** Traditional name (the nomenclature for unnamed stars) */
+  name: string;
+  /** Bayer or Flamsteed designation */
+  nomenclature: string;
+  /** Visual magnitude; null when the catalog has none */
+  magnitude: number | null;
+}
+
+/**
+ * A named span of time
+ */
+export interface TimePeriod {
+  name: string;
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Weekday-based divisions of the day (sunrise to sunset) and night (sunset to next sunrise)
+ */
+export interface DayPeriods {
+  date: Date;
+  /** Weekday number 1-7 (1 = Sunday) */
+  vara: number;
+  sunrise: Date | null;
+  sunset: Date | null;
+  nextSunrise: Date | null;
+  /** Set when the Sun does not rise or set on this day; the periods that need it are then null */
+  polar: 'midnight-sun' | 'polar-night' | null;
+  /** One eighth of the day ruled by Rahu */
+  rahuKalam: TimePeriod | null;
+  /** One eighth of the day ruled by Jupiter (Yama) */
+  yamaganda: TimePeriod | null;
+  /** One eighth of the day ruled by Saturn (Gulika) */
+  gulikaKalam: TimePeriod | null;
+  /** 8th of the 15 day muhurtas, around local noon */
+  abhijit: TimePeriod | null;
+  /** Inauspicious day (and, on Tuesdays, night) muhurtas of the weekday */
+  durmuhurta: TimePeriod[];
+  /** Yamaganda and Gulika Kalam of the following night */
+  night: {
+    yamaganda: TimePeriod | null;
+    gulikaKalam: TimePeriod | null;
+  };
+}
+
+/**
+ * Choghadiya names, each ruled by a planet
+ */
+export type ChoghadiyaName = 'Amrit' | 'Shubh' | 'Labh' | 'Char' | 'Rog' | 'Kaal' | 'Udveg';
+
+/**
+ * One of the eight day or eight night Choghadiya segments
+ */
+export interface Choghadiya extends TimePeriod {
+  name: ChoghadiyaName;
+  /** Ruling planet */
+  planet: string;
+  /** Amrit, Shubh and Labh are good, Char neutral, Rog, Kaal and Udveg bad */
+  quality: 'good' | 'neutral' | 'bad';
+  /** Whether the segment falls between sunset and the next sunrise */
+  night: boolean;
+}
+
+/**
+ * One of the 24 planetary hours (horas) from sunrise to the next sunrise
+ */
+export interface Hora extends TimePeriod {
+  /** Ruling planet */
+  planet: string;
+  /** Hora number 1-24, counted from sunrise */
+  number: number;
+  /** Whether the hora falls between sunset and the next sunrise */
+  night: boolean;
+}
+
+/**
+ * Day periods that a muhurta can be required to avoid
+ */
+export type InauspiciousPeriod = 'rahuKalam' | 'yamaganda' | 'gulikaKalam' | 'durmuhurta';
+
+/**
+ * Panchanga state at one moment of a muhurta search
+ */
+export interface MuhurtaMoment {
+  julianDay: number;
+  /** Tithi number 1-30 */
+  tithi: number;
+  /** Moon nakshatra 1-27 */
+  nakshatra: number;
+  /** Nitya yoga 1-27 */
+  yoga: number;
+  /** Karana name */
+  karana: string;
+  /** Weekday 1-7 (1 = Sunday), counted from sunrise */
+  vara: number;
+  /** Rasi (1-12) of the lagna */
+  lagnaRasi: number;
+  /** Rasi (1-12) of the Moon */
+  moonRasi: number;
+  /** Day periods in effect */
+  periods: InauspiciousPeriod[];
+}
+
+/**
+ * Conditions a muhurta must meet; all given conditions must hold
+ */
+export interface MuhurtaConstraints {
+  /** Allowed tithis (1-30), e.g. TITHI_GROUPS.NANDA */
+  tithis?: readonly number[];
+  excludeTithis?: readonly number[];
+  /** Allowed Moon nakshatras (1-27), e.g. NAKSHATRA_GROUPS.FIXED */
+  nakshatras?: readonly number[];
+  excludeNakshatras?: readonly number[];
+  /** Allowed nitya yogas (1-27) */
+  yogas?: readonly number[];
+  excludeYogas?: readonly number[];
+  /** Allowed karana names */
+  karanas?: readonly string[];
+  /** Karana names to avoid, e.g. ['Vishti'] */
+  excludeKaranas?: readonly string[];
+  /** Allowed weekdays (1 = Sunday) */
+  varas?: readonly number[];
+  /** Allowed lagna rasis (1-12), e.g. RASI_GROUPS.FIXED */
+  lagnaRasis?: readonly number[];
+  /** Favourable tara from the birth nakshatra (default taras: Sampat, Kshema, Sadhana, Mitra, Parama Mitra) */
+  taraBala?: { birthNakshatra: number; taras?: readonly number[] };
+  /** Favourable Moon house from the birth rasi (default houses: 1, 3, 6, 7, 10, 11) */
+  chandraBala?: { birthRasi: number; houses?: readonly number[] };
+  /** Day periods to avoid */
+  excludePeriods?: readonly InauspiciousPeriod[];
+  /** Additional condition, sampled at the scan step rather than root-found exactly */
+  custom?: (moment: MuhurtaMoment) => boolean;
+}
+
+/**
+ * Options for muhurta searches
+ */
+export interface MuhurtaOptions {
+  /** Ayanamsa type (default: LAHIRI = 1) */
+  ayanamsa?: AyanamsaOption;
+  /** Shortest window to return, in minutes (default: 0) */
+  minDuration?: number;
+  /** Soft conditions used to rank the windows */
+  preferences?: MuhurtaConstraints;
+  /** Maximum number of windows to return */
+  limit?: number;
+}
+
+/**
+ * A span of time in which all muhurta constraints hold
+ */
+export interface MuhurtaWindow {
+  /** Window start (UTC) */
+  start: Date;
+  /** Window end (UTC) */
+  end: Date;
+  /** Length in minutes */
+  duration: number;
+  /** Fraction (0-1) of the preferences met at the middle of the window; 1 without preferences */
+  score: number;
+  /** Panchanga state at the middle of the window */
+  moment: MuhurtaMoment;
+}
+
 // Legacy compatibility types
 export type PlanetaryCalculationProvider = any;
 export type SwephAdapter = any;
@@ -6,9 +6,10 @@
  */
 
 import path from 'path';
-import { JULIAN_UNIX_EPOCH } from './constants';
+import { JULIAN_UNIX_EPOCH, CALC_FLAGS } from './constants';
 import * as coreUtils from '@af/sweph-core';
-import { loadNativeBinary } from './native-loader';
+import type { AyanamsaOption } from '@af/sweph-core';
+import { loadNativeBinary, dynamicRequire } from './native-loader';
 
 // Re-export pure utilities from core
 export {
@@ -216,13 +217,54 @@ export function setEphemerisPath(customPath: string): void {
   }
 }
 
+/**
+ * Get the directory currently used for Swiss Ephemeris data files
+ * @returns The path set by setEphemerisPath() or found at initialization, or null
+ *   if the library default is in use
+ */
+export function getEphemerisPath(): string | null {
+  return ephemerisPath || null;
+}
+
+/**
+ * Read a data file from the ephemeris path, e.g. the sefstars.txt fixed star catalog
+ * @param fileName - File name inside the ephemeris directory
+ * @returns File contents, or null if no ephemeris path is set or the file does not exist
+ * @internal
+ */
+export function readEphemerisFile(fileName: string): string | null {
+  if (!ephemerisPath) return null;
+
+  // Dynamic require for fs to avoid webpack bundling
+  const fs = dynamicRequire('fs');
+  const filePath = path.join(ephemerisPath, fileName);
+
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : null;
+}
+
+/**
+ * Set the Swiss Ephemeris sidereal mode for an ayanamsa option
+ * @param ayanamsa - AyanamsaType value or a user-defined `{ custom: { t0, ayanT0 } }`
+ * @throws Error if the ayanamsa is unknown or the custom definition is invalid
+ */
+export function setSiderealMode(ayanamsa: AyanamsaOption = 1): void {
+  const { mode, t0, ayanT0 } = coreUtils.getSiderealMode(ayanamsa);
+  getNativeModule().swe_set_sid_mode(mode, t0, ayanT0);
+}
+
 /**
  * Get the ayanamsa correction value for sidereal calculations
+ * @param date - Date/time (UTC)
+ * @param ayanamsa - AyanamsaType value or a user-defined `{ custom: { t0, ayanT0 } }`
+ * @param trueAyanamsa - Include nutation (true ayanamsa) instead of the mean ayanamsa
  */
-export function getAyanamsa(date: Date, ayanamsaType: number = 1): number {
+export function getAyanamsa(date: Date, ayanamsa: AyanamsaOption = 1, trueAyanamsa = false): number {
   const sweph = getNativeModule();
   const jd = dateToJulian(date);
-  sweph.swe_set_sid_mode(ayanamsaType, 0, 0);
+  setSiderealMode(ayanamsa);
+  if (trueAyanamsa) {
+    return sweph.swe_get_ayanamsa_ex_ut(jd, CALC_FLAGS.SWIEPH).ayanamsa;
+  }
   return sweph.swe_get_ayanamsa(jd);
 }
 
@@ -250,6 +292,55 @@ export function getJulianDay(date: Date): number {
 }
 
 
+/**
+ * Helper to call swe_calc_ut and normalize the different result shapes
+ * (plain array, { xx: [] }, { longitude, ... }, equatorial { rectAscension, ... } or
+ * rectangular { x, ..., dx, ... } object) to the six values in Swiss Ephemeris order
+ * @returns Position and daily speed: [lon/RA/x, lat/dec/y, distance/z, and their speeds]
+ * @throws Error if Swiss Ephemeris reports a calculation error
+ * @internal
+ */
+export function callCalcUtVector(jd: number, planetId: number, flags: number): number[] {
+  const sweph = getNativeModule();
+  const result = sweph.swe_calc_ut(jd, planetId, flags);
+
+  if (!result || typeof result !== 'object') {
+    throw new Error(`swe_calc_ut returned no result for body ${planetId}`);
+  }
+  if (typeof result.error === 'string' && result.error) {
+    throw new Error(result.error);
+  }
+
+  const values: number[] = Array.isArray(result)
+    ? result
+    : Array.isArray(result.xx)
+      ? result.xx
+      : [
+        result.longitude ?? result.rectAscension ?? result.x,
+        result.latitude ?? result.declination ?? result.y,
+        result.distance ?? result.z,
+        result.longitudeSpeed ?? result.speed ?? result.rectAscensionSpeed ?? result.dx,
+        result.latitudeSpeed ?? result.declinationSpeed ?? result.dy,
+        result.distanceSpeed ?? result.dz,
+      ];
+
+  return Array.from({ length: 6 }, (_, i) => values[i] || 0);
+}
+
+/**
+ * Helper to call swe_calc_ut and normalize the different result shapes
+ * @throws Error if Swiss Ephemeris reports a calculation error
+ * @internal
+ */
+export function callCalcUt(
+  jd: number,
+  planetId: number,
+  flags: number
+): { longitude: number; latitude: number; distance: number; speed: number } {
+  const [longitude, latitude, distance, speed] = callCalcUtVector(jd, planetId, flags) as [number, number, number, number];
+  return { longitude, latitude, distance, speed };
+}
+
 /**
  * Helper to call swe_rise_trans with fallback for different signatures
  * @internal
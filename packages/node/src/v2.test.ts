@@ -5,15 +5,58 @@
  */
 
 import { describe, it, expect, beforeAll } from 'vitest';
+import { copyFileSync, existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
 import {
   createSweph,
   PLANETS,
   AYANAMSA,
   RASHIS,
   NAKSHATRAS,
+  AST_OFFSET,
+  AyanamsaType,
+  HouseSystem,
+  TITHI_GROUPS,
+  NAKSHATRA_GROUPS,
+  RASI_GROUPS,
+  getEphemerisPath,
+  calculateVimshottariDasha,
   type SwephInstance,
 } from './index';
 
+const ASTEROID_FILE = path.resolve('node_modules', 'swisseph-v2', 'ephe', 'seas_18.se1');
+
+const STAR_CATALOG = [
+  '# Fixed star catalog excerpt',
+  'Aldebaran  ,alTau,ICRS,04,35,55.23907,+16,30,33.4885,63.45,-188.94,54.26,48.94,0.86, 16,  629',
+  'Rohini  ,alTau,ICRS,04,35,55.23907,+16,30,33.4885,63.45,-188.94,54.26,48.94,0.86, 16,  629',
+  'Regulus    ,alLeo,ICRS,10,08,22.31099,+11,58,01.9516,-248.73,5.59,5.9,41.13,1.4, 12, 2149',
+  'Antares    ,alSco,ICRS,16,29,24.45970,-26,25,55.2094,-12.11,-23.3,-3.5,5.89,0.91,-26,11359',
+  'Gal. Center,SgrA*,ICRS,17,45,40.03599,-29,00,28.1699,-2.755718425, -5.547,  0.0,0.125,999.99,  0,    0',
+  'Gal. Center,SgrA*,ICRS,17,45,40.03599,-29,00,28.1699,-2.755718425, -5.547,  0.0,0.125,999.99,  0,    0',
+].join('\n');
+
+/**
+ * Run a test against a temporary ephemeris directory, then restore the previous
+ * path and remove the directory so later tests see the usual files
+ */
+async function withEphemeris(sweph: SwephInstance, setup: (dir: string) => void, run: () => Promise<void>) {
+  const previous = getEphemerisPath();
+  const ephePath = mkdtempSync(path.join(tmpdir(), 'sweph-ephe-'));
+  try {
+    setup(ephePath);
+    sweph.setEphePath(ephePath);
+    await run();
+  } finally {
+    sweph.setEphePath(previous ?? '');
+    rmSync(ephePath, { recursive: true, force: true });
+  }
+}
+
+const CHALDEAN = ['Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon'];
+const CHALDEAN_NEXT = (planet: string) => CHALDEAN[(CHALDEAN.indexOf(planet) + 1) % 7];
+
 describe('@af/sweph v2 API', () => {
   let sweph: SwephInstance;
 
@@ -83,6 +126,35 @@ describe('@af/sweph v2 API', () => {
       // Different ayanamsas should give different longitudes (small difference)
       expect(lahiri[0].longitude).not.toBe(raman[0].longitude);
     });
+
+    it('should support the tropical zodiac', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const ayanamsa = sweph.getAyanamsa(date, 1);
+
+      const sidereal = await sweph.calculatePlanets(date, { ayanamsa: 1 });
+      const tropical = await sweph.calculatePlanets(date, { zodiac: 'tropical' });
+
+      for (let i = 0; i < sidereal.length; i++) {
+        const diff = (tropical[i].longitude - sidereal[i].longitude + 360) % 360;
+        expect(diff).toBeCloseTo(ayanamsa, 2);
+      }
+      // Sun at 10° Capricorn tropically, 16° Sagittarius sidereally
+      expect(tropical[0].rasi).toBe(10);
+      expect(sidereal[0].rasi).toBe(9);
+    });
+
+    it('should support the full ayanamsa catalog and custom ayanamsas', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+
+      const trueCitra = await sweph.calculatePlanets(date, { ayanamsa: AyanamsaType.TRUE_CITRA });
+      expect(trueCitra[0].longitude).toBeCloseTo(256.375, 2);
+
+      // 23.85° at J2000, precessing from there
+      const custom = await sweph.calculatePlanets(date, { ayanamsa: { custom: { t0: 2451545, ayanT0: 23.85 } } });
+      expect(custom[0].longitude).toBeCloseTo(256.365, 2);
+
+      await expect(sweph.calculatePlanets(date, { ayanamsa: 99 })).rejects.toThrow('Unknown ayanamsa');
+    });
   });
 
   describe('calculatePlanet', () => {
@@ -91,8 +163,8 @@ describe('@af/sweph v2 API', () => {
       const sun = await sweph.calculatePlanet(0, date, { ayanamsa: 1 });
 
       expect(sun).toBeDefined();
-      expect(sun!.longitude).toBeGreaterThanOrEqual(0);
-      expect(sun!.longitude).toBeLessThan(360);
+      expect(sun.longitude).toBeGreaterThanOrEqual(0);
+      expect(sun.longitude).toBeLessThan(360);
     });
 
     it('should calculate Moon position', async () => {
@@ -100,8 +172,86 @@ describe('@af/sweph v2 API', () => {
       const moon = await sweph.calculatePlanet(1, date, { ayanamsa: 1 });
 
       expect(moon).toBeDefined();
-      expect(moon!.longitude).toBeGreaterThanOrEqual(0);
-      expect(moon!.longitude).toBeLessThan(360);
+      expect(moon.longitude).toBeGreaterThanOrEqual(0);
+      expect(moon.longitude).toBeLessThan(360);
+    });
+
+    it('should match the position from calculatePlanets', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const venus = await sweph.calculatePlanet(3, date);
+      const planets = await sweph.calculatePlanets(date);
+
+      expect(venus.name).toBe('Venus');
+      expect(venus.longitude).toBeCloseTo(planets.find(p => p.name === 'Venus')!.longitude, 6);
+    });
+
+    it('should name the missing ephemeris file for minor planets', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+
+      await expect(sweph.calculatePlanet('Ceres', date)).rejects.toThrow('seas_18.se1 for Ceres');
+      await expect(sweph.calculatePlanet(AST_OFFSET + 136199, date)).rejects.toThrow('s136199s.se1 for Eris');
+      await expect(sweph.calculatePlanets(date, { extraBodies: ['Vesta'] })).rejects.toThrow('seas_18.se1');
+      await expect(sweph.calculatePlanet('Planet X', date)).rejects.toThrow('Unknown minor planet');
+    });
+
+    it.skipIf(!existsSync(ASTEROID_FILE))('should calculate asteroids and centaurs', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+
+      await withEphemeris(sweph, dir => copyFileSync(ASTEROID_FILE, path.join(dir, 'seas_18.se1')), async () => {
+        const chiron = await sweph.calculatePlanet('chiron', date, { zodiac: 'tropical' });
+        expect(chiron.name).toBe('Chiron');
+        expect(chiron.longitude).toBeCloseTo(15.5, 0);
+        expect(chiron.isCombust).toBe(false);
+
+        const planets = await sweph.calculatePlanets(date, { zodiac: 'tropical', extraBodies: ['Ceres', 15] });
+        expect(planets.map(p => p.name)).toEqual([
+          'Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn', 'Rahu', 'Ceres', 'Chiron', 'Ketu',
+        ]);
+        expect(planets.find(p => p.id === 'ceres')!.rasi).toBe(9);
+      });
+
+      // The asteroid file is gone again once the path is restored
+      await expect(sweph.calculatePlanet('Ceres', date)).rejects.toThrow('seas_18.se1');
+    });
+  });
+
+  describe('calculatePositions', () => {
+    const date = new Date('2024-01-01T12:00:00Z');
+
+    it('should return ecliptic positions matching calculatePlanets', async () => {
+      const positions = await sweph.calculatePositions(date);
+      const planets = await sweph.calculatePlanets(date);
+
+      expect(positions).toHaveLength(10);
+      const venus = positions.find(p => p.name === 'Venus')!;
+      expect(venus.coordinates).toBe('ecliptic');
+      expect(venus.longitude).toBeCloseTo(planets.find(p => p.name === 'Venus')!.longitude, 6);
+    });
+
+    it('should return equatorial and heliocentric rectangular coordinates', async () => {
+      const mars = await sweph.calculatePosition(4, date, { coordinates: 'equatorial' });
+      expect(mars.rightAscension).toBeCloseTo(267.46, 1);
+      expect(mars.declination).toBeCloseTo(-23.97, 1);
+      expect(mars.rightAscensionSpeed).toBeGreaterThan(0);
+
+      const orrery = await sweph.calculatePositions(date, { coordinates: 'cartesian', center: 'heliocentric' });
+      expect(orrery.map(p => p.name)).toContain('Earth');
+      expect(orrery.map(p => p.name)).not.toContain('Sun');
+      const earth = orrery.find(p => p.name === 'Earth')!;
+      // Earth is near perihelion in early January
+      expect(Math.hypot(earth.x, earth.y, earth.z)).toBeCloseTo(0.983, 2);
+    });
+
+    it('should require a location for topocentric positions', async () => {
+      await expect(sweph.calculatePosition(1, date, { center: 'topocentric' })).rejects.toThrow('location');
+
+      const location = { latitude: 27.7, longitude: 85.3, altitude: 1400 };
+      const topocentric = await sweph.calculatePosition(1, date, { center: 'topocentric', location });
+      const geocentric = await sweph.calculatePosition(1, date);
+      // Lunar parallax is at most about a degree
+      expect(topocentric.center).toBe('topocentric');
+      expect(Math.abs(topocentric.longitude - geocentric.longitude)).toBeLessThan(1.1);
+      expect(topocentric.longitude).not.toBeCloseTo(geocentric.longitude, 2);
     });
   });
 
@@ -128,6 +278,105 @@ describe('@af/sweph v2 API', () => {
       expect(lagna.houses).toBeDefined();
       expect(lagna.houses.length).toBe(12);
     });
+
+    it('should support the tropical zodiac', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const sidereal = await sweph.calculateLagna(date, location, { ayanamsa: 1 });
+      const tropical = await sweph.calculateLagna(date, location, { zodiac: 'tropical' });
+
+      expect(tropical.ayanamsaValue).toBe(0);
+      expect((tropical.longitude - sidereal.longitude + 360) % 360).toBeCloseTo(sidereal.ayanamsaValue!, 6);
+      for (let i = 0; i < 12; i++) {
+        expect((tropical.houses[i] - sidereal.houses[i] + 360) % 360).toBeCloseTo(sidereal.ayanamsaValue!, 6);
+      }
+    });
+
+    it('should honor the house system', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const placidus = await sweph.calculateLagna(date, location);
+      const sripati = await sweph.calculateLagna(date, location, { houseSystem: HouseSystem.SRIPATI });
+      const wholeSign = await sweph.calculateLagna(date, location, { houseSystem: HouseSystem.WHOLE_SIGN });
+
+      expect(placidus.houseSystem).toBe('P');
+      expect(sripati.houseSystem).toBe('S');
+      expect(sripati.houses[1]).not.toBeCloseTo(placidus.houses[1], 1);
+      expect(sripati.longitude).toBeCloseTo(placidus.longitude, 10);
+
+      // Whole-sign houses start at the sidereal sign of the lagna
+      expect(wholeSign.houses[0]).toBe((wholeSign.rasi - 1) * 30);
+      for (let i = 0; i < 12; i++) {
+        expect(wholeSign.houses[i] % 30).toBe(0);
+        expect(wholeSign.houseSpeeds![i]).toBe(0);
+      }
+    });
+
+    it('should return the angles and cusp speeds', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const sidereal = await sweph.calculateLagna(date, location);
+      const tropical = await sweph.calculateLagna(date, location, { zodiac: 'tropical' });
+
+      // The 10th Placidus cusp is the MC
+      expect(sidereal.mc).toBeCloseTo(sidereal.houses[9], 10);
+      expect((tropical.vertex! - sidereal.vertex! + 360) % 360).toBeCloseTo(sidereal.ayanamsaValue!, 6);
+      expect(tropical.armc).toBe(sidereal.armc);
+      expect(sidereal.equatorialAscendant).toBeDefined();
+      expect(sidereal.coAscendantKoch).toBeDefined();
+      expect(sidereal.coAscendantMunkasey).toBeDefined();
+      expect(sidereal.polarAscendant).toBeDefined();
+
+      // Angles turn about once a sidereal day
+      expect(sidereal.houseSpeeds).toHaveLength(12);
+      expect(sidereal.houseSpeeds![0]).toBeCloseTo(sidereal.ascendantSpeed!, 10);
+      expect(sidereal.mcSpeed).toBeGreaterThan(300);
+    });
+
+    it('should fall back to Porphyry houses inside the polar circle', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 70, longitude: 20, timezone: 1 };
+
+      const lagna = await sweph.calculateLagna(date, location);
+      const porphyry = await sweph.calculateLagna(date, location, { houseSystem: HouseSystem.PORPHYRIUS });
+      expect(lagna.houseSystem).toBe(HouseSystem.PORPHYRIUS);
+      expect(lagna.houseSystemFallback).toContain('polar circle');
+      expect(lagna.houses).toEqual(porphyry.houses);
+      expect(porphyry.houseSystemFallback).toBeUndefined();
+
+      // Vedic methods that only need the ascendant work at polar latitudes
+      const d1 = await sweph.calculateDivisionalChart(date, location, 'D1');
+      expect(d1.lagna.rasi).toBe(lagna.rasi);
+
+      // An explicitly requested quadrant system still fails
+      await expect(sweph.calculateLagna(date, location, { houseSystem: HouseSystem.PLACIDUS }))
+        .rejects.toThrow('polar circle');
+    });
+  });
+
+  describe('calculateBhavaChalit', () => {
+    it('should place planets in the Sripati bhavas', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const bhavas = await sweph.calculateBhavaChalit(date, location);
+      const sripati = await sweph.calculateLagna(date, location, { houseSystem: HouseSystem.SRIPATI });
+      const porphyry = await sweph.calculateLagna(date, location, { houseSystem: HouseSystem.PORPHYRIUS });
+
+      expect(bhavas).toHaveLength(12);
+      expect(bhavas[0].madhya).toBeCloseTo(sripati.longitude, 10);
+      for (const bhava of bhavas) {
+        expect(bhava.start).toBeCloseTo(sripati.houses[bhava.house - 1], 6);
+        expect(bhava.madhya).toBeCloseTo(porphyry.houses[bhava.house - 1], 10);
+        expect(bhava.end).toBe(bhavas[bhava.house % 12].start);
+      }
+      expect(bhavas.flatMap(b => b.planets).sort()).toEqual(
+        ['Jupiter', 'Ketu', 'Mars', 'Mercury', 'Moon', 'Rahu', 'Saturn', 'Sun', 'Venus']
+      );
+    });
   });
 
   describe('calculateSunTimes', () => {
@@ -166,6 +415,637 @@ describe('@af/sweph v2 API', () => {
       const hasPhase = phases.newMoon || phases.fullMoon || phases.firstQuarter || phases.lastQuarter;
       expect(hasPhase).toBeTruthy();
     });
+
+    it('should return exact phase times', async () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const phases = await sweph.calculateNextMoonPhases(date);
+      const minutes = (a: Date | null | undefined, b: string) => Math.abs(a!.getTime() - Date.parse(b)) / 60000;
+
+      expect(minutes(phases.lastQuarter, '2024-01-04T03:30Z')).toBeLessThan(2);
+      expect(minutes(phases.newMoon, '2024-01-11T11:57Z')).toBeLessThan(2);
+      expect(minutes(phases.firstQuarter, '2024-01-18T03:53Z')).toBeLessThan(2);
+      expect(minutes(phases.fullMoon, '2024-01-25T17:54Z')).toBeLessThan(2);
+      expect(minutes(phases.nextNewMoon, '2024-02-09T22:59Z')).toBeLessThan(2);
+    });
+  });
+
+  describe('findMoonPhases', () => {
+    it('should list every phase in the range in order', async () => {
+      const phases = await sweph.findMoonPhases(new Date('2024-01-01T00:00:00Z'), new Date('2025-01-01T00:00:00Z'));
+
+      // Two new moons in December 2024
+      expect(phases.filter(p => p.type === 'newMoon')).toHaveLength(13);
+      expect(phases.filter(p => p.type === 'fullMoon')).toHaveLength(12);
+      expect(phases[0]!.type).toBe('lastQuarter');
+      for (let i = 1; i < phases.length; i++) {
+        expect(phases[i]!.angle).toBe((phases[i - 1]!.angle + 90) % 360);
+      }
+      // Blue moon of August 2024
+      const august = phases.find(p => p.type === 'fullMoon' && p.date.getUTCMonth() === 7)!;
+      expect(Math.abs(august.date.getTime() - Date.parse('2024-08-19T18:26Z'))).toBeLessThan(2 * 60000);
+    });
+  });
+
+  describe('calculateDasha', () => {
+    it('should seed Vimshottari dasha from the Moon nakshatra', async () => {
+      const date = new Date('1990-01-15T14:30:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const dasha = await sweph.calculateDasha(date, location);
+      const expectedLord = NAKSHATRAS[dasha.nakshatra - 1].lord.name;
+
+      expect(dasha.balance.planet).toBe(expectedLord);
+      expect(dasha.periods[0].planet).toBe(expectedLord);
+      expect(dasha.periods[0].start.getTime()).toBeLessThanOrEqual(date.getTime());
+      expect(dasha.periods[0].end.getTime()).toBeGreaterThan(date.getTime());
+      expect(dasha.periods[0].subPeriods?.[0].subPeriods).toHaveLength(9);
+    });
+
+    it('should date the periods from the UTC birth time', async () => {
+      const date = new Date('1990-01-15T14:30:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+      const utcBirth = new Date('1990-01-15T08:45:00Z');
+
+      const dasha = await sweph.calculateDasha(date, location);
+      const expected = calculateVimshottariDasha(dasha.moonLongitude, utcBirth);
+      expect(dasha.periods[0].start).toEqual(expected.periods[0].start);
+      expect(dasha.periods[1].start).toEqual(expected.periods[1].start);
+    });
+  });
+
+  describe('calculateDivisionalChart', () => {
+    it('should match D1 positions for the Rasi chart', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const planets = await sweph.calculatePlanets(date, { ayanamsa: 1, timezone: 5.75 });
+      const lagna = await sweph.calculateLagna(date, location, { ayanamsa: 1 });
+      const d1 = await sweph.calculateDivisionalChart(date, location, 'D1');
+
+      expect(d1.lagna.rasi).toBe(lagna.rasi);
+      expect(d1.planets.map(p => p.rasi)).toEqual(planets.map(p => p.rasi));
+    });
+
+    it('should calculate the Navamsa chart', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const d9 = await sweph.calculateDivisionalChart(date, location, 'D9');
+
+      expect(d9.division).toBe(9);
+      expect(d9.name).toBe('Navamsa');
+      expect(d9.planets).toHaveLength(9);
+      for (const planet of d9.planets) {
+        expect(planet.house).toBe(((planet.rasi - d9.lagna.rasi + 12) % 12) + 1);
+      }
+    });
+  });
+
+  describe('calculateAshtakavarga', () => {
+    it('should calculate bindu tables for the chart', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const av = await sweph.calculateAshtakavarga(date, location, { trikonaShodhana: true });
+
+      expect(av.bhinna).toHaveLength(8);
+      expect(av.sarva).toHaveLength(12);
+      expect(av.sarvaTotal).toBe(337);
+      expect(av.reducedSarva).toHaveLength(12);
+    });
+  });
+
+  describe('calculateShadbala', () => {
+    it('should calculate planet and house strengths', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const shadbala = await sweph.calculateShadbala(date, location);
+
+      expect(shadbala.planets.map(p => p.planet)).toEqual(
+        ['Sun', 'Moon', 'Mars', 'Mercury', 'Jupiter', 'Venus', 'Saturn']
+      );
+      expect(shadbala.bhavas).toHaveLength(12);
+      for (const planet of shadbala.planets) {
+        expect(planet.rupas).toBeGreaterThan(0);
+        expect(planet.ratio).toBeCloseTo(planet.rupas / planet.required, 6);
+      }
+
+      // 2024-01-01 was a Monday; midday falls in the Sun's third of the day
+      const moon = shadbala.planets.find(p => p.planet === 'Moon')!;
+      const sun = shadbala.planets.find(p => p.planet === 'Sun')!;
+      expect(moon.kala.vara).toBe(45);
+      expect(sun.kala.tribhaga).toBe(60);
+    });
+  });
+
+  describe('detectYogas', () => {
+    it('should report yogas with triggering planets and houses', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const yogas = await sweph.detectYogas(date, location);
+
+      for (const yoga of yogas) {
+        expect(yoga.name).toBeTruthy();
+        expect(yoga.planets.length).toBeGreaterThan(0);
+        yoga.houses.forEach(house => {
+          expect(house).toBeGreaterThanOrEqual(1);
+          expect(house).toBeLessThanOrEqual(12);
+        });
+      }
+
+      const lunar = await sweph.detectYogas(date, location, { categories: ['lunar'] });
+      expect(lunar.every(y => y.category === 'lunar')).toBe(true);
+    });
+  });
+
+  describe('analyzeDoshas', () => {
+    it('should report each dosha with severity and factors', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const doshas = await sweph.analyzeDoshas(date, location);
+
+      expect(doshas.map(d => d.id)).toEqual(['manglik', 'kaal-sarp', 'pitra', 'grahan', 'guru-chandal']);
+      for (const dosha of doshas) {
+        expect(dosha.present).toBe(dosha.factors.length > 0);
+        expect(dosha.severity === 'none').toBe(!dosha.present);
+      }
+      // Jupiter in Aries and Rahu in Pisces on 2024-01-01
+      expect(doshas.find(d => d.id === 'guru-chandal')!.present).toBe(false);
+
+      const manglik = await sweph.analyzeDoshas(date, location, { doshas: ['manglik'], manglikFrom: ['moon'] });
+      expect(manglik).toHaveLength(1);
+    });
+  });
+
+  describe('calculateAspects', () => {
+    it('should find aspects with the angles and drishti', async () => {
+      const date = new Date('2024-01-01T12:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 0 };
+
+      const aspects = await sweph.calculateAspects(date, { location, includeOuterPlanets: true });
+
+      for (const aspect of aspects.western) {
+        expect(aspect.orb).toBeLessThanOrEqual(8);
+        expect(aspect.exactness).toBeGreaterThanOrEqual(0);
+        expect(aspect.exactness).toBeLessThanOrEqual(1);
+      }
+      expect(aspects.western.some(a => a.to === 'Ascendant' || a.from === 'Ascendant')).toBe(true);
+      // Venus closing in on an exact square to Saturn, within the hour
+      const venusSaturn = aspects.western.find(a => a.from === 'Venus' && a.to === 'Saturn')!;
+      expect(venusSaturn.aspect).toBe('square');
+      expect(venusSaturn.orb).toBeLessThan(0.1);
+      expect(venusSaturn.applying).toBe(true);
+
+      // Every planet fully aspects the 7th sign
+      for (const drishti of aspects.grahaDrishti.filter(d => d.house === 7)) {
+        expect(drishti.strength).toBe(1);
+      }
+      expect(aspects.grahaDrishti.some(d => d.from === 'Uranus')).toBe(false);
+    });
+  });
+
+  describe('calculateKPChart', () => {
+    it('should give KP lords, significators and ruling planets', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const chart = await sweph.calculateKPChart(date, location);
+      const lagna = await sweph.calculateLagna(date, location, { ayanamsa: AYANAMSA.KRISHNAMURTI });
+      const panchanga = await sweph.calculatePanchanga(date, location);
+
+      expect(chart.cusps).toHaveLength(12);
+      expect(chart.cusps[0].longitude).toBeCloseTo(lagna.longitude, 10);
+      for (const cusp of chart.cusps) {
+        expect(cusp.sub).toBeGreaterThanOrEqual(1);
+        expect(cusp.sub).toBeLessThanOrEqual(249);
+      }
+      expect(chart.planets.map(p => p.name)).toContain('Ketu');
+      expect(chart.significators).toHaveLength(12);
+      expect(chart.significators.flatMap(s => s.occupants).sort()).toEqual(
+        ['Jupiter', 'Ketu', 'Mars', 'Mercury', 'Moon', 'Rahu', 'Saturn', 'Sun', 'Venus']
+      );
+
+      // 06:00 on Monday in Kathmandu is before sunrise, still in Sunday's vara
+      expect(panchanga.vara.lord).toBe('Sun');
+      expect(chart.rulingPlanets.dayLord).toBe('Sun');
+      expect(chart.rulingPlanets.planets).toContain(chart.rulingPlanets.lagnaStarLord);
+    });
+  });
+
+  describe('calculateJaimini', () => {
+    it('should derive the chara karakas and arudha padas', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const jaimini = await sweph.calculateJaimini(date, location);
+      const planets = await sweph.calculatePlanets(date, { timezone: 5.75 });
+
+      expect(jaimini.charaKarakas).toHaveLength(8);
+      const degrees = jaimini.charaKarakas.map(k => k.degree);
+      expect([...degrees].sort((a, b) => b - a)).toEqual(degrees);
+      const atmakaraka = planets.find(p => p.name === jaimini.charaKarakas[0].planet)!;
+      expect(atmakaraka.rasiDegree).toBeCloseTo(degrees[0], 10);
+
+      expect(jaimini.arudhaPadas).toHaveLength(12);
+      expect(jaimini.upapada).toBe(jaimini.arudhaPadas[11].rasi);
+      expect(jaimini.karakamsa).toBeGreaterThanOrEqual(1);
+      expect(jaimini.karakamsa).toBeLessThanOrEqual(12);
+
+      const seven = await sweph.calculateJaimini(date, location, { karakas: 7 });
+      expect(seven.charaKarakas.map(k => k.planet)).not.toContain('Rahu');
+    });
+  });
+
+  describe('calculateDashaSystem', () => {
+    it('should calculate registered dasha systems from the chart', async () => {
+      const date = new Date('1990-01-15T08:45:00Z');
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+      const vimshottari = await sweph.calculateDasha(date, location);
+      const system = await sweph.calculateDashaSystem(date, location, 'vimshottari');
+      expect(system.periods.map(p => p.planet)).toEqual(vimshottari.periods.map(p => p.planet));
+      expect(system.balance.years).toBeCloseTo(vimshottari.balance.years, 6);
+      expect(system.periods[0].start).toEqual(vimshottari.periods[0].start);
+
+      const yogini = await sweph.calculateDashaSystem(date, location, 'yogini', { depth: 2 });
+      expect(yogini.periods).toHaveLength(8);
+      expect(yogini.periods[0].subPeriods).toHaveLength(8);
+      expect(yogini.periods[0].subPeriods![0].subPeriods).toBeUndefined();
+
+      const ashtottari = await sweph.calculateDashaSystem(date, location, 'ashtottari');
+      expect(ashtottari.applicability.reasons.length).toBeGreaterThan(0);
+
+      const chara = await sweph.calculateDashaSystem(date, location, 'chara');
+      const lagna = await sweph.calculateLagna(date, location);
+      expect(chara.periods[0].rasi).toBe(lagna.rasi);
+
+      await expect(sweph.calculateDashaSystem(date, location, 'unknown')).rejects.toThrow('Unknown dasha system');
+    });
+  });
+
+  describe('calculateFixedStar', () => {
+    const date = new Date('2024-01-01T12:00:00Z');
+
+    it('should calculate Spica without a catalog', async () => {
+      const spica = await sweph.calculateFixedStar('Spica', date, { orb: 4 });
+
+      expect(spica.name).toBe('Spica');
+      expect(spica.nomenclature).toBe('alVir');
+      // Lahiri ayanamsa places Spica at the end of Virgo
+      expect(spica.longitude).toBeCloseTo(180, 0);
+      expect(spica.nakshatraName).toBe('Chitra');
+      expect(spica.conjunctions.map(c => c.planet)).toEqual(['Ketu']);
+
+      const tropical = await sweph.calculateFixedStar('Spica', date, { zodiac: 'tropical', planets: [] });
+      expect(tropical.longitude - spica.longitude).toBeCloseTo(sweph.getAyanamsa(date, 1), 1);
+      expect(tropical.conjunctions).toEqual([]);
+    });
+
+    it('should read other stars from sefstars.txt in the ephemeris path', async () => {
+      await expect(sweph.listFixedStars()).rejects.toThrow('sefstars.txt');
+
+      await withEphemeris(sweph, dir => writeFileSync(path.join(dir, 'sefstars.txt'), STAR_CATALOG), async () => {
+        const stars = await sweph.listFixedStars();
+        expect(stars.map(s => s.name)).toEqual(['Aldebaran', 'Rohini', 'Regulus', 'Antares', 'Gal. Center']);
+        expect(stars.find(s => s.name === 'Gal. Center')!.magnitude).toBeNull();
+
+        const regulus = await sweph.calculateFixedStar('regulus', date);
+        expect(regulus.nomenclature).toBe('alLeo');
+        expect(regulus.rasi).toBe(5);
+        expect(regulus.magnitude).toBeCloseTo(1.4, 2);
+
+        const aldebaran = await sweph.calculateFixedStar(',alTau', date, { zodiac: 'tropical' });
+        expect(aldebaran.longitude).toBeCloseTo(70.1, 0);
+
+        const center = await sweph.calculateFixedStar('Gal. Center', date, { zodiac: 'tropical' });
+        expect(center.longitude).toBeCloseTo(267.2, 0);
+        expect(center.magnitude).toBeNull();
+      });
+
+      await expect(sweph.listFixedStars()).rejects.toThrow('sefstars.txt');
+    });
+  });
+
+  describe('calculatePanchanga', () => {
+    const location = { latitude: 27.7172, longitude: 85.324, timezone: 5.75 };
+
+    it('should pass the true ayanamsa on like the other Vedic methods', async () => {
+      const date = new Date('2024-01-01T06:00:00Z');
+      const opts = { trueAyanamsa: true };
+
+      const panchanga = await sweph.calculatePanchanga(date, location, opts);
+      expect(panchanga.ayanamsaValue).toBeCloseTo(sweph.getAyanamsa(new Date(date.getTime() - 5.75 * 3600000), 1, true), 10);
+
+      const lagna = await sweph.calculateLagna(date, location, opts);
+      const mean = await sweph.calculateLagna(date, location);
+      expect(lagna.longitude).not.toBe(mean.longitude);
+
+      const d1 = await sweph.calculateDivisionalChart(date, location, 'D1', opts);
+      expect(d1.lagna.longitude).toBeCloseTo(lagna.longitude, 10);
+      const chalit = await sweph.calculateBhavaChalit(date, location, opts);
+      expect(chalit[0].madhya).toBeCloseTo(lagna.longitude, 10);
+    });
+
+    it('should find Amavasya ending at the new moon', async () => {
+      // New moon of 2024-04-08 18:21 UTC = 2024-04-09 00:06 Nepal time
+      const panchanga = await sweph.calculatePanchanga(new Date('2024-04-08T12:00:00Z'), location);
+
+      expect(panchanga.tithi.number).toBe(30);
+      expect(panchanga.tithi.name).toBe('Amavasya');
+      expect(panchanga.tithi.paksha).toBe('Krishna');
+      expect(Math.abs(panchanga.tithi.end!.getTime() - Date.parse('2024-04-09T00:06:00Z'))).toBeLessThan(5 * 60 * 1000);
+    });
+
+    it('should bracket the moment with each limb', async () => {
+      const date = new Date('2024-01-15T12:00:00Z');
+      const panchanga = await sweph.calculatePanchanga(date, location);
+
+      for (const limb of [panchanga.tithi, panchanga.nakshatra, panchanga.yoga, panchanga.karana, panchanga.vara]) {
+        expect(limb.start!.getTime()).toBeLessThanOrEqual(date.getTime());
+        expect(limb.end!.getTime()).toBeGreaterThan(date.getTime());
+      }
+      expect(panchanga.nakshatra.pada).toBeGreaterThanOrEqual(1);
+      expect(panchanga.nakshatra.pada).toBeLessThanOrEqual(4);
+    });
+
+    it('should count vara from sunrise', async () => {
+      // Monday 2024-01-15 before sunrise is still Sunday's vara
+      const beforeSunrise = await sweph.calculatePanchanga(new Date('2024-01-15T05:00:00Z'), location);
+      const afterSunrise = await sweph.calculatePanchanga(new Date('2024-01-15T09:00:00Z'), location);
+
+      expect(beforeSunrise.vara.english).toBe('Sunday');
+      expect(afterSunrise.vara.english).toBe('Monday');
+      expect(afterSunrise.vara.start).toEqual(afterSunrise.sunrise);
+    });
+  });
+
+  describe('findIngresses', () => {
+    it('should include retrograde re-entries', async () => {
+      // Tropical Saturn: Aries on 2025-05-25, back to Pisces in September, Aries again in February 2026
+      const ingresses = await sweph.findIngresses(
+        6, new Date('2025-01-01T00:00:00Z'), new Date('2026-06-01T00:00:00Z'), { zodiac: 'tropical' }
+      );
+
+      expect(ingresses.map(i => [i.name, i.retrograde])).toEqual([
+        ['Aries', false],
+        ['Pisces', true],
+        ['Aries', false],
+      ]);
+      expect(ingresses[0]!.date.toISOString().slice(0, 10)).toBe('2025-05-25');
+      expect(ingresses[1]!.date.toISOString().slice(0, 10)).toBe('2025-09-01');
+    });
+
+    it('should find nakshatra ingresses of the Moon', async () => {
+      const ingresses = await sweph.findIngresses(
+        1, new Date('2024-01-01T00:00:00Z'), new Date('2024-01-29T00:00:00Z'), { boundary: 'nakshatra' }
+      );
+
+      expect(ingresses.length).toBeGreaterThanOrEqual(26);
+      for (const ingress of ingresses) {
+        expect(ingress.to).toBe((ingress.from % 27) + 1);
+        expect(ingress.longitude).toBeCloseTo(((ingress.to - 1) * 360) / 27, 6);
+      }
+    });
+
+    it('should find Makara Sankranti', async () => {
+      // 2024-01-15 02:4x IST
+      const [makara] = await sweph.findSankrantis(new Date('2024-01-10T00:00:00Z'), new Date('2024-01-20T00:00:00Z'));
+
+      expect(makara!.name).toBe('Capricorn');
+      expect(Math.abs(makara!.date.getTime() - Date.parse('2024-01-14T21:15:00Z'))).toBeLessThan(30 * 60 * 1000);
+    });
+  });
+
+  describe('findStations', () => {
+    it('should find Mercury stations with shadow times', async () => {
+      const stations = await sweph.findStations(
+        2, new Date('2024-03-01T00:00:00Z'), new Date('2024-05-01T00:00:00Z'), { zodiac: 'tropical' }
+      );
+
+      // Stationary retrograde 2024-04-01 22:14 UTC at 27°13' Aries, direct 2024-04-25 at 15°58' Aries
+      expect(stations.map(s => s.type)).toEqual(['retrograde', 'direct']);
+      const retrograde = stations[0]!;
+      const direct = stations[1]!;
+      expect(Math.abs(retrograde.date.getTime() - Date.parse('2024-04-01T22:14:00Z'))).toBeLessThan(10 * 60 * 1000);
+      expect(retrograde.longitude).toBeCloseTo(27.22, 1);
+      expect(direct.longitude).toBeCloseTo(15.98, 1);
+
+      expect(retrograde.shadowEntry!.getTime()).toBeLessThan(retrograde.date.getTime());
+      expect(direct.shadowExit!.getTime()).toBeGreaterThan(direct.date.getTime());
+      expect(retrograde.shadowEntry!.toISOString().slice(0, 10)).toBe('2024-03-19');
+      expect(direct.shadowExit!.toISOString().slice(0, 10)).toBe('2024-05-13');
+    });
+  });
+
+  describe('findEclipses', () => {
+    it('should find the eclipses of 2024 with contacts and magnitudes', async () => {
+      const eclipses = await sweph.findEclipses(new Date('2024-01-01T00:00:00Z'), new Date('2025-01-01T00:00:00Z'));
+
+      expect(eclipses.map(e => `${e.kind} ${e.type}`)).toEqual([
+        'lunar penumbral',
+        'solar total',
+        'lunar partial',
+        'solar annular',
+      ]);
+
+      // Great North American eclipse, 8 April 2024 at 18:17 UT
+      const total = eclipses[1]!;
+      expect(Math.abs(total.maximum.getTime() - Date.parse('2024-04-08T18:17Z'))).toBeLessThan(2 * 60000);
+      expect(total.magnitude).toBeGreaterThan(1);
+      expect(total.contacts.begin.getTime()).toBeLessThan(total.contacts.totalBegin!.getTime());
+      expect(total.contacts.totalEnd!.getTime()).toBeLessThan(total.contacts.end.getTime());
+      // Sidereal Pisces, Revati
+      expect(total.rasi).toBe(12);
+      expect(total.nakshatraName).toBe('Revati');
+
+      const partial = eclipses[2]!;
+      expect(partial.contacts.partialBegin).toBeInstanceOf(Date);
+      expect(partial.contacts.totalBegin).toBeNull();
+      expect(partial.magnitude).toBeGreaterThan(0);
+      expect(partial.magnitude).toBeLessThan(0.1);
+    });
+
+    it('should filter by eclipse kind and zodiac', async () => {
+      const start = new Date('2024-01-01T00:00:00Z');
+      const end = new Date('2025-01-01T00:00:00Z');
+
+      const lunar = await sweph.findEclipses(start, end, { type: 'lunar', zodiac: 'tropical' });
+
+      expect(lunar.every(e => e.kind === 'lunar')).toBe(true);
+      // Tropical Libra on 25 March 2024
+      expect(lunar[0]!.rasi).toBe(7);
+    });
+  });
+
+  describe('calculateDayPeriods', () => {
+    const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+
+    it('should divide the day by weekday', async () => {
+      // Monday
+      const periods = await sweph.calculateDayPeriods(new Date('2024-01-15T00:00:00Z'), location);
+      const sunrise = periods.sunrise!.getTime();
+      const eighth = (periods.sunset!.getTime() - sunrise) / 8;
+      const muhurta = (periods.sunset!.getTime() - sunrise) / 15;
+
+      expect(periods.vara).toBe(2);
+      expect(periods.polar).toBeNull();
+      expect(periods.sunrise!.getUTCHours()).toBe(6);
+      expect(periods.rahuKalam!.start.getTime()).toBeCloseTo(sunrise + eighth, -1);
+      expect(periods.yamaganda!.start.getTime()).toBeCloseTo(sunrise + 3 * eighth, -1);
+      expect(periods.gulikaKalam!.start.getTime()).toBeCloseTo(sunrise + 5 * eighth, -1);
+      expect(periods.abhijit!.start.getTime()).toBeCloseTo(sunrise + 7 * muhurta, -1);
+      expect(periods.durmuhurta.map(d => d.start.getTime())).toEqual([
+        expect.closeTo(sunrise + 8 * muhurta, -1),
+        expect.closeTo(sunrise + 11 * muhurta, -1),
+      ]);
+
+      // Monday night starts with Friday's lord: Venus, Saturn, Sun, Moon, Mars, Mercury, Jupiter
+      const nightEighth = (periods.nextSunrise!.getTime() - periods.sunset!.getTime()) / 8;
+      expect(periods.night.gulikaKalam!.start.getTime()).toBeCloseTo(periods.sunset!.getTime() + nightEighth, -1);
+      expect(periods.night.yamaganda!.start.getTime()).toBeCloseTo(periods.sunset!.getTime() + 6 * nightEighth, -1);
+    });
+
+    it('should include the Tuesday night durmuhurta', async () => {
+      const periods = await sweph.calculateDayPeriods(new Date('2024-01-16T00:00:00Z'), location);
+
+      expect(periods.durmuhurta).toHaveLength(2);
+      expect(periods.durmuhurta[1]!.start.getTime()).toBeGreaterThan(periods.sunset!.getTime());
+    });
+
+    it('should report polar days and nights', async () => {
+      const tromso = { latitude: 69.65, longitude: 18.96, timezone: 1 };
+
+      const winter = await sweph.calculateDayPeriods(new Date('2024-12-21T00:00:00Z'), tromso);
+      expect(winter.polar).toBe('polar-night');
+      expect(winter.sunrise).toBeNull();
+      expect(winter.rahuKalam).toBeNull();
+
+      const summer = await sweph.calculateDayPeriods(new Date('2024-06-21T00:00:00Z'), tromso);
+      expect(summer.polar).toBe('midnight-sun');
+      expect(summer.durmuhurta).toEqual([]);
+    });
+  });
+
+  describe('calculateChoghadiya', () => {
+    it('should start each day and night with the weekday sequence', async () => {
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+      // Sunday
+      const choghadiya = await sweph.calculateChoghadiya(new Date('2024-01-14T00:00:00Z'), location);
+
+      expect(choghadiya).toHaveLength(16);
+      expect(choghadiya.slice(0, 8).map(c => c.name)).toEqual(
+        ['Udveg', 'Char', 'Labh', 'Amrit', 'Kaal', 'Shubh', 'Rog', 'Udveg']
+      );
+      expect(choghadiya.slice(8).map(c => c.name)).toEqual(
+        ['Shubh', 'Amrit', 'Char', 'Rog', 'Kaal', 'Labh', 'Udveg', 'Shubh']
+      );
+      expect(choghadiya[3]).toMatchObject({ planet: 'Moon', quality: 'good', night: false });
+      expect(choghadiya[7]!.end.getTime()).toBeCloseTo(choghadiya[8]!.start.getTime(), -1);
+    });
+  });
+
+  describe('calculateHoras', () => {
+    it('should run the Chaldean sequence from the weekday lord', async () => {
+      const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+      // Monday
+      const horas = await sweph.calculateHoras(new Date('2024-01-15T00:00:00Z'), location);
+
+      expect(horas).toHaveLength(24);
+      expect(horas.slice(0, 8).map(h => h.planet)).toEqual(
+        ['Moon', 'Saturn', 'Jupiter', 'Mars', 'Sun', 'Venus', 'Mercury', 'Moon']
+      );
+      expect(horas[12]).toMatchObject({ number: 13, night: true });
+      // The next day's first hora belongs to Tuesday's lord
+      expect(CHALDEAN_NEXT(horas[23]!.planet)).toBe('Mars');
+    });
+  });
+
+  describe('findMuhurtas', () => {
+    const location = { latitude: 27.7, longitude: 85.3, timezone: 5.75 };
+    const start = new Date('2024-01-01T00:00:00Z');
+    const end = new Date('2024-02-01T00:00:00Z');
+
+    it('should find windows meeting every constraint', async () => {
+      const constraints = {
+        nakshatras: NAKSHATRA_GROUPS.FIXED,
+        excludeTithis: TITHI_GROUPS.RIKTA,
+        lagnaRasis: RASI_GROUPS.FIXED,
+        excludePeriods: ['rahuKalam' as const],
+      };
+      const windows = await sweph.findMuhurtas(start, end, location, constraints, { minDuration: 10 });
+
+      expect(windows.length).toBeGreaterThan(0);
+      for (const window of windows) {
+        expect(window.duration).toBeGreaterThanOrEqual(10);
+        expect(NAKSHATRA_GROUPS.FIXED).toContain(window.moment.nakshatra);
+        expect(TITHI_GROUPS.RIKTA).not.toContain(window.moment.tithi);
+        expect(RASI_GROUPS.FIXED).toContain(window.moment.lagnaRasi);
+        expect(window.moment.periods).not.toContain('rahuKalam');
+
+        // Cross-check against the panchanga and lagna just inside both edges
+        for (const edge of [window.start.getTime() + 5000, window.end.getTime() - 5000]) {
+          const local = new Date(edge + location.timezone * 3600000);
+          const panchanga = await sweph.calculatePanchanga(local, location);
+          const lagna = await sweph.calculateLagna(local, location);
+          expect(NAKSHATRA_GROUPS.FIXED).toContain(panchanga.nakshatra.number);
+          expect(RASI_GROUPS.FIXED).toContain(lagna.rasi);
+        }
+      }
+    });
+
+    it('should end windows exactly at a constraint boundary', async () => {
+      const windows = await sweph.findMuhurtas(start, end, location, { nakshatras: [4] });
+      // Rohini once in January 2024
+      const [rohini] = windows;
+      const local = new Date(rohini!.start.getTime() + 60000 + location.timezone * 3600000);
+      const panchanga = await sweph.calculatePanchanga(local, location);
+
+      expect(windows).toHaveLength(1);
+      expect(Math.abs(rohini!.start.getTime() - panchanga.nakshatra.start!.getTime() + location.timezone * 3600000)).toBeLessThan(5000);
+      expect(Math.abs(rohini!.end.getTime() - panchanga.nakshatra.end!.getTime() + location.timezone * 3600000)).toBeLessThan(5000);
+    });
+
+    it('should take the search range in UTC', async () => {
+      // Rahu Kalam on 2024-01-10 in local time, shifted to UTC
+      const periods = await sweph.calculateDayPeriods(new Date('2024-01-10T12:00:00Z'), location);
+      const offset = location.timezone * 3600000;
+      const rahuStart = periods.rahuKalam!.start.getTime() - offset;
+      const rahuEnd = periods.rahuKalam!.end.getTime() - offset;
+
+      const windows = await sweph.findMuhurtas(
+        new Date(rahuStart - 3600000),
+        new Date(rahuEnd + 3600000),
+        location,
+        { excludePeriods: ['rahuKalam'] }
+      );
+      const [before, after] = [...windows].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+      expect(windows).toHaveLength(2);
+      expect(Math.abs(before!.start.getTime() - (rahuStart - 3600000))).toBeLessThan(1000);
+      expect(Math.abs(before!.end.getTime() - rahuStart)).toBeLessThan(1000);
+      expect(Math.abs(after!.start.getTime() - rahuEnd)).toBeLessThan(1000);
+      expect(Math.abs(after!.end.getTime() - (rahuEnd + 3600000))).toBeLessThan(1000);
+    });
+
+    it('should apply Tara and Chandra bala and rank by preferences', async () => {
+      const windows = await sweph.findMuhurtas(start, end, location, {
+        taraBala: { birthNakshatra: 1 },
+        chandraBala: { birthRasi: 1 },
+      }, { preferences: { varas: [7] }, limit: 3 });
+
+      expect(windows).toHaveLength(3);
+      for (const window of windows) {
+        expect([2, 4, 6, 8, 9]).toContain(((window.moment.nakshatra - 1) % 9) + 1);
+        expect([1, 3, 6, 7, 10, 11]).toContain(window.moment.moonRasi);
+      }
+      expect(windows[0]!.score).toBe(1);
+      expect(windows[0]!.moment.vara).toBe(7);
+      expect(windows[1]!.score).toBe(0);
+      expect(windows[1]!.duration).toBeGreaterThanOrEqual(windows[2]!.duration);
+    });
   });
 
   describe('Utility methods', () => {
@@ -185,6 +1065,16 @@ describe('@af/sweph v2 API', () => {
       expect(ayanamsa).toBeGreaterThan(23);
       expect(ayanamsa).toBeLessThan(25);
     });
+
+    it('should include nutation in the true ayanamsa', () => {
+      const date = new Date('2024-01-01T00:00:00Z');
+      const mean = sweph.getAyanamsa(date, 1);
+      const trueAyanamsa = sweph.getAyanamsa(date, 1, true);
+
+      // Nutation in longitude stays within about 17"
+      expect(trueAyanamsa).not.toBe(mean);
+      expect(Math.abs(trueAyanamsa - mean)).toBeLessThan(0.005);
+    });
   });
 
   describe('Constants', () => {
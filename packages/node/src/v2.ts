@@ -24,11 +24,31 @@ import {
   calculatePlanetRiseSetTimes,
 } from './planets';
 
-import { calculateLagna } from './houses';
+import { calculatePosition, calculatePositions } from './positions';
+import { calculateLagna, calculateBhavaChalit } from './houses';
 import { calculateSunTimes, calculateSolarNoon, calculateSunPath } from './sun';
-import { calculateMoonData, calculateMoonPhase, calculateNextMoonPhases } from './moon';
+import { calculateMoonData, calculateMoonPhase, calculateNextMoonPhases, findMoonPhases } from './moon';
+import { calculatePanchanga, getVaraNumber } from './panchanga';
+import { calculateDayPeriods, calculateChoghadiya, calculateHoras } from './periods';
+import { findMuhurtas } from './muhurta';
+import { findIngresses, findSankrantis } from './ingress';
+import { findStations } from './stations';
+import { findEclipses } from './eclipses';
+import { calculateFixedStar, listFixedStars } from './fixedstars';
 import { initializeSweph, setEphemerisPath, getAyanamsa, dateToJulian, clearAllCaches, setCachingEnabled } from './utils';
-import { PLANETS, AYANAMSA, RASHIS, NAKSHATRAS } from './constants';
+import { PLANETS, AYANAMSA, HOUSE_SYSTEMS, RASHIS, NAKSHATRAS } from './constants';
+import {
+  calculateVimshottariDasha,
+  calculateDasha,
+  calculateVargaChart,
+  calculateAshtakavarga,
+  calculateShadbala,
+  detectYogas,
+  calculateAspects,
+  analyzeDoshas,
+  calculateKPChart,
+  calculateJaimini,
+} from '@af/sweph-core';
 
 import type {
   Planet,
@@ -37,8 +57,71 @@ import type {
   MoonData,
   MoonPhase,
   CalculationOptions,
+  CoordinateSystem,
+  CoordinateCenter,
+  PositionOptions,
+  EclipticPosition,
+  EquatorialPosition,
+  CartesianPosition,
+  BodyPosition,
+  PositionFor,
   LagnaInfo,
+  Bhava,
   NextMoonPhases,
+  MoonPhaseEvent,
+  DashaOptions,
+  VimshottariDasha,
+  DashaResult,
+  VargaDivision,
+  VargaChartType,
+  VargaOptions,
+  DivisionalChart,
+  AshtakavargaOptions,
+  Ashtakavarga,
+  Shadbala,
+  YogaOptions,
+  YogaResult,
+  AspectOptions,
+  AspectResult,
+  DoshaOptions,
+  DoshaResult,
+  KPSub,
+  KPLords,
+  KPPlanet,
+  KPCusp,
+  KPSignificators,
+  KPRulingPlanets,
+  KPChart,
+  CharaKarakaName,
+  CharaKaraka,
+  ArudhaPada,
+  JaiminiDrishti,
+  JaiminiOptions,
+  JaiminiChart,
+  Panchanga,
+  DayPeriods,
+  TimePeriod,
+  Choghadiya,
+  ChoghadiyaName,
+  Hora,
+  InauspiciousPeriod,
+  MuhurtaMoment,
+  MuhurtaConstraints,
+  MuhurtaOptions,
+  MuhurtaWindow,
+  Ingress,
+  IngressOptions,
+  Station,
+  StationOptions,
+  Eclipse,
+  EclipseOptions,
+  FixedStar,
+  FixedStarInfo,
+  FixedStarOptions,
+  Zodiac,
+  CustomAyanamsa,
+  AyanamsaOption,
+  HouseSystem,
 } from './types';
 
 // ============================================================================
@@ -72,8 +155,24 @@ export interface Location {
  * Options for planetary calculations
  */
 export interface PlanetOptions {
-  /** Ayanamsa type (default: LAHIRI = 1) */
-  ayanamsa?: number;
+  /** Ayanamsa type or a user-defined `{ custom: { t0, ayanT0 } }` (default: LAHIRI = 1) */
+  ayanamsa?: AyanamsaOption;
+  /** Use the true ayanamsa, including nutation, for the lagna and houses (default: false) */
+  trueAyanamsa?: boolean;
+  /**
+   * House system for the lagna and house cusps (default: HouseSystem.PLACIDUS, or
+   * HouseSystem.PORPHYRIUS inside the polar circles)
+   */
+  houseSystem?: HouseSystem | string;
+  /**
+   * Zodiac for planet, lagna and house longitudes (default: 'sidereal').
+   * Vedic calculations (dasha, vargas, panchanga, ...) always use the sidereal zodiac.
+   */
+  zodiac?: Zodiac;
+  /** Include Uranus, Neptune and Pluto (default: false) */
+  includeOuterPlanets?: boolean;
+  /** Minor planets to add by name ('Ceres', 'Eris') or body id (AST_OFFSET + catalog number) */
+  extraBodies?: Array<number | string>;
   /** Timezone offset in hours (default: 0 = UTC) */
   timezone?: number;
   /** Location for rise/set calculations */
@@ -107,19 +206,20 @@ export interface SwephInstance {
   /**
    * Calculate positions for all Vedic planets
    * @param date - Date/time for calculation
-   * @param options - Calculation options (ayanamsa, timezone)
+   * @param options - Calculation options (zodiac, ayanamsa, timezone)
    * @returns Array of planet positions
    */
   calculatePlanets(date: Date, options?: PlanetOptions): Promise<Planet[]>;
   
   /**
    * Calculate position for a single planet
-   * @param planetId - Planet ID (0=Sun, 1=Moon, etc.)
+   * @param planetId - Planet ID (0=Sun, 1=Moon, etc.), AST_OFFSET + catalog number, or a minor planet name
    * @param date - Date/time for calculation
    * @param options - Calculation options
-   * @returns Planet position or null if calculation fails
+   * @returns Planet position
+   * @throws Error if the calculation fails or a minor planet's ephemeris file is missing
    */
-  calculatePlanet(planetId: number, date: Date, options?: PlanetOptions): Promise<Planet | null>;
+  calculatePlanet(planetId: number | string, date: Date, options?: PlanetOptions): Promise<Planet>;
   
   /**
    * Calculate rise, set, and transit times for a planet
@@ -131,17 +231,53 @@ export interface SwephInstance {
    */
   calculateRiseSet(planetId: number, date: Date, location: Location, options?: PlanetOptions): Promise<RiseSetTransit>;
 
+  /**
+   * Calculate positions in ecliptic, equatorial or rectangular coordinates, seen from the
+   * Earth's center, the observer, the Sun or the solar system barycenter
+   * @param date - Date/time for calculation
+   * @param options - Coordinate system, center, location (topocentric), zodiac (ecliptic),
+   *   bodies (default: Sun to Pluto, Earth for heliocentric) and timezone
+   * @returns Longitude/latitude, RA/Dec or x/y/z with daily speeds, typed by `coordinates`
+   */
+  calculatePositions<C extends CoordinateSystem = 'ecliptic'>(
+    date: Date,
+    options?: PositionOptions<C> & AstroOptions
+  ): Promise<PositionFor<C>[]>;
+
+  /**
+   * Calculate the position of one body in ecliptic, equatorial or rectangular coordinates
+   * @param body - Body id, AST_OFFSET + catalog number, or a minor planet name
+   * @param date - Date/time for calculation
+   * @param options - Coordinate system, center, location (topocentric), zodiac (ecliptic) and timezone
+   * @returns Longitude/latitude, RA/Dec or x/y/z with daily speeds, typed by `coordinates`
+   */
+  calculatePosition<C extends CoordinateSystem = 'ecliptic'>(
+    body: number | string,
+    date: Date,
+    options?: PositionOptions<C> & AstroOptions
+  ): Promise<PositionFor<C>>;
+
   // === Lagna & Houses ===
   
   /**
    * Calculate Lagna (Ascendant) and houses
    * @param date - Date/time for calculation
    * @param location - Geographic location
-   * @param options - Calculation options (ayanamsa)
-   * @returns Lagna information with house cusps
+   * @param options - Calculation options (zodiac, ayanamsa, house system)
+   * @returns Lagna information with house cusps and their speeds, MC, ARMC, Vertex,
+   *   equatorial ascendant and co-ascendants
    */
   calculateLagna(date: Date, location: Location, options?: PlanetOptions): Promise<LagnaInfo>;
 
+  /**
+   * Calculate the Bhava Chalit chart (Sripati bhavas around the Porphyry cusps)
+   * @param date - Date/time for calculation
+   * @param location - Geographic location
+   * @param options - Calculation options (ayanamsa, timezone)
+   * @returns The 12 bhavas with their sandhis, madhya and the planets in them
+   */
+  calculateBhavaChalit(date: Date, location: Location, options?: PlanetOptions): Promise<Bhava[]>;
+
   // === Sun Calculations ===
   
   /**
@@ -189,19 +325,257 @@ export interface SwephInstance {
   /**
    * Calculate next moon phases
    * @param date - Date to start from
-   * @returns Next new moon, first quarter, full moon, last quarter
+   * @returns Exact times of the next new moon, first quarter, full moon, last quarter
+   *   and the new moon after that
    */
   calculateNextMoonPhases(date: Date): Promise<NextMoonPhases>;
 
+  /**
+   * Find all new moons, quarters and full moons in a date range
+   * @param start - Start of the search range
+   * @param end - End of the search range
+   * @returns Moon phases with exact UTC times
+   */
+  findMoonPhases(start: Date, end: Date): Promise<MoonPhaseEvent[]>;
+
+  // === Dasha ===
+
+  /**
+   * Calculate Vimshottari dasha periods from the natal Moon
+   * @param date - Birth date/time
+   * @param location - Birth location (timezone is used to convert to UTC)
+   * @param options - Ayanamsa, year length and nesting depth
+   * @returns Balance at birth and nested maha/antar/pratyantar periods, with UTC start and end dates
+   */
+  calculateDasha(date: Date, location: Location, options?: PlanetOptions & DashaOptions): Promise<VimshottariDasha>;
+
+  /**
+   * Calculate dasha periods with a registered dasha system
+   * @param date - Birth date/time
+   * @param location - Birth location (timezone is used to convert to UTC)
+   * @param system - 'vimshottari', 'yogini', 'ashtottari', 'kalachakra', 'chara' or
+   *   an id added with registerDashaSystem()
+   * @param options - Calculation options, year length and nesting depth
+   * @returns Balance at birth, nested periods with UTC start and end dates, and whether the
+   *   chart meets the system's conditions
+   */
+  calculateDashaSystem(
+    date: Date,
+    location: Location,
+    system: string,
+    options?: PlanetOptions & DashaOptions
+  ): Promise<DashaResult>;
+
+  // === Divisional Charts ===
+
+  /**
+   * Calculate a divisional (varga) chart including the lagna
+   * @param date - Date/time for calculation
+   * @param location - Geographic location
+   * @param chart - Varga code ('D1', 'D2', 'D3', 'D4', 'D7', 'D9', ... 'D60')
+   * @param options - Ayanamsa and varga variant
+   * @returns Varga lagna and planet placements with whole-sign houses
+   */
+  calculateDivisionalChart(date: Date, location: Location, chart: VargaChartType, options?: PlanetOptions & VargaOptions): Promise<DivisionalChart>;
+
+  // === Ashtakavarga ===
+
+  /**
+   * Calculate bhinnashtakavarga tables and sarvashtakavarga
+   * @param date - Date/time for calculation
+   * @param location - Geographic location
+   * @param options - Ayanamsa and optional shodhana reductions
+   * @returns Bindu tables for the seven planets and lagna, plus sarvashtakavarga per sign
+   */
+  calculateAshtakavarga(date: Date, location: Location, options?: PlanetOptions & AshtakavargaOptions): Promise<Ashtakavarga>;
+
+  // === Shadbala ===
+
+  /**
+   * Calculate shadbala of the seven planets and bhava bala of the twelve houses
+   * @param date - Date/time for calculation (local time)
+   * @param location - Geographic location
+   * @param options - Calculation options (ayanamsa)
+   * @returns Strengths in virupas and rupas with the minimum-required ratio
+   */
+  calculateShadbala(date: Date, location: Location, options?: PlanetOptions): Promise<Shadbala>;
+
+  // === Yogas ===
+
+  /**
+   * Detect classical and registered custom yogas in the chart
+   * @param date - Date/time for calculation
+   * @param location - Geographic location
+   * @param options - Ayanamsa, categories to evaluate or an explicit rule set
+   * @returns Yogas present, each with the planets and houses that formed it
+   */
+  detectYogas(date: Date, location: Location, options?: PlanetOptions & YogaOptions): Promise<YogaResult[]>;
+
+  // === Doshas ===
+
+  /**
+   * Analyze the chart for Manglik, Kaal Sarp, Pitra, Grahan and Guru Chandal doshas
+   * @param date - Date/time for calculation
+   * @param location - Geographic location
+   * @param options - Ayanamsa, doshas to evaluate, Manglik houses and cancellation rules
+   * @returns Each evaluated dosha with severity, triggering factors and cancellations
+   */
+  analyzeDoshas(date: Date, location: Location, options?: PlanetOptions & DoshaOptions): Promise<DoshaResult[]>;
+
+  // === Aspects ===
+
+  /**
+   * Calculate Western aspects, graha drishti and rashi drishti between the planets
+   * @param date - Date/time for calculation
+   * @param options - Zodiac, ayanamsa, outer planets, aspects and orbs; with a location
+   *   the Ascendant and MC are included
+   * @returns Western aspects within orb and the Vedic sign aspects
+   */
+  calculateAspects(date: Date, options?: PlanetOptions & AspectOptions): Promise<AspectResult>;
+
+  // === KP ===
+
+  /**
+   * Calculate a Krishnamurti Paddhati chart: sign, star, sub and sub-sub lords of the
+   * Placidus cusps and planets, house significators and ruling planets
+   * @param date - Date/time for calculation; pass the moment of judgement for its ruling planets
+   * @param location - Geographic location
+   * @param options - Calculation options (default: KRISHNAMURTI ayanamsa, Placidus houses)
+   * @returns KP chart with cusps, planets, four-level significators and ruling planets
+   */
+  calculateKPChart(date: Date, location: Location, options?: PlanetOptions): Promise<KPChart>;
+
+  // === Jaimini ===
+
+  /**
+   * Calculate chara karakas, arudha padas, upapada, karakamsa and rashi drishti
+   * @param date - Date/time for calculation
+   * @param location - Geographic location
+   * @param options - Calculation options and the number of chara karakas (7 or 8)
+   * @returns Jaimini chart
+   */
+  calculateJaimini(date: Date, location: Location, options?: PlanetOptions & JaiminiOptions): Promise<JaiminiChart>;
+
+  // === Fixed Stars ===
+
+  /**
+   * Calculate the position of a fixed star and its conjunctions with the planets
+   * @param name - Star name ('Regulus'), or nomenclature with a leading comma (',alLeo')
+   * @param date - Date/time for calculation
+   * @param options - Zodiac, ayanamsa, orb (default: 1°) and planets to check;
+   *   without planets, those at the same date are used
+   * @returns Star longitude, rasi, nakshatra, magnitude and conjunct planets
+   */
+  calculateFixedStar(name: string, date: Date, options?: PlanetOptions & FixedStarOptions): Promise<FixedStar>;
+
+  /**
+   * List the stars in the sefstars.txt catalog of the ephemeris path
+   * @returns Star names, nomenclatures and magnitudes
+   */
+  listFixedStars(): Promise<FixedStarInfo[]>;
+
+  // === Panchanga ===
+
+  /**
+   * Calculate the panchanga (tithi, vara, nakshatra, yoga, karana) with start/end times
+   * @param date - Date/time for calculation (local time)
+   * @param location - Geographic location
+   * @param options - Calculation options (ayanamsa)
+   * @returns Panchanga limbs with exact start and end times
+   */
+  calculatePanchanga(date: Date, location: Location, options?: PlanetOptions): Promise<Panchanga>;
+
+  /**
+   * Calculate Rahu Kalam, Yamaganda, Gulika Kalam, Abhijit muhurta and Durmuhurta
+   * @param date - Date for calculation (local time)
+   * @param location - Geographic location
+   * @returns Day and night periods in local time; null where the Sun does not rise or set
+   */
+  calculateDayPeriods(date: Date, location: Location): Promise<DayPeriods>;
+
+  /**
+   * Calculate the eight day and eight night Choghadiya segments
+   * @param date - Date for calculation (local time)
+   * @param location - Geographic location
+   * @returns Segments with ruling planet and quality, in local time
+   */
+  calculateChoghadiya(date: Date, location: Location): Promise<Choghadiya[]>;
+
+  /**
+   * Calculate the 24 planetary hours (horas) from sunrise to the next sunrise
+   * @param date - Date for calculation (local time)
+   * @param location - Geographic location
+   * @returns Horas with ruling planet, in local time
+   */
+  calculateHoras(date: Date, location: Location): Promise<Hora[]>;
+
+  /**
+   * Find time windows that satisfy muhurta constraints
+   * @param start - Start of the search range (UTC)
+   * @param end - End of the search range (UTC)
+   * @param location - Geographic location
+   * @param constraints - Conditions on the panchanga, lagna, Tara bala, Chandra bala and day periods
+   * @param options - Ayanamsa, minimum duration (minutes), ranking preferences and result limit
+   * @returns Ranked windows with UTC start and end times
+   */
+  findMuhurtas(
+    start: Date,
+    end: Date,
+    location: Location,
+    constraints: MuhurtaConstraints,
+    options?: MuhurtaOptions
+  ): Promise<MuhurtaWindow[]>;
+
+  // === Transit Search ===
+
+  /**
+   * Find when a body crosses sign, nakshatra, pada or custom degree boundaries
+   * @param bodyId - Swiss Ephemeris body id
+   * @param start - Start of the search range
+   * @param end - End of the search range
+   * @param options - Zodiac, ayanamsa and boundary type
+   * @returns Ingresses with exact UTC times, including retrograde re-entries
+   */
+  findIngresses(bodyId: number, start: Date, end: Date, options?: IngressOptions): Promise<Ingress[]>;
+
+  /**
+   * Find Sankrantis (sidereal Sun sign ingresses)
+   * @param start - Start of the search range
+   * @param end - End of the search range
+   * @param ayanamsa - Ayanamsa type (default: LAHIRI = 1)
+   * @returns Sun sign ingresses with exact UTC times
+   */
+  findSankrantis(start: Date, end: Date, ayanamsa?: AyanamsaOption): Promise<Ingress[]>;
+
+  /**
+   * Find retrograde and direct stations with pre/post retrograde shadow times
+   * @param bodyId - Swiss Ephemeris body id (Mercury through Pluto)
+   * @param start - Start of the search range
+   * @param end - End of the search range
+   * @param options - Zodiac and ayanamsa for the station longitudes
+   * @returns Stations with exact UTC times
+   */
+  findStations(bodyId: number, start: Date, end: Date, options?: StationOptions): Promise<Station[]>;
+
+  /**
+   * Find solar and lunar eclipses
+   * @param start - Start of the search range
+   * @param end - End of the search range
+   * @param options - Eclipse kind ('solar', 'lunar' or 'all'), zodiac and ayanamsa
+   * @returns Eclipses with type, maximum, magnitude, contact times, longitude and nakshatra
+   */
+  findEclipses(start: Date, end: Date, options?: EclipseOptions): Promise<Eclipse[]>;
+
   // === Utilities ===
   
   /**
    * Get ayanamsa value for a date
    * @param date - Date for calculation
-   * @param ayanamsaType - Ayanamsa type (default: LAHIRI = 1)
+   * @param ayanamsaType - Ayanamsa type or a user-defined `{ custom: { t0, ayanT0 } }` (default: LAHIRI = 1)
+   * @param trueAyanamsa - Include nutation (true ayanamsa) instead of the mean ayanamsa (default: false)
    * @returns Ayanamsa value in degrees
    */
-  getAyanamsa(date: Date, ayanamsaType?: number): number;
+  getAyanamsa(date: Date, ayanamsaType?: AyanamsaOption, trueAyanamsa?: boolean): number;
   
   /**
    * Convert date to Julian Day
@@ -248,6 +622,23 @@ export interface SwephInstance {
 // v2 Factory
 // ============================================================================
 
+/**
+ * Sidereal calculation options for the Vedic methods from the instance options
+ * @param opts - Ayanamsa, true ayanamsa and house system given by the caller
+ * @param defaults - Ayanamsa and house system when the caller gives none
+ * @internal
+ */
+function calculationOptions(
+  opts: PlanetOptions | undefined,
+  defaults: { ayanamsa?: AyanamsaOption; houseSystem?: HouseSystem | string } = {}
+): CalculationOptions {
+  return {
+    ayanamsa: opts?.ayanamsa ?? defaults.ayanamsa ?? 1,
+    trueAyanamsa: opts?.trueAyanamsa ?? false,
+    houseSystem: opts?.houseSystem ?? defaults.houseSystem,
+  };
+}
+
 /**
  * Create a SwephInstance with auto-initialization
  * 
@@ -300,6 +691,9 @@ export async function createSweph(options?: SwephInitOptions): Promise<SwephInst
     async calculatePlanets(date: Date, opts?: PlanetOptions): Promise<Planet[]> {
       const calcOpts: CalculationOptions = {
         ayanamsa: opts?.ayanamsa ?? 1,
+        zodiac: opts?.zodiac ?? 'sidereal',
+        includeOuterPlanets: opts?.includeOuterPlanets,
+        extraBodies: opts?.extraBodies,
         location: opts?.location ? {
           latitude: opts.location.latitude,
           longitude: opts.location.longitude,
@@ -313,9 +707,10 @@ export async function createSweph(options?: SwephInitOptions): Promise<SwephInst
       return calculatePlanets(utcDate, calcOpts);
     },
     
-    async calculatePlanet(planetId: number, date: Date, opts?: PlanetOptions): Promise<Planet | null> {
+    async calculatePlanet(planetId: number | string, date: Date, opts?: PlanetOptions): Promise<Planet> {
       const calcOpts: CalculationOptions = {
         ayanamsa: opts?.ayanamsa ?? 1,
+        zodiac: opts?.zodiac ?? 'sidereal',
         location: opts?.location ? {
           latitude: opts.location.latitude,
           longitude: opts.location.longitude,
@@ -343,6 +738,25 @@ export async function createSweph(options?: SwephInitOptions): Promise<SwephInst
       };
     },
     
+    async calculatePositions<C extends CoordinateSystem = 'ecliptic'>(
+      date: Date,
+      opts?: PositionOptions<C> & AstroOptions
+    ): Promise<PositionFor<C>[]> {
+      const tzOffset = opts?.timezone ?? opts?.location?.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      return calculatePositions(utcDate, opts);
+    },
+
+    async calculatePosition<C extends CoordinateSystem = 'ecliptic'>(
+      body: number | string,
+      date: Date,
+      opts?: PositionOptions<C> & AstroOptions
+    ): Promise<PositionFor<C>> {
+      const tzOffset = opts?.timezone ?? opts?.location?.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      return calculatePosition(body, utcDate, opts);
+    },
+    
     // Lagna
     async calculateLagna(date: Date, location: Location, opts?: PlanetOptions): Promise<LagnaInfo> {
       const geoLoc = {
@@ -351,10 +765,24 @@ export async function createSweph(options?: SwephInitOptions): Promise<SwephInst
         timezone: location.timezone ?? 0,
       };
       const calcOpts: CalculationOptions = {
-        ayanamsa: opts?.ayanamsa ?? 1,
+        ...calculationOptions(opts),
+        zodiac: opts?.zodiac ?? 'sidereal',
       };
       return calculateLagna(date, geoLoc, calcOpts);
     },
+
+    async calculateBhavaChalit(date: Date, location: Location, opts?: PlanetOptions): Promise<Bhava[]> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, { ...calcOpts, includeOuterPlanets: opts?.includeOuterPlanets });
+      return calculateBhavaChalit(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts, planets);
+    },
     
     // Sun
     async calculateSunTimes(date: Date, location: Location): Promise<SunTimes> {
@@ -401,10 +829,308 @@ export async function createSweph(options?: SwephInitOptions): Promise<SwephInst
     async calculateNextMoonPhases(date: Date): Promise<NextMoonPhases> {
       return calculateNextMoonPhases(date);
     },
+
+    async findMoonPhases(start: Date, end: Date): Promise<MoonPhaseEvent[]> {
+      return findMoonPhases(start, end);
+    },
+
+    // Dasha
+    async calculateDasha(date: Date, location: Location, opts?: PlanetOptions & DashaOptions): Promise<VimshottariDasha> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const planets = calculatePlanets(utcDate, calculationOptions(opts));
+      const moon = planets.find(p => p.name === 'Moon');
+      if (!moon) {
+        throw new Error('Failed to calculate Moon position for dasha');
+      }
+      return calculateVimshottariDasha(moon.longitude, utcDate, {
+        yearLength: opts?.yearLength,
+        depth: opts?.depth,
+      });
+    },
+
+    async calculateDashaSystem(
+      date: Date,
+      location: Location,
+      system: string,
+      opts?: PlanetOptions & DashaOptions
+    ): Promise<DashaResult> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts);
+
+      return calculateDasha({ planets, lagna, birthDate: utcDate }, system, {
+        yearLength: opts?.yearLength,
+        depth: opts?.depth,
+      });
+    },
+
+    // Divisional charts
+    async calculateDivisionalChart(date: Date, location: Location, chart: VargaChartType, opts?: PlanetOptions & VargaOptions): Promise<DivisionalChart> {
+      const division = Number(chart.slice(1)) as VargaDivision;
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts);
+
+      return calculateVargaChart(planets, lagna.longitude, division, { variant: opts?.variant });
+    },
+
+    // Ashtakavarga
+    async calculateAshtakavarga(date: Date, location: Location, opts?: PlanetOptions & AshtakavargaOptions): Promise<Ashtakavarga> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts);
+
+      return calculateAshtakavarga(planets, lagna, {
+        trikonaShodhana: opts?.trikonaShodhana,
+        ekadhipatyaShodhana: opts?.ekadhipatyaShodhana,
+      });
+    },
+
+    // Shadbala
+    async calculateShadbala(date: Date, location: Location, opts?: PlanetOptions): Promise<Shadbala> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      };
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, geoLoc, calcOpts);
+
+      // Sunrise starting the weekday of the moment, then the sunset and sunrise that follow
+      const dayMs = 24 * 60 * 60 * 1000;
+      let today = calculateSunTimes(date, geoLoc);
+      if (today.sunrise && today.sunrise > date) {
+        today = calculateSunTimes(new Date(date.getTime() - dayMs), geoLoc);
+      }
+      if (!today.sunrise) {
+        throw new Error('Failed to calculate sunrise for shadbala');
+      }
+      const next = calculateSunTimes(new Date(today.sunrise.getTime() + dayMs), geoLoc);
+      const sunset = today.sunset && today.sunset > today.sunrise ? today.sunset : next.sunset;
+      if (!sunset || !next.sunrise) {
+        throw new Error('Failed to calculate sunset for shadbala');
+      }
+
+      return calculateShadbala(planets, lagna, date, {
+        sunrise: today.sunrise,
+        sunset,
+        nextSunrise: next.sunrise,
+      });
+    },
+
+    // Yogas
+    async detectYogas(date: Date, location: Location, opts?: PlanetOptions & YogaOptions): Promise<YogaResult[]> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts);
+
+      return detectYogas(planets, lagna, { categories: opts?.categories, rules: opts?.rules });
+    },
+
+    // Doshas
+    async analyzeDoshas(date: Date, location: Location, opts?: PlanetOptions & DoshaOptions): Promise<DoshaResult[]> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts);
+
+      return analyzeDoshas(planets, lagna, opts);
+    },
+
+    // Aspects
+    async calculateAspects(date: Date, opts?: PlanetOptions & AspectOptions): Promise<AspectResult> {
+      const tzOffset = opts?.timezone ?? opts?.location?.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts: CalculationOptions = {
+        ...calculationOptions(opts),
+        zodiac: opts?.zodiac ?? 'sidereal',
+        includeOuterPlanets: opts?.includeOuterPlanets,
+      };
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+
+      let ascendant = opts?.ascendant;
+      let mc = opts?.mc;
+      if (opts?.location) {
+        const lagna = calculateLagna(date, {
+          latitude: opts.location.latitude,
+          longitude: opts.location.longitude,
+          timezone: tzOffset,
+        }, calcOpts);
+        ascendant ??= lagna.longitude;
+        mc ??= lagna.mc;
+      }
+
+      return calculateAspects(planets, { ...opts, ascendant, mc });
+    },
+
+    // KP
+    async calculateKPChart(date: Date, location: Location, opts?: PlanetOptions): Promise<KPChart> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts, {
+        ayanamsa: AYANAMSA.KRISHNAMURTI,
+        houseSystem: HOUSE_SYSTEMS.PLACIDUS,
+      });
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      };
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, geoLoc, calcOpts);
+
+      return calculateKPChart(planets, lagna, getVaraNumber(dateToJulian(utcDate), geoLoc));
+    },
+
+    // Jaimini
+    async calculateJaimini(date: Date, location: Location, opts?: PlanetOptions & JaiminiOptions): Promise<JaiminiChart> {
+      const tzOffset = opts?.timezone ?? location.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const calcOpts = calculationOptions(opts);
+
+      const planets = calculatePlanets(utcDate, calcOpts);
+      const lagna = calculateLagna(date, {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: tzOffset,
+      }, calcOpts);
+
+      return calculateJaimini(planets, lagna, { karakas: opts?.karakas });
+    },
+
+    // Fixed stars
+    async calculateFixedStar(name: string, date: Date, opts?: PlanetOptions & FixedStarOptions): Promise<FixedStar> {
+      const tzOffset = opts?.timezone ?? opts?.location?.timezone ?? 0;
+      const utcDate = new Date(date.getTime() - tzOffset * 60 * 60 * 1000);
+      const ayanamsa = opts?.ayanamsa ?? 1;
+      const zodiac = opts?.zodiac ?? 'sidereal';
+
+      const planets = opts?.planets ?? calculatePlanets(utcDate, {
+        ayanamsa,
+        zodiac,
+        includeOuterPlanets: opts?.includeOuterPlanets,
+      });
+
+      return calculateFixedStar(name, utcDate, { ...opts, ayanamsa, zodiac, planets });
+    },
+
+    async listFixedStars(): Promise<FixedStarInfo[]> {
+      return listFixedStars();
+    },
+
+    // Panchanga
+    async calculatePanchanga(date: Date, location: Location, opts?: PlanetOptions): Promise<Panchanga> {
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: opts?.timezone ?? location.timezone ?? 0,
+      };
+      return calculatePanchanga(date, geoLoc, calculationOptions(opts));
+    },
+
+    async calculateDayPeriods(date: Date, location: Location): Promise<DayPeriods> {
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: location.timezone ?? 0,
+      };
+      return calculateDayPeriods(date, geoLoc);
+    },
+
+    async calculateChoghadiya(date: Date, location: Location): Promise<Choghadiya[]> {
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: location.timezone ?? 0,
+      };
+      return calculateChoghadiya(date, geoLoc);
+    },
+
+    async calculateHoras(date: Date, location: Location): Promise<Hora[]> {
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: location.timezone ?? 0,
+      };
+      return calculateHoras(date, geoLoc);
+    },
+
+    async findMuhurtas(
+      start: Date,
+      end: Date,
+      location: Location,
+      constraints: MuhurtaConstraints,
+      opts?: MuhurtaOptions
+    ): Promise<MuhurtaWindow[]> {
+      const geoLoc = {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        timezone: location.timezone ?? 0,
+      };
+      return findMuhurtas(start, end, geoLoc, constraints, opts);
+    },
+    
+    // Transit search
+    async findIngresses(bodyId: number, start: Date, end: Date, opts?: IngressOptions): Promise<Ingress[]> {
+      return findIngresses(bodyId, start, end, opts);
+    },
+
+    async findSankrantis(start: Date, end: Date, ayanamsa: AyanamsaOption = 1): Promise<Ingress[]> {
+      return findSankrantis(start, end, ayanamsa);
+    },
+
+    async findStations(bodyId: number, start: Date, end: Date, opts?: StationOptions): Promise<Station[]> {
+      return findStations(bodyId, start, end, opts);
+    },
+
+    async findEclipses(start: Date, end: Date, opts?: EclipseOptions): Promise<Eclipse[]> {
+      return findEclipses(start, end, opts);
+    },
     
     // Utilities
-    getAyanamsa(date: Date, ayanamsaType: number = 1): number {
-      return getAyanamsa(date, ayanamsaType);
+    getAyanamsa(date: Date, ayanamsaType: AyanamsaOption = 1, trueAyanamsa: boolean = false): number {
+      return getAyanamsa(date, ayanamsaType, trueAyanamsa);
     },
     
     dateToJulian(date: Date): number {
@@ -542,6 +1268,67 @@ export type {
   MoonData,
   MoonPhase,
   LagnaInfo,
+  Bhava,
   NextMoonPhases,
+  MoonPhaseEvent,
   CalculationOptions,
+  CoordinateSystem,
+  CoordinateCenter,
+  PositionOptions,
+  EclipticPosition,
+  EquatorialPosition,
+  CartesianPosition,
+  BodyPosition,
+  PositionFor,
+  DashaOptions,
+  VimshottariDasha,
+  DashaResult,
+  VargaChartType,
+  VargaOptions,
+  DivisionalChart,
+  AshtakavargaOptions,
+  Ashtakavarga,
+  Shadbala,
+  YogaOptions,
+  YogaResult,
+  AspectOptions,
+  AspectResult,
+  DoshaOptions,
+  DoshaResult,
+  KPSub,
+  KPLords,
+  KPPlanet,
+  KPCusp,
+  KPSignificators,
+  KPRulingPlanets,
+  KPChart,
+  CharaKarakaName,
+  CharaKaraka,
+  ArudhaPada,
+  JaiminiDrishti,
+  JaiminiOptions,
+  JaiminiChart,
+  Panchanga,
+  DayPeriods,
+  TimePeriod,
+  Choghadiya,
+  ChoghadiyaName,
+  Hora,
+  InauspiciousPeriod,
+  MuhurtaMoment,
+  MuhurtaConstraints,
+  MuhurtaOptions,
+  MuhurtaWindow,
+  Ingress,
+  IngressOptions,
+  Station,
+  StationOptions,
+  Eclipse,
+  EclipseOptions,
+  FixedStar,
+  FixedStarInfo,
+  FixedStarOptions,
+  Zodiac,
+  CustomAyanamsa,
+  AyanamsaOption,
 };
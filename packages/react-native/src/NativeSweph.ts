@@ -67,6 +67,103 @@ export interface Spec extends TurboModule {
         altitude: number;
     };
 
+    // Eclipses (Returns dictionary/object, times are Julian days UT)
+    swe_sol_eclipse_when_glob(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): {
+        rflag: number;
+        maximum: number;
+        noon: number;
+        begin: number;
+        end: number;
+        totalBegin: number;
+        totalEnd: number;
+        centerBegin: number;
+        centerEnd: number;
+        error: string;
+    };
+
+    swe_sol_eclipse_where(
+        tjd_ut: number,
+        ifl: number
+    ): {
+        rflag: number;
+        longitude: number;
+        latitude: number;
+        eclipseMagnitude: number;
+        error: string;
+    };
+
+    swe_lun_eclipse_when(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): {
+        rflag: number;
+        maximum: number;
+        partialBegin: number;
+        partialEnd: number;
+        totalBegin: number;
+        totalEnd: number;
+        penumbralBegin: number;
+        penumbralEnd: number;
+        error: string;
+    };
+
+    swe_lun_eclipse_how(
+        tjd_ut: number,
+        ifl: number,
+        geopos: number[]
+    ): {
+        rflag: number;
+        umbralMagnitude: number;
+        penumbralMagnitude: number;
+        error: string;
+    };
+
+    // Fixed stars (Returns dictionary/object, name is the catalog name found)
+    swe_fixstar_ut(
+        star: string,
+        tjd_ut: number,
+        iflag: number
+    ): {
+        name: string;
+        longitude: number;
+        latitude: number;
+        distance: number;
+        longitudeSpeed: number;
+        latitudeSpeed: number;
+        distanceSpeed: number;
+        rflag: number;
+        error: string;
+    };
+
+    swe_fixstar2_ut(
+        star: string,
+        tjd_ut: number,
+        iflag: number
+    ): {
+        name: string;
+        longitude: number;
+        latitude: number;
+        distance: number;
+        longitudeSpeed: number;
+        latitudeSpeed: number;
+        distanceSpeed: number;
+        rflag: number;
+        error: string;
+    };
+
+    swe_fixstar2_mag(star: string): {
+        name: string;
+        magnitude: number;
+        error: string;
+    };
+
     // Version
     swe_version(): string;
 }
@@ -4,7 +4,18 @@
  * Adapts React Native Turbo Module to ISwephAdapter interface.
  */
 
-import type { ISwephAdapter, CalcResult, RiseTransResult, AzAltResult } from '@af/sweph-core';
+import type {
+    ISwephAdapter,
+    CalcResult,
+    RiseTransResult,
+    AzAltResult,
+    SolarEclipseWhenResult,
+    SolarEclipseWhereResult,
+    LunarEclipseWhenResult,
+    LunarEclipseHowResult,
+    FixstarResult,
+    FixstarMagResult,
+} from '@af/sweph-core';
 import NativeSweph from './NativeSweph';
 
 export class ReactNativeAdapter implements ISwephAdapter {
@@ -78,6 +89,72 @@ export class ReactNativeAdapter implements ISwephAdapter {
         return NativeSweph.swe_azalt(tjd_ut, calc_flag, geopos, atpress, attemp, xin);
     }
 
+    swe_sol_eclipse_when_glob(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): SolarEclipseWhenResult | { error: string } {
+        const result = NativeSweph.swe_sol_eclipse_when_glob(tjd_start, ifl, ifltype, backward);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
+    swe_sol_eclipse_where(tjd_ut: number, ifl: number): SolarEclipseWhereResult | { error: string } {
+        const result = NativeSweph.swe_sol_eclipse_where(tjd_ut, ifl);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
+    swe_lun_eclipse_when(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): LunarEclipseWhenResult | { error: string } {
+        const result = NativeSweph.swe_lun_eclipse_when(tjd_start, ifl, ifltype, backward);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
+    swe_lun_eclipse_how(tjd_ut: number, ifl: number, geopos: number[]): LunarEclipseHowResult | { error: string } {
+        const result = NativeSweph.swe_lun_eclipse_how(tjd_ut, ifl, geopos);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
+    swe_fixstar_ut(star: string, tjd_ut: number, iflag: number): FixstarResult | { error: string } {
+        const result = NativeSweph.swe_fixstar_ut(star, tjd_ut, iflag);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
+    swe_fixstar2_ut(star: string, tjd_ut: number, iflag: number): FixstarResult | { error: string } {
+        const result = NativeSweph.swe_fixstar2_ut(star, tjd_ut, iflag);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
+    swe_fixstar2_mag(star: string): FixstarMagResult | { error: string } {
+        const result = NativeSweph.swe_fixstar2_mag(star);
+        if (result.error) {
+            return { error: result.error };
+        }
+        return result;
+    }
+
     swe_version(): string {
         return NativeSweph.swe_version();
     }
@@ -42,7 +42,7 @@ echo "🐳 Starting Docker build..."
 # -s EXPORTED_RUNTIME_METHODS: Emscripten runtime helpers to expose
 
 # Define JSON arrays as single-line strings for command line
-EXPORTED_FUNCTIONS_JSON='["_swe_julday","_swe_date_conversion","_swe_set_ephe_path","_swe_set_sid_mode","_swe_get_ayanamsa","_swe_get_ayanamsa_ut","_swe_calc_ut","_swe_fixstar2_ut","_swe_rise_trans","_swe_azalt","_swe_version","_swe_set_topo"]'
+EXPORTED_FUNCTIONS_JSON='["_swe_julday","_swe_date_conversion","_swe_set_ephe_path","_swe_set_sid_mode","_swe_get_ayanamsa","_swe_get_ayanamsa_ut","_swe_calc_ut","_swe_fixstar_ut","_swe_fixstar2_ut","_swe_fixstar2_mag","_swe_rise_trans","_swe_azalt","_swe_sol_eclipse_when_glob","_swe_sol_eclipse_where","_swe_lun_eclipse_when","_swe_lun_eclipse_how","_swe_version","_swe_set_topo"]'
 EXPORTED_RUNTIME_METHODS_JSON='["ccall","cwrap","FS","stringToUTF8","UTF8ToString","setValue","getValue","lengthBytesUTF8"]'
 
 # Note: We map the source directory to /src in container
@@ -4,7 +4,18 @@
  * Implements ISwephAdapter interface for WebAssembly module.
  */
 
-import type { ISwephAdapter, CalcResult, RiseTransResult, AzAltResult } from '@af/sweph-core';
+import type {
+    ISwephAdapter,
+    CalcResult,
+    RiseTransResult,
+    AzAltResult,
+    SolarEclipseWhenResult,
+    SolarEclipseWhereResult,
+    LunarEclipseWhenResult,
+    LunarEclipseHowResult,
+    FixstarResult,
+    FixstarMagResult,
+} from '@af/sweph-core';
 
 // Swiss Ephemeris constants
 const SE_CONSTANTS = {
@@ -47,9 +58,25 @@ interface WasmModule {
         tjd_ut: number, calc_flag: number, geoposPtr: number, atpress: number, attemp: number,
         xinPtr: number, xazPtr: number
     ): void;
+    _swe_sol_eclipse_when_glob(
+        tjd_start: number, ifl: number, ifltype: number, tretPtr: number, backward: number, serrPtr: number
+    ): number;
+    _swe_sol_eclipse_where(tjd_ut: number, ifl: number, geoposPtr: number, attrPtr: number, serrPtr: number): number;
+    _swe_lun_eclipse_when(
+        tjd_start: number, ifl: number, ifltype: number, tretPtr: number, backward: number, serrPtr: number
+    ): number;
+    _swe_lun_eclipse_how(tjd_ut: number, ifl: number, geoposPtr: number, attrPtr: number, serrPtr: number): number;
+    _swe_fixstar_ut(starPtr: number, tjd_ut: number, iflag: number, xxPtr: number, serrPtr: number): number;
+    _swe_fixstar2_ut(starPtr: number, tjd_ut: number, iflag: number, xxPtr: number, serrPtr: number): number;
+    _swe_fixstar2_mag(starPtr: number, magPtr: number, serrPtr: number): number;
     _swe_version(ptr: number): void;
 }
 
+/**
+ * Size of the star name buffer; Swiss Ephemeris writes the full catalog name back into it
+ */
+const STAR_NAME_SIZE = 512;
+
 /**
  * WebAssembly adapter implementing ISwephAdapter
  */
@@ -199,6 +226,172 @@ export class WasmAdapter implements ISwephAdapter {
         }
     }
 
+    swe_sol_eclipse_when_glob(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): SolarEclipseWhenResult | { error: string } {
+        const missing = this.missingExport('_swe_sol_eclipse_when_glob');
+        if (missing) return missing;
+
+        const serrPtr = this.module._malloc(256);
+        const tretPtr = this.module._malloc(10 * 8);
+
+        try {
+            const ret = this.module._swe_sol_eclipse_when_glob(tjd_start, ifl, ifltype, tretPtr, backward, serrPtr);
+
+            if (ret < 0) {
+                return { error: this.module.UTF8ToString(serrPtr) };
+            }
+
+            const tret = (i: number) => this.module.getValue(tretPtr + i * 8, 'double');
+            return {
+                rflag: ret,
+                maximum: tret(0),
+                noon: tret(1),
+                begin: tret(2),
+                end: tret(3),
+                totalBegin: tret(4),
+                totalEnd: tret(5),
+                centerBegin: tret(6),
+                centerEnd: tret(7),
+            };
+        } finally {
+            this.module._free(serrPtr);
+            this.module._free(tretPtr);
+        }
+    }
+
+    swe_sol_eclipse_where(tjd_ut: number, ifl: number): SolarEclipseWhereResult | { error: string } {
+        const missing = this.missingExport('_swe_sol_eclipse_where');
+        if (missing) return missing;
+
+        const serrPtr = this.module._malloc(256);
+        const geoposPtr = this.module._malloc(10 * 8);
+        const attrPtr = this.module._malloc(20 * 8);
+
+        try {
+            const ret = this.module._swe_sol_eclipse_where(tjd_ut, ifl, geoposPtr, attrPtr, serrPtr);
+
+            if (ret < 0) {
+                return { error: this.module.UTF8ToString(serrPtr) };
+            }
+
+            return {
+                rflag: ret,
+                longitude: this.module.getValue(geoposPtr, 'double'),
+                latitude: this.module.getValue(geoposPtr + 8, 'double'),
+                eclipseMagnitude: this.module.getValue(attrPtr + 8 * 8, 'double'),
+            };
+        } finally {
+            this.module._free(serrPtr);
+            this.module._free(geoposPtr);
+            this.module._free(attrPtr);
+        }
+    }
+
+    swe_lun_eclipse_when(
+        tjd_start: number,
+        ifl: number,
+        ifltype: number,
+        backward: number
+    ): LunarEclipseWhenResult | { error: string } {
+        const missing = this.missingExport('_swe_lun_eclipse_when');
+        if (missing) return missing;
+
+        const serrPtr = this.module._malloc(256);
+        const tretPtr = this.module._malloc(10 * 8);
+
+        try {
+            const ret = this.module._swe_lun_eclipse_when(tjd_start, ifl, ifltype, tretPtr, backward, serrPtr);
+
+            if (ret < 0) {
+                return { error: this.module.UTF8ToString(serrPtr) };
+            }
+
+            const tret = (i: number) => this.module.getValue(tretPtr + i * 8, 'double');
+            return {
+                rflag: ret,
+                maximum: tret(0),
+                partialBegin: tret(2),
+                partialEnd: tret(3),
+                totalBegin: tret(4),
+                totalEnd: tret(5),
+                penumbralBegin: tret(6),
+                penumbralEnd: tret(7),
+            };
+        } finally {
+            this.module._free(serrPtr);
+            this.module._free(tretPtr);
+        }
+    }
+
+    swe_lun_eclipse_how(tjd_ut: number, ifl: number, geopos: number[]): LunarEclipseHowResult | { error: string } {
+        const missing = this.missingExport('_swe_lun_eclipse_how');
+        if (missing) return missing;
+
+        const serrPtr = this.module._malloc(256);
+        const geoposPtr = this.module._malloc(3 * 8);
+        const attrPtr = this.module._malloc(20 * 8);
+
+        try {
+            for (let i = 0; i < 3; i++) {
+                this.module.setValue(geoposPtr + i * 8, geopos[i] || 0, 'double');
+            }
+
+            const ret = this.module._swe_lun_eclipse_how(tjd_ut, ifl, geoposPtr, attrPtr, serrPtr);
+
+            if (ret < 0) {
+                return { error: this.module.UTF8ToString(serrPtr) };
+            }
+
+            return {
+                rflag: ret,
+                umbralMagnitude: this.module.getValue(attrPtr, 'double'),
+                penumbralMagnitude: this.module.getValue(attrPtr + 8, 'double'),
+            };
+        } finally {
+            this.module._free(serrPtr);
+            this.module._free(geoposPtr);
+            this.module._free(attrPtr);
+        }
+    }
+
+    swe_fixstar_ut(star: string, tjd_ut: number, iflag: number): FixstarResult | { error: string } {
+        return this.fixstar('_swe_fixstar_ut', star, tjd_ut, iflag);
+    }
+
+    swe_fixstar2_ut(star: string, tjd_ut: number, iflag: number): FixstarResult | { error: string } {
+        return this.fixstar('_swe_fixstar2_ut', star, tjd_ut, iflag);
+    }
+
+    swe_fixstar2_mag(star: string): FixstarMagResult | { error: string } {
+        const missing = this.missingExport('_swe_fixstar2_mag');
+        if (missing) return missing;
+
+        const serrPtr = this.module._malloc(256);
+        const magPtr = this.module._malloc(8);
+        const starPtr = this.allocStarName(star);
+
+        try {
+            const ret = this.module._swe_fixstar2_mag(starPtr, magPtr, serrPtr);
+
+            if (ret < 0) {
+                return { error: this.module.UTF8ToString(serrPtr) };
+            }
+
+            return {
+                name: this.module.UTF8ToString(starPtr),
+                magnitude: this.module.getValue(magPtr, 'double'),
+            };
+        } finally {
+            this.module._free(serrPtr);
+            this.module._free(magPtr);
+            this.module._free(starPtr);
+        }
+    }
+
     swe_version(): string {
         const ptr = this.module._malloc(256);
         try {
@@ -208,4 +401,63 @@ export class WasmAdapter implements ISwephAdapter {
             this.module._free(ptr);
         }
     }
+
+    /**
+     * Error for a function the loaded WASM build does not export, or null when it is available
+     */
+    private missingExport(name: keyof WasmModule): { error: string } | null {
+        if (typeof this.module[name] === 'function') return null;
+        return { error: `${name.slice(1)} is not exported by this WASM build` };
+    }
+
+    /**
+     * Copy a star name into a buffer large enough for the catalog name written back
+     */
+    private allocStarName(star: string): number {
+        const bytes = new TextEncoder().encode(star + '\0').slice(0, STAR_NAME_SIZE);
+        bytes[bytes.length - 1] = 0;
+        const ptr = this.module._malloc(STAR_NAME_SIZE);
+        this.module.HEAPU8.set(bytes, ptr);
+        return ptr;
+    }
+
+    /**
+     * Shared implementation of swe_fixstar_ut and swe_fixstar2_ut
+     */
+    private fixstar(
+        name: '_swe_fixstar_ut' | '_swe_fixstar2_ut',
+        star: string,
+        tjd_ut: number,
+        iflag: number
+    ): FixstarResult | { error: string } {
+        const missing = this.missingExport(name);
+        if (missing) return missing;
+
+        const serrPtr = this.module._malloc(256);
+        const xxPtr = this.module._malloc(6 * 8);
+        const starPtr = this.allocStarName(star);
+
+        try {
+            const ret = this.module[name](starPtr, tjd_ut, iflag, xxPtr, serrPtr);
+
+            if (ret < 0) {
+                return { error: this.module.UTF8ToString(serrPtr) };
+            }
+
+            return {
+                name: this.module.UTF8ToString(starPtr),
+                longitude: this.module.getValue(xxPtr, 'double'),
+                latitude: this.module.getValue(xxPtr + 8, 'double'),
+                distance: this.module.getValue(xxPtr + 16, 'double'),
+                longitudeSpeed: this.module.getValue(xxPtr + 24, 'double'),
+                latitudeSpeed: this.module.getValue(xxPtr + 32, 'double'),
+                distanceSpeed: this.module.getValue(xxPtr + 40, 'double'),
+                rflag: ret,
+            };
+        } finally {
+            this.module._free(serrPtr);
+            this.module._free(xxPtr);
+            this.module._free(starPtr);
+        }
+    }
 }
@@ -30,18 +30,22 @@ import type {
     MoonData,
     MoonPhase,
     PlanetRiseSetTimes,
-    GeoLocation
+    GeoLocation,
+    AyanamsaOption
 } from '@af/sweph-core';
 import {
     PLANETS,
+    CALC_FLAGS,
     VEDIC_PLANET_ORDER,
     OUTER_PLANETS,
     JULIAN_UNIX_EPOCH,
+    PlanetId,
     normalizeLongitude,
     getRashi,
     getRashiDegree,
     isRetrograde,
-    getNakshatra
+    getNakshatra,
+    getSiderealMode
 } from '@af/sweph-core';
 
 /**
@@ -109,8 +113,11 @@ export async function createSweph(options?: WasmLoadOptions): Promise<ISwephInst
                 ? [...VEDIC_PLANET_ORDER, ...OUTER_PLANETS]
                 : VEDIC_PLANET_ORDER;
 
-            if (calcOptions?.ayanamsa !== undefined) {
-                adapter.swe_set_sid_mode(calcOptions.ayanamsa, 0, 0);
+            let flags = adapter.SEFLG_SWIEPH | adapter.SEFLG_SPEED;
+            if ((calcOptions?.zodiac ?? 'sidereal') === 'sidereal') {
+                const { mode, t0, ayanT0 } = getSiderealMode(calcOptions?.ayanamsa);
+                adapter.swe_set_sid_mode(mode, t0, ayanT0);
+                flags |= CALC_FLAGS.SIDEREAL;
             }
 
             for (const planetDef of planetList) {
@@ -134,7 +141,7 @@ export async function createSweph(options?: WasmLoadOptions): Promise<ISwephInst
                     continue;
                 }
 
-                const result = adapter.swe_calc_ut(jd, planetDef.id, adapter.SEFLG_SWIEPH | adapter.SEFLG_SPEED);
+                const result = adapter.swe_calc_ut(jd, planetDef.id, flags);
 
                 if ('error' in result) {
                     console.warn(`Failed to calculate ${planetDef.name}: ${result.error}`);
@@ -189,10 +196,19 @@ export async function createSweph(options?: WasmLoadOptions): Promise<ISwephInst
             };
         },
 
-        getAyanamsa(date: Date, ayanamsaType: number = 1): number {
+        getAyanamsa(date: Date, ayanamsaType: AyanamsaOption = 1, trueAyanamsa = false): number {
             const jd = dateToJulian(date);
-            adapter.swe_set_sid_mode(ayanamsaType, 0, 0);
-            return adapter.swe_get_ayanamsa(jd);
+            const { mode, t0, ayanT0 } = getSiderealMode(ayanamsaType);
+            adapter.swe_set_sid_mode(mode, t0, ayanT0);
+            const ayanamsa = adapter.swe_get_ayanamsa(jd);
+            if (!trueAyanamsa) return ayanamsa;
+
+            // The true ayanamsa adds the nutation in longitude, the third SE_ECL_NUT value
+            const nutation = adapter.swe_calc_ut(jd, PlanetId.ECL_NUT, adapter.SEFLG_SWIEPH);
+            if ('error' in nutation) {
+                throw new Error('Failed to calculate nutation');
+            }
+            return ayanamsa + nutation.distance;
         },
 
         dateToJulian,